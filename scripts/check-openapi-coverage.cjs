@@ -11,7 +11,7 @@ for (const line of routesFile.split('\n')) {
   }
 
   const method = match[1];
-  const path = match[2].replace(':sessionId', '{sessionId}');
+  const path = match[2].replace(/:(\w+)/g, '{$1}');
   routeOps.push(`${method} ${path}`);
 }
 
@@ -3,6 +3,7 @@ import routes from './routes';
 import legacyRoutes from './routes/legacy';
 import config from './config';
 import authMiddleware from './middleware/authMiddleware';
+import drainMiddleware from './middleware/drainMiddleware';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import logger from './logger';
 import openApiSpec from './docs/openapi';
@@ -54,6 +55,9 @@ app.get('/docs', (_req, res) => {
 </html>`);
 });
 
+// Refuse new requests while shutting down
+app.use(drainMiddleware);
+
 // API key authentication
 app.use(authMiddleware);
 
@@ -19,6 +19,23 @@ function parseBooleanEnv(value: string | undefined, defaultValue: boolean): bool
   return defaultValue;
 }
 
+function parseEnumEnv<T extends string>(value: string | undefined, allowed: readonly T[], defaultValue: T): T {
+  if (value === undefined) {
+    return defaultValue;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  return (allowed as readonly string[]).includes(normalized) ? (normalized as T) : defaultValue;
+}
+
+// Positive integer limit, null (unlimited) when unset or 0
+function parseLimitEnv(value: string | undefined): number | null {
+  const parsed = parseInt(value || '', 10);
+  return parsed > 0 ? parsed : null;
+}
+
+const sessionsPath = process.env.SESSIONS_PATH || './sessions';
+
 export const config = {
   port: parseInt(process.env.PORT || '3000', 10),
   apiKey: process.env.API_KEY || '',
@@ -26,12 +43,63 @@ export const config = {
   enableWebSocket: parseBooleanEnv(process.env.ENABLE_WEBSOCKET, true),
   enableWebhook: parseBooleanEnv(process.env.ENABLE_WEBHOOK, true),
   baseWebhookUrl: process.env.BASE_WEBHOOK_URL || '',
-  sessionsPath: process.env.SESSIONS_PATH || './sessions',
+  sessionsPath,
   autoStartSessions: parseBooleanEnv(process.env.AUTO_START_SESSIONS, false),
   logLevel: process.env.LOG_LEVEL || 'info',
   disabledCallbacks: (process.env.DISABLED_CALLBACKS || '').split(',').filter(Boolean),
   maxReconnectRetries: parseInt(process.env.MAX_RECONNECT_RETRIES || '5', 10),
   reconnectInterval: parseInt(process.env.RECONNECT_INTERVAL || '3000', 10),
+  reconnectMaxDelay: parseInt(process.env.RECONNECT_MAX_DELAY || '60000', 10),
+  reconnectJitter: Math.min(Math.max(parseFloat(process.env.RECONNECT_JITTER || '0.2') || 0, 0), 1),
+  reconnectCooldownInterval: parseInt(process.env.RECONNECT_COOLDOWN_INTERVAL || '300000', 10),
+  sessionHibernateAfter: parseInt(process.env.SESSION_HIBERNATE_AFTER || '0', 10) || 0,
+  sessionWakeTimeout: parseInt(process.env.SESSION_WAKE_TIMEOUT || '30000', 10),
+  bulkConcurrency: Math.max(parseInt(process.env.BULK_CONCURRENCY || '5', 10) || 5, 1),
+  bulkWaitTimeout: parseInt(process.env.BULK_WAIT_TIMEOUT || '10000', 10),
+  pairingCodeMaxAttempts: Math.max(parseInt(process.env.PAIRING_CODE_MAX_ATTEMPTS || '3', 10) || 3, 1),
+  pairingCodeTimeout: parseInt(process.env.PAIRING_CODE_TIMEOUT || '30000', 10),
+  shutdownTimeout: parseInt(process.env.SHUTDOWN_TIMEOUT || '30000', 10),
+  // Store retention defaults, overridden per session by the `retention` session option
+  retention: {
+    maxMessagesPerChat: parseLimitEnv(process.env.RETENTION_MAX_MESSAGES_PER_CHAT),
+    maxAgeDays: parseLimitEnv(process.env.RETENTION_MAX_AGE_DAYS),
+    maxMessagesPerSession: parseLimitEnv(process.env.RETENTION_MAX_MESSAGES_PER_SESSION),
+    mediaMaxAgeDays: parseLimitEnv(process.env.RETENTION_MEDIA_MAX_AGE_DAYS),
+  },
+  storeBackend: parseEnumEnv(process.env.STORE_BACKEND, ['memory', 'sqlite'] as const, 'sqlite'),
+  authStateBackend: parseEnumEnv(process.env.AUTH_STATE_BACKEND, ['file', 'sqlite', 'redis'] as const, 'file'),
+  authStateSqlitePath: process.env.AUTH_STATE_SQLITE_PATH || path.join(sessionsPath, 'auth-state.sqlite'),
+  authStateRedisUrl: process.env.AUTH_STATE_REDIS_URL || '',
+  authStateRedisPrefix: process.env.AUTH_STATE_REDIS_PREFIX || 'baileys:auth',
+  sessionRegistryPath: process.env.SESSION_REGISTRY_PATH || path.join(sessionsPath, 'registry.json'),
+  sessionHistoryPath: process.env.SESSION_HISTORY_PATH || path.join(sessionsPath, 'history'),
+  sessionHistoryLimit: Math.max(parseInt(process.env.SESSION_HISTORY_LIMIT || '500', 10) || 500, 1),
+  // Event bus: chats dispatched in parallel, and the backlog above which event producers wait
+  eventBusConcurrency: Math.max(parseInt(process.env.EVENT_BUS_CONCURRENCY || '16', 10) || 16, 1),
+  eventBusMaxPending: Math.max(parseInt(process.env.EVENT_BUS_MAX_PENDING || '10000', 10) || 10000, 1),
+  // HMAC signing secrets of BASE_WEBHOOK_URL (the `default` subscription): deliveries are signed with the current and, during a rotation, the previous one
+  webhookSecret: process.env.WEBHOOK_SECRET || '',
+  webhookPreviousSecret: process.env.WEBHOOK_PREVIOUS_SECRET || '',
+  // payload format of BASE_WEBHOOK_URL (the `default` subscription)
+  webhookFormat: parseEnumEnv(
+    process.env.WEBHOOK_FORMAT,
+    ['wwebjs', 'v2', 'cloudevents', 'cloudevents-binary'] as const,
+    'wwebjs'
+  ),
+  webhookSubscriptionsPath: process.env.WEBHOOK_SUBSCRIPTIONS_PATH || path.join(sessionsPath, 'webhooks.json'),
+  webhookQueuePath: process.env.WEBHOOK_QUEUE_PATH || path.join(sessionsPath, 'webhook-queue.sqlite'),
+  webhookMaxAttempts: Math.max(parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '10', 10) || 10, 1),
+  webhookRetryBaseDelay: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY || '1000', 10),
+  webhookRetryMaxDelay: parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY || '300000', 10),
+  webhookTimeout: parseInt(process.env.WEBHOOK_TIMEOUT || '30000', 10),
+  webhookLogRetentionDays: Math.max(parseInt(process.env.WEBHOOK_LOG_RETENTION_DAYS || '7', 10) || 0, 0),
+  webhookLogMaxEntries: Math.max(parseInt(process.env.WEBHOOK_LOG_MAX_ENTRIES || '10000', 10) || 0, 0),
+  storeSnapshotCount: Math.max(parseInt(process.env.STORE_SNAPSHOT_COUNT || '5', 10) || 0, 0),
+  storeSnapshotInterval: parseInt(process.env.STORE_SNAPSHOT_INTERVAL || '3600000', 10),
+  sessionArchiveMaxSize: process.env.SESSION_ARCHIVE_MAX_SIZE || '200mb',
+  encryptionKey: process.env.ENCRYPTION_KEY || '',
+  encryptionKeyFile: process.env.ENCRYPTION_KEY_FILE || '',
+  encryptionPreviousKeys: (process.env.ENCRYPTION_PREVIOUS_KEYS || '').split(',').filter(Boolean),
 };
 
 export function getSessionPath(sessionId: string): string {
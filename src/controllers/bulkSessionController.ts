@@ -0,0 +1,149 @@
+import type { Request, Response } from 'express';
+import config from '../config';
+import bulkSessionService from '../services/BulkSessionService';
+import sessionManager from '../services/SessionManager';
+import sessionRegistry from '../services/SessionRegistry';
+import { SESSION_STATES } from '../services/SessionStateMachine';
+import { sendSuccess, sendError, sendValidationError } from '../utils/responseHelper';
+import type { BulkJob, BulkSessionAction, SessionStatus } from '../types';
+
+/**
+ * Resolve the sessions targeted by a bulk request: explicit `sessionIds`, and/or the registered sessions
+ * with `tag`, in one of the states in `status`, or `all` of them
+ */
+function resolveSessionIds(body: unknown): { sessionIds?: string[]; error?: string } {
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const sessionIds: string[] = [];
+
+  if (input.sessionIds !== undefined) {
+    if (!Array.isArray(input.sessionIds) || input.sessionIds.some((id) => typeof id !== 'string' || !id.trim())) {
+      return { error: 'sessionIds must be an array of non-empty strings' };
+    }
+    sessionIds.push(...(input.sessionIds as string[]).map((id) => id.trim()));
+  }
+
+  if (input.tag !== undefined) {
+    if (typeof input.tag !== 'string' || !input.tag.trim()) {
+      return { error: 'tag must be a non-empty string' };
+    }
+    const tag = input.tag.trim();
+    sessionIds.push(...sessionRegistry.list().filter((record) => record.tags.includes(tag)).map((record) => record.sessionId));
+  }
+
+  if (input.status !== undefined) {
+    const statuses = Array.isArray(input.status) ? input.status : [input.status];
+    if (statuses.length === 0 || statuses.some((status) => !SESSION_STATES.includes(status as SessionStatus))) {
+      return { error: `status must be one or more of: ${SESSION_STATES.join(', ')}` };
+    }
+    // sessions not started since the server came up have no state yet and count as stopped
+    sessionIds.push(
+      ...sessionRegistry
+        .list()
+        .filter((record) => statuses.includes(sessionManager.getStatus(record.sessionId) ?? 'stopped'))
+        .map((record) => record.sessionId)
+    );
+  }
+
+  if (input.all !== undefined) {
+    if (input.all !== true) {
+      return { error: 'all must be true' };
+    }
+    sessionIds.push(...sessionRegistry.list().map((record) => record.sessionId));
+  }
+
+  if (input.sessionIds === undefined && input.tag === undefined && input.status === undefined && input.all === undefined) {
+    return { error: 'Provide sessionIds, tag, status or all' };
+  }
+
+  return { sessionIds: [...new Set(sessionIds)] };
+}
+
+function sendJob(res: Response, job: BulkJob): void {
+  res.status(job.status === 'running' ? 202 : 200);
+  sendSuccess(res, { job });
+}
+
+function bulkAction(action: BulkSessionAction) {
+  return async (req: Request, res: Response): Promise<void> => {
+    const { sessionIds, error } = resolveSessionIds(req.body);
+    if (!sessionIds) {
+      sendValidationError(res, error || 'Invalid request body');
+      return;
+    }
+
+    // starting an unknown id would create a brand-new session waiting for a QR scan
+    const unknown = action === 'start' ? sessionIds.filter((sessionId) => !sessionRegistry.has(sessionId)) : [];
+    if (unknown.length > 0) {
+      sendError(res, `Sessions not found: ${unknown.join(', ')}`, 404, 'session_not_found');
+      return;
+    }
+
+    const job = bulkSessionService.run(action, sessionIds);
+
+    // short jobs are answered with their results, longer ones with the job to poll
+    sendJob(res, (await bulkSessionService.waitFor(job.id, config.bulkWaitTimeout)) || job);
+  };
+}
+
+/**
+ * Start registered sessions in bulk
+ */
+export const bulkStart = bulkAction('start');
+
+/**
+ * Stop sessions in bulk (keep auth)
+ */
+export const bulkStop = bulkAction('stop');
+
+/**
+ * Restart sessions in bulk
+ */
+export const bulkRestart = bulkAction('restart');
+
+/**
+ * Terminate sessions in bulk (logout and delete auth)
+ */
+export const bulkTerminate = bulkAction('terminate');
+
+/**
+ * List recent bulk jobs
+ */
+export function listJobs(req: Request, res: Response): void {
+  sendSuccess(res, { jobs: bulkSessionService.listJobs() });
+}
+
+/**
+ * Get a bulk job with its per-session results
+ */
+export function getJob(req: Request, res: Response): void {
+  const job = bulkSessionService.getJob(req.params.jobId);
+  if (!job) {
+    sendError(res, `Job not found: ${req.params.jobId}`, 404, 'job_not_found');
+    return;
+  }
+
+  sendSuccess(res, { job });
+}
+
+/**
+ * Cancel a running bulk job; sessions not processed yet are skipped
+ */
+export function cancelJob(req: Request, res: Response): void {
+  const job = bulkSessionService.cancel(req.params.jobId);
+  if (!job) {
+    sendError(res, `Job not found: ${req.params.jobId}`, 404, 'job_not_found');
+    return;
+  }
+
+  sendSuccess(res, { job });
+}
+
+export default {
+  bulkStart,
+  bulkStop,
+  bulkRestart,
+  bulkTerminate,
+  listJobs,
+  getJob,
+  cancelJob,
+};
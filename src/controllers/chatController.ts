@@ -337,12 +337,9 @@ export async function getLabels(req: Request, res: Response): Promise<void> {
     }
 
     const jid = toBaileysJid(chatId);
-    const labelLinks = session.store.getChatLabels(jid);
-    const labels = labelLinks
-      .map((association) => {
-        const labelId = String((association as { labelId?: string }).labelId || '');
-        return session.store.getLabels().findById(labelId);
-      })
+    const labels = session.store
+      .getChatLabelIds(jid)
+      .map((labelId) => session.store.getLabel(labelId))
       .filter(Boolean);
 
     sendSuccess(res, { labels });
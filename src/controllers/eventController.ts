@@ -0,0 +1,12 @@
+import type { Request, Response } from 'express';
+import eventBus from '../services/EventBus';
+import { sendSuccess } from '../utils/responseHelper';
+
+/**
+ * Event bus backlog, throughput and per-sink latency
+ */
+export function getStats(req: Request, res: Response): void {
+  sendSuccess(res, eventBus.getStats());
+}
+
+export default { getStats };
@@ -1,4 +1,5 @@
 import type { Request, Response } from 'express';
+import shutdownService from '../services/ShutdownService';
 import { sendSuccess } from '../utils/responseHelper';
 
 /**
@@ -8,4 +9,13 @@ export function ping(req: Request, res: Response): void {
   sendSuccess(res, { message: 'pong', timestamp: Date.now() });
 }
 
-export default { ping };
+/**
+ * Readiness check: 503 while starting or draining for shutdown, with the drain progress
+ */
+export function ready(req: Request, res: Response): void {
+  const readiness = shutdownService.getReadiness();
+  res.status(readiness.ready ? 200 : 503);
+  sendSuccess(res, readiness);
+}
+
+export default { ping, ready };
@@ -0,0 +1,33 @@
+import type { Request, Response } from 'express';
+import encryptionService from '../services/EncryptionService';
+import encryptionMaintenanceService from '../services/EncryptionMaintenanceService';
+import logger from '../logger';
+import { sendSuccess, sendError } from '../utils/responseHelper';
+
+/**
+ * Re-encrypt all stored sessions with the current encryption key
+ */
+export async function rotateEncryptionKey(req: Request, res: Response): Promise<void> {
+  if (!encryptionService.enabled) {
+    sendError(res, 'Encryption at rest is not enabled', 400, 'encryption_disabled');
+    return;
+  }
+
+  if (encryptionMaintenanceService.isRotating) {
+    sendError(res, 'Key rotation already in progress', 409, 'rotation_in_progress');
+    return;
+  }
+
+  try {
+    const result = await encryptionMaintenanceService.rotate();
+    sendSuccess(res, result);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to rotate encryption key';
+    logger.error({ error: errorMessage }, 'Error rotating encryption key');
+    sendError(res, errorMessage, 500);
+  }
+}
+
+export default {
+  rotateEncryptionKey,
+};
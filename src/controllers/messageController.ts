@@ -27,7 +27,7 @@ export async function getInfo(req: Request, res: Response): Promise<void> {
 
   try {
     const key = await sessionManager.resolveMessageKey(sessionId, chatId, messageId);
-    const receipts = (await session.store.fetchMessageReceipts(key).catch(() => [])) || [];
+    const receipts = session.store.getMessageReceipts(key);
 
     const delivery = receipts
       .filter((item) => !!item.receiptTimestamp)
@@ -306,6 +306,60 @@ export async function edit(req: Request, res: Response): Promise<void> {
   }
 }
 
+/**
+ * Get the votes of a poll
+ */
+export async function getPollVotes(req: Request, res: Response): Promise<void> {
+  const { sessionId } = req.params;
+  const { chatId, messageId } = req.body;
+
+  if (!chatId || !messageId) {
+    sendError(res, 'chatId and messageId are required', 400, 'validation_error');
+    return;
+  }
+
+  try {
+    const poll = await sessionManager.getPollVotes(sessionId, chatId, messageId);
+    if (!poll) {
+      sendError(res, 'Poll not found', 404, 'poll_not_found');
+      return;
+    }
+
+    sendSuccess(res, { poll });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to get poll votes';
+    logger.error({ sessionId, chatId, messageId, error: errorMessage }, 'Error getting poll votes');
+    sendError(res, errorMessage, 500);
+  }
+}
+
+/**
+ * Get the previous versions of an edited message
+ */
+export async function getEditHistory(req: Request, res: Response): Promise<void> {
+  const { sessionId } = req.params;
+  const { chatId, messageId } = req.body;
+
+  if (!chatId || !messageId) {
+    sendError(res, 'chatId and messageId are required', 400, 'validation_error');
+    return;
+  }
+
+  try {
+    const edits = await sessionManager.getEditHistory(sessionId, chatId, messageId);
+    if (!edits) {
+      sendError(res, 'Message not found', 404, 'message_not_found');
+      return;
+    }
+
+    sendSuccess(res, { edits });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to get edit history';
+    logger.error({ sessionId, chatId, messageId, error: errorMessage }, 'Error getting edit history');
+    sendError(res, errorMessage, 500);
+  }
+}
+
 /**
  * Pin a message
  */
@@ -428,6 +482,8 @@ export default {
   getQuotedMessage,
   getMentions,
   edit,
+  getEditHistory,
+  getPollVotes,
   pin,
   unpin,
 };
@@ -1,18 +1,50 @@
 import type { Request, Response } from 'express';
 import QRCode from 'qrcode';
+import { pipeline } from 'stream/promises';
 import sessionManager from '../services/SessionManager';
+import sessionArchiveService, { SessionArchiveError } from '../services/SessionArchiveService';
+import sessionDiagnosticsService from '../services/SessionDiagnosticsService';
+import sessionHistory from '../services/SessionHistory';
+import pairingOnboardingService, { PairingOnboardingError } from '../services/PairingOnboardingService';
+import sessionRegistry from '../services/SessionRegistry';
+import storeSnapshotService, { StoreSnapshotError } from '../services/StoreSnapshotService';
+import { toWwebjsState } from '../services/SessionStateMachine';
 import logger from '../logger';
-import { sendSuccess, sendError, sendSessionNotFound } from '../utils/responseHelper';
+import { sendSuccess, sendError, sendSessionNotFound, sendValidationError } from '../utils/responseHelper';
+import { normalizePhoneNumber } from '../utils/phoneNumber';
+import { parseSessionOptions, parseSessionOptionsQuery } from '../utils/sessionOptions';
+import type { SessionRecordUpdate, SessionStatus } from '../types';
+
+// Keeps proxies from closing an idle event stream
+const QR_STREAM_HEARTBEAT_MS = 15000;
+
+// States that end a QR stream
+const QR_STREAM_OUTCOMES: readonly SessionStatus[] = ['connected', 'logged_out', 'failed', 'stopped', 'hibernated'];
 
 /**
- * Start a new session
+ * Start a new session, optionally with socket options (query string on GET, JSON body on POST)
  */
 export async function startSession(req: Request, res: Response): Promise<void> {
   const { sessionId } = req.params;
 
+  const { options, error: optionsError } =
+    req.method === 'POST' ? parseSessionOptions(req.body) : parseSessionOptionsQuery(req.query);
+  if (!options) {
+    sendValidationError(res, optionsError || 'Invalid session options');
+    return;
+  }
+
   try {
-    await sessionManager.startSession(sessionId);
-    sendSuccess(res, { message: 'Session started' });
+    const wasConnected = sessionManager.isConnected(sessionId);
+    const session = await sessionManager.startSession(
+      sessionId,
+      Object.keys(options).length > 0 ? options : undefined
+    );
+
+    sendSuccess(res, {
+      message: wasConnected ? 'Session already connected, options apply on next restart' : 'Session started',
+      options: sessionRegistry.get(sessionId)?.options || session.options,
+    });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to start session';
     logger.error({ sessionId, error: errorMessage }, 'Error starting session');
@@ -49,21 +81,12 @@ export function getStatus(req: Request, res: Response): void {
 
   const status = sessionManager.getStatus(sessionId);
 
-  if (status === null) {
-    sendSuccess(res, { state: 'STOPPED' });
-    return;
-  }
-
-  // Map internal status to wwebjs-compatible state
-  const stateMap: Record<string, string> = {
-    connecting: 'INITIALIZING',
-    qr: 'QR_RECEIVED',
-    pairing: 'PAIRING',
-    connected: 'CONNECTED',
-    disconnected: 'DISCONNECTED',
-  };
-
-  sendSuccess(res, { state: stateMap[status] || status.toUpperCase() });
+  sendSuccess(res, {
+    state: toWwebjsState(status),
+    status: status ?? 'stopped',
+    reconnect: sessionManager.getReconnectState(sessionId),
+    retention: sessionManager.getRetentionStatus(sessionId),
+  });
 }
 
 /**
@@ -83,14 +106,18 @@ export async function terminateSession(req: Request, res: Response): Promise<voi
 }
 
 /**
- * Get all sessions
+ * Get all known sessions (registered, stored and running) with their registry metadata
  */
-export function getSessions(req: Request, res: Response): void {
-  const sessionIds = sessionManager.getAllSessionIds();
+export async function getSessions(req: Request, res: Response): Promise<void> {
+  const storedSessionIds = new Set(await sessionManager.listStoredSessionIds());
+  const records = new Map(sessionRegistry.list().map((record) => [record.sessionId, record]));
+  const sessionIds = new Set([...records.keys(), ...sessionManager.getAllSessionIds(), ...storedSessionIds]);
 
-  const sessions = sessionIds.map((id) => ({
+  const sessions = [...sessionIds].sort().map((id) => ({
+    ...records.get(id),
     sessionId: id,
     status: sessionManager.getStatus(id),
+    hasAuthState: storedSessionIds.has(id),
   }));
 
   sendSuccess(res, { sessions });
@@ -156,15 +183,123 @@ export async function getQrImage(req: Request, res: Response): Promise<void> {
   }
 }
 
+/**
+ * Stream the login flow as Server-Sent Events: every QR (text, PNG data URL and SVG), pairing codes,
+ * a per-second QR expiry countdown and state changes, closed with an `outcome` event
+ */
+export async function streamQr(req: Request, res: Response): Promise<void> {
+  const { sessionId } = req.params;
+
+  const session = sessionManager.getSession(sessionId);
+  if (!session) {
+    sendSessionNotFound(res, sessionId);
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  let closed = false;
+  let qrExpiresAt: number | null = null;
+
+  const send = (event: string, data: unknown) => {
+    if (!closed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  const sendQr = async (qr: string, expiresAt: number) => {
+    const [png, svg] = await Promise.all([
+      QRCode.toDataURL(qr, { type: 'image/png', width: 300, margin: 2 }),
+      QRCode.toString(qr, { type: 'svg', margin: 2 }),
+    ]);
+
+    qrExpiresAt = expiresAt;
+    send('qr', { qr, png, svg, expiresAt: new Date(expiresAt).toISOString() });
+  };
+
+  const countdown = setInterval(() => {
+    if (qrExpiresAt) {
+      send('countdown', { secondsRemaining: Math.max(0, Math.ceil((qrExpiresAt - Date.now()) / 1000)) });
+    }
+  }, 1000);
+
+  const heartbeat = setInterval(() => {
+    if (!closed) {
+      res.write(': ping\n\n');
+    }
+  }, QR_STREAM_HEARTBEAT_MS);
+
+  const close = () => {
+    if (closed) {
+      return;
+    }
+
+    closed = true;
+    clearInterval(countdown);
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+
+  const finish = (status: SessionStatus) => {
+    send('outcome', { status });
+    close();
+  };
+
+  const unsubscribe = sessionManager.subscribe(sessionId, (event) => {
+    switch (event.type) {
+      case 'qr':
+        sendQr(event.qr, event.expiresAt).catch((error) =>
+          logger.warn({ sessionId, error }, 'Failed to render QR code for stream')
+        );
+        break;
+      case 'pairing_code':
+        send('pairing_code', { code: event.code });
+        break;
+      case 'state':
+        if (event.status !== 'qr') {
+          qrExpiresAt = null;
+        }
+        send('state', { status: event.status, reason: event.reason });
+        if (QR_STREAM_OUTCOMES.includes(event.status)) {
+          finish(event.status);
+        }
+        break;
+    }
+  });
+
+  req.on('close', close);
+
+  if (session.status === 'connected') {
+    finish('connected');
+    return;
+  }
+
+  send('state', { status: session.status, reason: null });
+  if (session.qr && session.qrExpiresAt) {
+    await sendQr(session.qr, session.qrExpiresAt).catch((error) =>
+      logger.warn({ sessionId, error }, 'Failed to render QR code for stream')
+    );
+  }
+  if (session.pairingCode) {
+    send('pairing_code', { code: session.pairingCode });
+  }
+}
+
 /**
  * Request pairing code
  */
 export async function requestPairingCode(req: Request, res: Response): Promise<void> {
   const { sessionId } = req.params;
-  const { phoneNumber } = req.body;
+  const { phoneNumber, error: phoneNumberError } = normalizePhoneNumber(req.body?.phoneNumber);
 
   if (!phoneNumber) {
-    sendError(res, 'Phone number is required', 400, 'validation_error');
+    sendValidationError(res, phoneNumberError || 'Invalid phone number');
     return;
   }
 
@@ -195,6 +330,54 @@ export async function requestPairingCode(req: Request, res: Response): Promise<v
   }
 }
 
+/**
+ * Link a session with a pairing code in one call: start it, request the code at the right moment
+ * and keep requesting new codes when they expire. Follow the result on the QR stream or GET this route.
+ */
+export async function onboardSession(req: Request, res: Response): Promise<void> {
+  const { sessionId } = req.params;
+
+  const { options, error: optionsError } = parseSessionOptions(req.body?.options);
+  if (!options) {
+    sendValidationError(res, optionsError || 'Invalid session options');
+    return;
+  }
+
+  try {
+    const onboarding = await pairingOnboardingService.start(
+      sessionId,
+      req.body?.phoneNumber,
+      Object.keys(options).length > 0 ? options : undefined
+    );
+
+    sendSuccess(res, { onboarding, streamUrl: `/session/qr/${encodeURIComponent(sessionId)}/stream` });
+  } catch (error) {
+    if (error instanceof PairingOnboardingError) {
+      sendError(res, error.message, error.statusCode, error.code);
+      return;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Failed to start pairing code onboarding';
+    logger.error({ sessionId, error: errorMessage }, 'Error starting pairing code onboarding');
+    sendError(res, errorMessage, 500);
+  }
+}
+
+/**
+ * Get the progress of a pairing code onboarding (current code, attempts, result)
+ */
+export function getOnboarding(req: Request, res: Response): void {
+  const { sessionId } = req.params;
+
+  const onboarding = pairingOnboardingService.get(sessionId);
+  if (!onboarding) {
+    sendError(res, `No pairing code onboarding for session: ${sessionId}`, 404, 'onboarding_not_found');
+    return;
+  }
+
+  sendSuccess(res, { onboarding });
+}
+
 /**
  * Logout session
  */
@@ -235,6 +418,310 @@ export async function restartSession(req: Request, res: Response): Promise<void>
   }
 }
 
+function isTruthyParam(value: unknown): boolean {
+  return ['1', 'true', 'yes', 'on'].includes(String(value ?? '').trim().toLowerCase());
+}
+
+/**
+ * Export session auth state and store as an archive
+ */
+export async function exportSession(req: Request, res: Response): Promise<void> {
+  const { sessionId } = req.params;
+  const password = req.header('x-archive-password') || undefined;
+
+  try {
+    const archive = await sessionArchiveService.createExportStream(sessionId, password);
+    const fileName = sessionArchiveService.getArchiveFileName(sessionId, !!password);
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    await pipeline(archive, res);
+  } catch (error) {
+    if (error instanceof SessionArchiveError) {
+      sendError(res, error.message, error.statusCode, error.code);
+      return;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Failed to export session';
+    logger.error({ sessionId, error: errorMessage }, 'Error exporting session');
+    if (!res.headersSent) {
+      sendError(res, errorMessage, 500);
+    }
+  }
+}
+
+/**
+ * Import session from an archive created by exportSession
+ */
+export async function importSession(req: Request, res: Response): Promise<void> {
+  const { sessionId } = req.params;
+  const password = req.header('x-archive-password') || undefined;
+
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    sendError(res, 'Archive is required as the request body', 400, 'validation_error');
+    return;
+  }
+
+  try {
+    const summary = await sessionArchiveService.importArchive(sessionId, req.body, {
+      password,
+      force: isTruthyParam(req.query.force),
+    });
+
+    const start = isTruthyParam(req.query.start);
+    if (start) {
+      await sessionManager.startSession(sessionId);
+    }
+
+    sendSuccess(res, { message: start ? 'Session imported and started' : 'Session imported', ...summary });
+  } catch (error) {
+    if (error instanceof SessionArchiveError) {
+      sendError(res, error.message, error.statusCode, error.code);
+      return;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Failed to import session';
+    logger.error({ sessionId, error: errorMessage }, 'Error importing session');
+    sendError(res, errorMessage, 500);
+  }
+}
+
+/**
+ * List the rotating store snapshots of a session, newest first
+ */
+export function listStoreSnapshots(req: Request, res: Response): void {
+  const { sessionId } = req.params;
+
+  if (!sessionRegistry.has(sessionId) && !sessionManager.hasSession(sessionId)) {
+    sendSessionNotFound(res, sessionId);
+    return;
+  }
+
+  sendSuccess(res, { sessionId, snapshots: storeSnapshotService.list(sessionId) });
+}
+
+/**
+ * Replace a session's store with one of its snapshots
+ */
+export async function restoreStoreSnapshot(req: Request, res: Response): Promise<void> {
+  const { sessionId } = req.params;
+  const { snapshotId } = req.body || {};
+
+  if (typeof snapshotId !== 'string' || !snapshotId) {
+    sendValidationError(res, 'snapshotId is required');
+    return;
+  }
+
+  if (!sessionRegistry.has(sessionId) && !sessionManager.hasSession(sessionId)) {
+    sendSessionNotFound(res, sessionId);
+    return;
+  }
+
+  try {
+    const result = await storeSnapshotService.restore(sessionId, snapshotId, { force: isTruthyParam(req.query.force) });
+    sendSuccess(res, { message: 'Store restored from snapshot', ...result });
+  } catch (error) {
+    if (error instanceof StoreSnapshotError) {
+      sendError(res, error.message, error.statusCode, error.code);
+      return;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Failed to restore store snapshot';
+    logger.error({ sessionId, snapshotId, error: errorMessage }, 'Error restoring store snapshot');
+    sendError(res, errorMessage, 500);
+  }
+}
+
+function parseRecordUpdate(body: unknown): { update?: SessionRecordUpdate; error?: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be an object' };
+  }
+
+  const input = body as Record<string, unknown>;
+  const update: SessionRecordUpdate = {};
+
+  for (const field of ['displayName', 'owner', 'phoneNumber'] as const) {
+    if (input[field] === undefined) {
+      continue;
+    }
+    if (input[field] !== null && typeof input[field] !== 'string') {
+      return { error: `${field} must be a string or null` };
+    }
+    update[field] = input[field] as string | null;
+  }
+
+  if (input.tags !== undefined) {
+    if (!Array.isArray(input.tags) || input.tags.some((tag) => typeof tag !== 'string')) {
+      return { error: 'tags must be an array of strings' };
+    }
+    update.tags = [...new Set(input.tags as string[])];
+  }
+
+  if (input.metadata !== undefined) {
+    if (!input.metadata || typeof input.metadata !== 'object' || Array.isArray(input.metadata)) {
+      return { error: 'metadata must be an object' };
+    }
+    update.metadata = input.metadata as Record<string, unknown>;
+  }
+
+  if (input.autostart !== undefined) {
+    if (typeof input.autostart !== 'boolean') {
+      return { error: 'autostart must be a boolean' };
+    }
+    update.autostart = input.autostart;
+  }
+
+  if (input.options !== undefined) {
+    const { options, error } = parseSessionOptions(input.options);
+    if (!options) {
+      return { error: error || 'Invalid session options' };
+    }
+    update.options = options;
+  }
+
+  return { update };
+}
+
+/**
+ * List session registry records, optionally filtered by tag or owner
+ */
+export function listRegistry(req: Request, res: Response): void {
+  const tag = typeof req.query.tag === 'string' ? req.query.tag : undefined;
+  const owner = typeof req.query.owner === 'string' ? req.query.owner : undefined;
+
+  const sessions = sessionRegistry
+    .list()
+    .filter((record) => !tag || record.tags.includes(tag))
+    .filter((record) => !owner || record.owner === owner)
+    .map((record) => ({ ...record, status: sessionManager.getStatus(record.sessionId) }));
+
+  sendSuccess(res, { sessions });
+}
+
+/**
+ * Get the registry record of a session
+ */
+export function getRegistryEntry(req: Request, res: Response): void {
+  const { sessionId } = req.params;
+
+  const record = sessionRegistry.get(sessionId);
+  if (!record) {
+    sendSessionNotFound(res, sessionId);
+    return;
+  }
+
+  sendSuccess(res, { session: { ...record, status: sessionManager.getStatus(sessionId) } });
+}
+
+/**
+ * Create a registry record or update some of its fields
+ */
+export function updateRegistryEntry(req: Request, res: Response): void {
+  const { sessionId } = req.params;
+
+  const { update, error } = parseRecordUpdate(req.body);
+  if (!update) {
+    sendValidationError(res, error || 'Invalid request body');
+    return;
+  }
+
+  try {
+    const record = sessionRegistry.upsert(sessionId, update);
+    if (update.options?.retention) {
+      // retention changes apply to running sessions right away
+      sessionManager.applyRetention(sessionId);
+    }
+    sendSuccess(res, { session: { ...record, status: sessionManager.getStatus(sessionId) } });
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Failed to update session registry';
+    logger.error({ sessionId, error: errorMessage }, 'Error updating session registry');
+    sendError(res, errorMessage, 500);
+  }
+}
+
+/**
+ * Remove the registry record of a session that no longer exists
+ */
+export async function deleteRegistryEntry(req: Request, res: Response): Promise<void> {
+  const { sessionId } = req.params;
+
+  if (!sessionRegistry.has(sessionId)) {
+    sendSessionNotFound(res, sessionId);
+    return;
+  }
+
+  const storedSessionIds = await sessionManager.listStoredSessionIds();
+  if (sessionManager.hasSession(sessionId) || storedSessionIds.includes(sessionId)) {
+    sendError(
+      res,
+      `Session still exists: ${sessionId}. Use DELETE /session/terminate/${sessionId} to remove it`,
+      409,
+      'session_exists'
+    );
+    return;
+  }
+
+  try {
+    sessionRegistry.remove(sessionId);
+    sendSuccess(res, { message: 'Session removed from registry' });
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Failed to update session registry';
+    logger.error({ sessionId, error: errorMessage }, 'Error removing session from registry');
+    sendError(res, errorMessage, 500);
+  }
+}
+
+/**
+ * Get the persisted timeline of state transitions of a session
+ */
+export function getSessionHistory(req: Request, res: Response): void {
+  const { sessionId } = req.params;
+
+  if (!sessionHistory.has(sessionId) && !sessionRegistry.has(sessionId) && !sessionManager.hasSession(sessionId)) {
+    sendSessionNotFound(res, sessionId);
+    return;
+  }
+
+  const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    sendValidationError(res, 'limit must be a positive integer');
+    return;
+  }
+
+  try {
+    sendSuccess(res, {
+      sessionId,
+      status: sessionManager.getStatus(sessionId) ?? 'stopped',
+      history: sessionHistory.list(sessionId, limit),
+    });
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Failed to read session history';
+    logger.error({ sessionId, error: errorMessage }, 'Error reading session history');
+    sendError(res, errorMessage, 500);
+  }
+}
+
+/**
+ * Get runtime diagnostics of a running session (`?probe=true` also measures WhatsApp round-trip latency)
+ */
+export async function getDiagnostics(req: Request, res: Response): Promise<void> {
+  const { sessionId } = req.params;
+
+  try {
+    const diagnostics = await sessionDiagnosticsService.collect(sessionId, { probe: isTruthyParam(req.query.probe) });
+    if (!diagnostics) {
+      sendSessionNotFound(res, sessionId);
+      return;
+    }
+
+    sendSuccess(res, { diagnostics });
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Failed to collect session diagnostics';
+    logger.error({ sessionId, error: errorMessage }, 'Error collecting session diagnostics');
+    sendError(res, errorMessage, 500);
+  }
+}
+
 export default {
   startSession,
   stopSession,
@@ -243,7 +730,20 @@ export default {
   getSessions,
   getQr,
   getQrImage,
+  streamQr,
   requestPairingCode,
+  onboardSession,
+  getOnboarding,
   logoutSession,
   restartSession,
+  exportSession,
+  importSession,
+  listStoreSnapshots,
+  restoreStoreSnapshot,
+  listRegistry,
+  getRegistryEntry,
+  updateRegistryEntry,
+  deleteRegistryEntry,
+  getSessionHistory,
+  getDiagnostics,
 };
@@ -0,0 +1,470 @@
+import type { Request, Response } from 'express';
+import webhookQueue, { WebhookDeliveryError } from '../services/WebhookQueue';
+import webhookSubscriptions, { WEBHOOK_EVENT_TYPES, WebhookSubscriptionError } from '../services/WebhookSubscriptions';
+import logger from '../logger';
+import { toWwebjsJid } from '../utils/jidHelper';
+import { WEBHOOK_PAYLOAD_FORMATS } from '../utils/webhookFormats';
+import { sendSuccess, sendError, sendValidationError } from '../utils/responseHelper';
+import type {
+  WebhookDeadLetterFilter,
+  WebhookDeliveryFilter,
+  WebhookPayload,
+  WebhookPayloadFormat,
+  WebhookSubscriptionUpdate,
+} from '../types';
+
+const MAX_DELIVERY_LIMIT = 1000;
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item);
+}
+
+/**
+ * Parse a subscription create/update body; `url` is required when creating
+ */
+function parseSubscriptionInput(body: unknown, creating: boolean): { input?: WebhookSubscriptionUpdate; error?: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be an object' };
+  }
+
+  const data = body as Record<string, unknown>;
+  const input: WebhookSubscriptionUpdate = {};
+
+  if (data.url !== undefined || creating) {
+    let url: URL | null = null;
+    try {
+      url = typeof data.url === 'string' ? new URL(data.url) : null;
+    } catch {
+      url = null;
+    }
+    if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+      return { error: 'url must be an http(s) URL' };
+    }
+    input.url = data.url as string;
+  }
+
+  if (data.description !== undefined) {
+    if (data.description !== null && typeof data.description !== 'string') {
+      return { error: 'description must be a string or null' };
+    }
+    input.description = data.description;
+  }
+
+  if (data.enabled !== undefined) {
+    if (typeof data.enabled !== 'boolean') {
+      return { error: 'enabled must be a boolean' };
+    }
+    input.enabled = data.enabled;
+  }
+
+  if (data.sessions !== undefined) {
+    if (!isStringArray(data.sessions)) {
+      return { error: 'sessions must be an array of session ids or patterns' };
+    }
+    input.sessions = [...new Set(data.sessions)];
+  }
+
+  if (data.dataTypes !== undefined) {
+    if (!isStringArray(data.dataTypes)) {
+      return { error: 'dataTypes must be an array of event types' };
+    }
+    const unknownTypes = data.dataTypes.filter((type) => !(WEBHOOK_EVENT_TYPES as readonly string[]).includes(type));
+    if (unknownTypes.length > 0) {
+      return { error: `Unknown dataTypes: ${unknownTypes.join(', ')}` };
+    }
+    input.dataTypes = [...new Set(data.dataTypes)];
+  }
+
+  if (data.filters !== undefined) {
+    if (!data.filters || typeof data.filters !== 'object' || Array.isArray(data.filters)) {
+      return { error: 'filters must be an object' };
+    }
+
+    const filters = data.filters as Record<string, unknown>;
+    input.filters = {};
+
+    for (const field of ['chatAllowlist', 'chatDenylist', 'messageTypes'] as const) {
+      if (filters[field] === undefined) {
+        continue;
+      }
+      if (!isStringArray(filters[field])) {
+        return { error: `filters.${field} must be an array of strings` };
+      }
+      const values = filters[field] as string[];
+      input.filters[field] = [...new Set(field === 'messageTypes' ? values : values.map(toWwebjsJid))];
+    }
+
+    for (const field of ['groupsOnly', 'excludeFromMe'] as const) {
+      if (filters[field] === undefined) {
+        continue;
+      }
+      if (typeof filters[field] !== 'boolean') {
+        return { error: `filters.${field} must be a boolean` };
+      }
+      input.filters[field] = filters[field] as boolean;
+    }
+  }
+
+  if (data.format !== undefined) {
+    if (!WEBHOOK_PAYLOAD_FORMATS.includes(data.format as WebhookPayloadFormat)) {
+      return { error: `format must be one of: ${WEBHOOK_PAYLOAD_FORMATS.join(', ')}` };
+    }
+    input.format = data.format as WebhookPayloadFormat;
+  }
+
+  for (const field of ['secret', 'previousSecret'] as const) {
+    if (data[field] === undefined) {
+      continue;
+    }
+    if (data[field] !== null && (typeof data[field] !== 'string' || (data[field] as string).length < 16)) {
+      return { error: `${field} must be null or a string of at least 16 characters` };
+    }
+    input[field] = data[field] as string | null;
+  }
+
+  return { input };
+}
+
+function sendSubscriptionError(res: Response, error: unknown, fallback: string, subscriptionId?: string): void {
+  if (error instanceof WebhookSubscriptionError) {
+    sendError(res, error.message, error.statusCode, error.code);
+    return;
+  }
+
+  const errorMessage = error instanceof Error ? error.message : fallback;
+  logger.error({ subscriptionId, error: errorMessage }, fallback);
+  sendError(res, errorMessage, 500);
+}
+
+/**
+ * Parse the `{ ids?, sessionId?, subscriptionId? }` body selecting dead letters; an empty body selects all of them
+ */
+function parseDeadLetterFilter(body: unknown): { filter?: WebhookDeadLetterFilter; error?: string } {
+  if (body === undefined || body === null) {
+    return { filter: {} };
+  }
+
+  if (typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be an object' };
+  }
+
+  const { ids, sessionId, subscriptionId } = body as Record<string, unknown>;
+  const filter: WebhookDeadLetterFilter = {};
+
+  if (ids !== undefined) {
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === 'string' && id)) {
+      return { error: 'ids must be a non-empty array of dead letter ids' };
+    }
+    filter.ids = ids;
+  }
+
+  if (sessionId !== undefined) {
+    if (typeof sessionId !== 'string' || !sessionId) {
+      return { error: 'sessionId must be a non-empty string' };
+    }
+    if (filter.ids) {
+      return { error: 'Pass either ids or sessionId/subscriptionId, not both' };
+    }
+    filter.sessionId = sessionId;
+  }
+
+  if (subscriptionId !== undefined) {
+    if (typeof subscriptionId !== 'string' || !subscriptionId) {
+      return { error: 'subscriptionId must be a non-empty string' };
+    }
+    if (filter.ids) {
+      return { error: 'Pass either ids or sessionId/subscriptionId, not both' };
+    }
+    filter.subscriptionId = subscriptionId;
+  }
+
+  return { filter };
+}
+
+/**
+ * Get the depth of the webhook delivery queue, per endpoint
+ */
+export function getQueue(req: Request, res: Response): void {
+  try {
+    sendSuccess(res, webhookQueue.getStats());
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to read webhook queue';
+    logger.error({ error: errorMessage }, 'Error reading webhook queue');
+    sendError(res, errorMessage, 500);
+  }
+}
+
+/**
+ * List webhook events that were given up on (`?sessionId=` / `?subscriptionId=` narrow them down)
+ */
+export function listDeadLetters(req: Request, res: Response): void {
+  const sessionId = typeof req.query.sessionId === 'string' && req.query.sessionId ? req.query.sessionId : undefined;
+  const subscriptionId =
+    typeof req.query.subscriptionId === 'string' && req.query.subscriptionId ? req.query.subscriptionId : undefined;
+
+  const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    sendValidationError(res, 'limit must be a positive integer');
+    return;
+  }
+
+  try {
+    sendSuccess(res, { deadLetters: webhookQueue.listDeadLetters({ sessionId, subscriptionId, limit }) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list dead-lettered webhooks';
+    logger.error({ error: errorMessage }, 'Error listing dead-lettered webhooks');
+    sendError(res, errorMessage, 500);
+  }
+}
+
+/**
+ * Queue dead-lettered webhook events for delivery again
+ */
+export function redriveDeadLetters(req: Request, res: Response): void {
+  const { filter, error } = parseDeadLetterFilter(req.body);
+  if (!filter) {
+    sendValidationError(res, error!);
+    return;
+  }
+
+  try {
+    sendSuccess(res, { redriven: webhookQueue.redrive(filter) });
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Failed to re-drive dead-lettered webhooks';
+    logger.error({ error: errorMessage }, 'Error re-driving dead-lettered webhooks');
+    sendError(res, errorMessage, 500);
+  }
+}
+
+/**
+ * Delete dead-lettered webhook events
+ */
+export function deleteDeadLetters(req: Request, res: Response): void {
+  const { filter, error } = parseDeadLetterFilter(req.body);
+  if (!filter) {
+    sendValidationError(res, error!);
+    return;
+  }
+
+  try {
+    sendSuccess(res, { deleted: webhookQueue.purgeDeadLetters(filter) });
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Failed to delete dead-lettered webhooks';
+    logger.error({ error: errorMessage }, 'Error deleting dead-lettered webhooks');
+    sendError(res, errorMessage, 500);
+  }
+}
+
+/**
+ * List webhook subscriptions (secrets are not included)
+ */
+export function listSubscriptions(req: Request, res: Response): void {
+  try {
+    sendSuccess(res, { subscriptions: webhookSubscriptions.list().map((item) => webhookSubscriptions.toView(item)) });
+  } catch (error) {
+    sendSubscriptionError(res, error, 'Failed to list webhook subscriptions');
+  }
+}
+
+/**
+ * Get one webhook subscription
+ */
+export function getSubscription(req: Request, res: Response): void {
+  const { subscriptionId } = req.params;
+
+  const subscription = webhookSubscriptions.get(subscriptionId);
+  if (!subscription) {
+    sendError(res, `Webhook subscription not found: ${subscriptionId}`, 404, 'subscription_not_found');
+    return;
+  }
+
+  sendSuccess(res, { subscription: webhookSubscriptions.toView(subscription) });
+}
+
+/**
+ * Create a webhook subscription; the response is the only one that includes its signing secret
+ */
+export function createSubscription(req: Request, res: Response): void {
+  const { input, error } = parseSubscriptionInput(req.body, true);
+  if (!input) {
+    sendValidationError(res, error || 'Invalid request body');
+    return;
+  }
+
+  try {
+    const subscription = webhookSubscriptions.create({ ...input, url: input.url! });
+    sendSuccess(res, { subscription: webhookSubscriptions.toView(subscription), secret: subscription.secret });
+  } catch (err) {
+    sendSubscriptionError(res, err, 'Failed to create webhook subscription');
+  }
+}
+
+/**
+ * Update some fields of a webhook subscription
+ */
+export function updateSubscription(req: Request, res: Response): void {
+  const { subscriptionId } = req.params;
+
+  const { input, error } = parseSubscriptionInput(req.body, false);
+  if (!input) {
+    sendValidationError(res, error || 'Invalid request body');
+    return;
+  }
+
+  try {
+    const subscription = webhookSubscriptions.update(subscriptionId, input);
+    sendSuccess(res, { subscription: webhookSubscriptions.toView(subscription) });
+  } catch (err) {
+    sendSubscriptionError(res, err, 'Failed to update webhook subscription', subscriptionId);
+  }
+}
+
+/**
+ * Generate a new signing secret; the old one keeps signing deliveries until `previousSecret` is cleared
+ */
+export function rotateSubscriptionSecret(req: Request, res: Response): void {
+  const { subscriptionId } = req.params;
+
+  try {
+    const subscription = webhookSubscriptions.rotateSecret(subscriptionId);
+    sendSuccess(res, { subscription: webhookSubscriptions.toView(subscription), secret: subscription.secret });
+  } catch (err) {
+    sendSubscriptionError(res, err, 'Failed to rotate webhook subscription secret', subscriptionId);
+  }
+}
+
+/**
+ * Delete a webhook subscription together with its queued and dead-lettered events
+ */
+export function deleteSubscription(req: Request, res: Response): void {
+  const { subscriptionId } = req.params;
+
+  try {
+    webhookSubscriptions.remove(subscriptionId);
+    const dropped = webhookQueue.purgeSubscription(subscriptionId);
+    sendSuccess(res, { message: 'Webhook subscription deleted', droppedEvents: dropped });
+  } catch (err) {
+    sendSubscriptionError(res, err, 'Failed to delete webhook subscription', subscriptionId);
+  }
+}
+
+/**
+ * Post a synthetic event to a subscription right away and return the receiver's answer. The body may
+ * override the `sessionId`, `dataType` and `data` of the event to mimic a real one.
+ */
+export async function sendTestEvent(req: Request, res: Response): Promise<void> {
+  const { subscriptionId } = req.params;
+  const body = (req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : {}) as Record<string, unknown>;
+
+  const subscription = webhookSubscriptions.get(subscriptionId);
+  if (!subscription) {
+    sendError(res, `Webhook subscription not found: ${subscriptionId}`, 404, 'subscription_not_found');
+    return;
+  }
+
+  for (const field of ['sessionId', 'dataType'] as const) {
+    if (body[field] !== undefined && (typeof body[field] !== 'string' || !body[field])) {
+      sendValidationError(res, `${field} must be a non-empty string`);
+      return;
+    }
+  }
+
+  const payload: WebhookPayload = {
+    sessionId: (body.sessionId as string | undefined) ?? 'test',
+    dataType: (body.dataType as string | undefined) ?? 'test',
+    data: body.data ?? { message: 'Test event', subscriptionId, sentAt: new Date().toISOString() },
+  };
+
+  try {
+    const result = await webhookQueue.sendTest(subscription, payload);
+    sendSuccess(res, { subscriptionId, url: subscription.url, ...result });
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Failed to send test event';
+    logger.error({ subscriptionId, error: errorMessage }, 'Error sending webhook test event');
+    sendError(res, errorMessage, 500);
+  }
+}
+
+/**
+ * List logged webhook delivery attempts, most recent first
+ */
+export function listDeliveries(req: Request, res: Response): void {
+  const filter: WebhookDeliveryFilter = {};
+
+  for (const field of ['subscriptionId', 'sessionId', 'eventId', 'dataType'] as const) {
+    const value = req.query[field];
+    if (typeof value === 'string' && value) {
+      filter[field] = value;
+    }
+  }
+
+  if (req.query.success !== undefined) {
+    if (req.query.success !== 'true' && req.query.success !== 'false') {
+      sendValidationError(res, 'success must be true or false');
+      return;
+    }
+    filter.success = req.query.success === 'true';
+  }
+
+  if (req.query.since !== undefined) {
+    const since = typeof req.query.since === 'string' ? Date.parse(req.query.since) : NaN;
+    if (Number.isNaN(since)) {
+      sendValidationError(res, 'since must be an ISO 8601 date');
+      return;
+    }
+    filter.since = since;
+  }
+
+  if (req.query.limit !== undefined) {
+    const limit = Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERY_LIMIT) {
+      sendValidationError(res, `limit must be an integer between 1 and ${MAX_DELIVERY_LIMIT}`);
+      return;
+    }
+    filter.limit = limit;
+  }
+
+  try {
+    sendSuccess(res, { deliveries: webhookQueue.listDeliveries(filter) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list webhook deliveries';
+    logger.error({ error: errorMessage }, 'Error listing webhook deliveries');
+    sendError(res, errorMessage, 500);
+  }
+}
+
+/**
+ * Queue the event of a logged delivery attempt again
+ */
+export function replayDelivery(req: Request, res: Response): void {
+  const { id } = req.params;
+
+  try {
+    sendSuccess(res, { message: 'Webhook event queued again', ...webhookQueue.replay(id) });
+  } catch (error) {
+    if (error instanceof WebhookDeliveryError) {
+      sendError(res, error.message, error.statusCode, error.code);
+      return;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Failed to replay webhook delivery';
+    logger.error({ id, error: errorMessage }, 'Error replaying webhook delivery');
+    sendError(res, errorMessage, 500);
+  }
+}
+
+export default {
+  listSubscriptions,
+  getSubscription,
+  createSubscription,
+  updateSubscription,
+  rotateSubscriptionSecret,
+  deleteSubscription,
+  sendTestEvent,
+  listDeliveries,
+  replayDelivery,
+  getQueue,
+  listDeadLetters,
+  redriveDeadLetters,
+  deleteDeadLetters,
+};
@@ -8,6 +8,14 @@ const sessionIdParam = {
 
 const security = [{ ApiKeyAuth: [] }];
 
+const archivePasswordHeader = {
+  name: 'x-archive-password',
+  in: 'header',
+  required: false,
+  description: 'Password used to encrypt (export) or decrypt (import) the session archive.',
+  schema: { type: 'string' },
+};
+
 const defaultErrorResponse = {
   description: 'Error response',
   content: {
@@ -73,6 +81,37 @@ function sessionPostOperation(input: {
   };
 }
 
+function bulkSessionOperation(summary: string, description: string) {
+  return {
+    tags: ['Session'],
+    summary,
+    description: `${description} Responds with the finished job (200) or, if it takes longer than \`BULK_WAIT_TIMEOUT\`, with the running job to poll (202).`,
+    security,
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/BulkSessionRequest' },
+        },
+      },
+    },
+    responses: {
+      200: successResponse('Bulk job finished', '#/components/schemas/BulkJobResponse'),
+      202: successResponse('Bulk job still running', '#/components/schemas/BulkJobResponse'),
+      400: defaultErrorResponse,
+      401: defaultErrorResponse,
+      404: defaultErrorResponse,
+    },
+  };
+}
+
+const jobIdParam = {
+  name: 'jobId',
+  in: 'path',
+  required: true,
+  schema: { type: 'string', format: 'uuid' },
+};
+
 const postRoutes: Array<{
   path: string;
   summary: string;
@@ -89,6 +128,22 @@ const postRoutes: Array<{
     bodyRef: '#/components/schemas/PairingCodeRequest',
     responseDescription: 'Pairing code requested',
   },
+  {
+    path: '/session/start/{sessionId}',
+    summary: 'Start session with options',
+    tag: 'Session',
+    bodyRef: '#/components/schemas/SessionOptions',
+    description: 'Same as `GET /session/start/{sessionId}`, with the socket options as a JSON body.',
+    responseDescription: 'Session started',
+  },
+  {
+    path: '/session/registry/{sessionId}',
+    summary: 'Create or update session registry record',
+    tag: 'Session',
+    bodyRef: '#/components/schemas/SessionRecordUpdate',
+    description: 'Creates the record if it does not exist. Only the fields present in the body are changed.',
+    responseDescription: 'Registry record saved',
+  },
 
   // Client
   {
@@ -512,6 +567,24 @@ const postRoutes: Array<{
     tag: 'Message',
     bodyRef: '#/components/schemas/EditMessageRequest',
   },
+  {
+    path: '/message/getEditHistory/{sessionId}',
+    summary: 'Get message edit history',
+    tag: 'Message',
+    bodyRef: '#/components/schemas/MessageLookupRequest',
+    description:
+      'Previous versions of an edited message, oldest first, each with `body`, `type`, `timestamp` (when the version was sent or set) and `editedAt` (when it was replaced). The current content is the stored message itself. Returns 404 when the message is not in the store.',
+    responseDescription: 'Edit history (`edits`)',
+  },
+  {
+    path: '/message/getPollVotes/{sessionId}',
+    summary: 'Get poll votes',
+    tag: 'Message',
+    bodyRef: '#/components/schemas/MessageLookupRequest',
+    description:
+      'Options of a poll with the number of votes and the voters of each (`PollVotes` schema), from the votes decrypted so far. Votes need the poll in the store: votes on polls the store does not have are reported by `vote_update` events with `undecryptable: true` and not counted. Returns 404 when the message is not a stored poll.',
+    responseDescription: 'Poll tallies (`poll`)',
+  },
   {
     path: '/message/pin/{sessionId}',
     summary: 'Pin message in chat',
@@ -538,12 +611,56 @@ const paths: Record<string, any> = {
     },
   },
 
+  '/ready': {
+    get: {
+      tags: ['System'],
+      summary: 'Readiness check',
+      description:
+        'Answers `200` once the server accepts requests and `503` while it is starting or draining for shutdown; while draining, `drain` reports the work still in flight.',
+      security,
+      responses: {
+        200: successResponse('Server is ready', '#/components/schemas/ServerReadiness'),
+        503: {
+          description: 'Server is starting or shutting down',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ServerReadiness' },
+            },
+          },
+        },
+      },
+    },
+  },
+
   '/session/start/{sessionId}': {
     get: {
       tags: ['Session'],
       summary: 'Start session',
+      description:
+        'Socket options can be given as query parameters (or as a JSON body with `POST`). They are stored in the session registry and reused on every restart and reconnect; omitted options keep their stored value.',
       security,
-      parameters: [sessionIdParam],
+      parameters: [
+        sessionIdParam,
+        {
+          name: 'historySync',
+          in: 'query',
+          required: false,
+          schema: { type: 'string', enum: ['full', 'recent', 'none'] },
+        },
+        { name: 'markOnlineOnConnect', in: 'query', required: false, schema: { type: 'boolean' } },
+        { name: 'browserName', in: 'query', required: false, schema: { type: 'string' } },
+        {
+          name: 'browserPlatform',
+          in: 'query',
+          required: false,
+          schema: { type: 'string', enum: ['ubuntu', 'macOS', 'windows', 'baileys', 'appropriate'] },
+        },
+        { name: 'linkPreview', in: 'query', required: false, schema: { type: 'string', enum: ['high', 'standard'] } },
+        { name: 'retentionMaxMessagesPerChat', in: 'query', required: false, schema: { type: 'integer', minimum: 0 } },
+        { name: 'retentionMaxAgeDays', in: 'query', required: false, schema: { type: 'integer', minimum: 0 } },
+        { name: 'retentionMaxMessagesPerSession', in: 'query', required: false, schema: { type: 'integer', minimum: 0 } },
+        { name: 'retentionMediaMaxAgeDays', in: 'query', required: false, schema: { type: 'integer', minimum: 0 } },
+      ],
       responses: {
         200: successResponse('Session started'),
         400: defaultErrorResponse,
@@ -574,7 +691,7 @@ const paths: Record<string, any> = {
       security,
       parameters: [sessionIdParam],
       responses: {
-        200: successResponse('Session status fetched'),
+        200: successResponse('Session status fetched', '#/components/schemas/SessionStatus'),
         404: defaultErrorResponse,
       },
     },
@@ -596,7 +713,9 @@ const paths: Record<string, any> = {
   '/session/getSessions': {
     get: {
       tags: ['Session'],
-      summary: 'List active sessions',
+      summary: 'List known sessions',
+      description:
+        'Lists every registered session, every session with persisted auth state in the configured backend and every running session, with its registry metadata. Sessions that are not running have a `null` status.',
       security,
       responses: {
         200: successResponse('Sessions listed'),
@@ -640,6 +759,32 @@ const paths: Record<string, any> = {
     },
   },
 
+  '/session/qr/{sessionId}/stream': {
+    get: {
+      tags: ['Session'],
+      summary: 'Stream QR codes, pairing codes and the login outcome (Server-Sent Events)',
+      description:
+        'Events: `state` ({status, reason}), `qr` ({qr, png data URL, svg, expiresAt}), `countdown` ({secondsRemaining}, every second while a QR is shown), `pairing_code` ({code}) and a final `outcome` ({status}: `connected`, `logged_out`, `failed`, `stopped` or `hibernated`) after which the stream is closed. The API key can also be passed as `?apiKey=` since EventSource cannot send headers.',
+      security,
+      parameters: [
+        sessionIdParam,
+        { name: 'apiKey', in: 'query', required: false, schema: { type: 'string' } },
+      ],
+      responses: {
+        200: {
+          description: 'Event stream',
+          content: {
+            'text/event-stream': {
+              schema: { type: 'string' },
+            },
+          },
+        },
+        401: defaultErrorResponse,
+        404: defaultErrorResponse,
+      },
+    },
+  },
+
   '/session/logout/{sessionId}': {
     get: {
       tags: ['Session'],
@@ -667,450 +812,2213 @@ const paths: Record<string, any> = {
     },
   },
 
-  '/ws': {
+  '/session/onboard/{sessionId}': {
+    post: {
+      tags: ['Session'],
+      summary: 'Link a session with a pairing code in one call',
+      description:
+        'Validates and normalises the phone number, (re)starts the session, requests the pairing code once the socket is ready and answers with it. When the code expires before it is entered a new one is requested (up to `PAIRING_CODE_MAX_ATTEMPTS`); follow new codes and the result on `GET /session/qr/{sessionId}/stream` or `GET /session/onboard/{sessionId}`.',
+      security,
+      parameters: [sessionIdParam],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/OnboardingRequest' },
+          },
+        },
+      },
+      responses: {
+        200: successResponse('Pairing code issued', '#/components/schemas/OnboardingResponse'),
+        400: defaultErrorResponse,
+        409: defaultErrorResponse,
+        500: defaultErrorResponse,
+        504: defaultErrorResponse,
+      },
+    },
     get: {
-      tags: ['Events'],
-      summary: 'WebSocket event stream',
+      tags: ['Session'],
+      summary: 'Get the progress of a pairing code onboarding',
+      security,
+      parameters: [sessionIdParam],
+      responses: {
+        200: successResponse('Onboarding fetched', '#/components/schemas/OnboardingResponse'),
+        404: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/session/diagnostics/{sessionId}': {
+    get: {
+      tags: ['Session'],
+      summary: 'Get runtime diagnostics of a running session',
       description:
-        'Upgrade to WebSocket on this path to receive all realtime Baileys events. Use `?sessionId=<id>` to filter by session and `?apiKey=<API_KEY>` (or header `x-api-key`) when API key auth is enabled. This endpoint is available only when `ENABLE_WEBSOCKET=true`.',
+        'Socket uptime, last inbound/outbound message times, reconnects, last disconnect, store sizes, pending store persist, event bus and webhook backlog and an approximate memory footprint.',
+      security,
       parameters: [
+        sessionIdParam,
         {
-          name: 'sessionId',
+          name: 'probe',
           in: 'query',
           required: false,
-          schema: { type: 'string' },
-          description: 'Optional: stream only this session.',
+          description: 'Also send a ping query to WhatsApp and report the round-trip latency.',
+          schema: { type: 'boolean', default: false },
         },
+      ],
+      responses: {
+        200: successResponse('Session diagnostics collected', '#/components/schemas/SessionDiagnosticsResponse'),
+        404: defaultErrorResponse,
+        500: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/session/history/{sessionId}': {
+    get: {
+      tags: ['Session'],
+      summary: 'Get the timeline of session state transitions',
+      security,
+      parameters: [
+        sessionIdParam,
         {
-          name: 'apiKey',
+          name: 'limit',
           in: 'query',
           required: false,
-          schema: { type: 'string' },
-          description: 'Optional API key if not sent in header.',
+          description: 'Return only the most recent transitions (at most SESSION_HISTORY_LIMIT).',
+          schema: { type: 'integer', minimum: 1 },
         },
       ],
       responses: {
-        101: {
-          description: 'WebSocket upgrade successful',
-        },
+        200: successResponse('Session history fetched', '#/components/schemas/SessionHistory'),
+        400: defaultErrorResponse,
+        404: defaultErrorResponse,
+        500: defaultErrorResponse,
       },
     },
   },
-};
-
-for (const route of postRoutes) {
-  paths[route.path] = {
-    ...(paths[route.path] || {}),
-    post: sessionPostOperation(route),
-  };
-}
 
-export const openApiSpec = {
-  openapi: '3.1.0',
-  info: {
-    title: 'Baileys REST API Server',
-    version: '1.0.0',
-    description:
-      'REST wrapper for Baileys WhatsApp Web socket. Supports multi-session auth, messaging, chats, contacts, groups, message actions, outbound webhooks, and websocket event streaming.',
-  },
-  servers: [
-    {
-      url: '/',
-      description: 'Current server',
-    },
-  ],
-  tags: [
-    { name: 'System' },
-    { name: 'Session' },
-    { name: 'Client' },
-    { name: 'Chat' },
-    { name: 'Contact' },
-    { name: 'Group' },
-    { name: 'Message' },
-    { name: 'Events' },
-  ],
-  security: security,
-  paths,
-  webhooks: {
-    whatsappEvent: {
-      post: {
-        tags: ['Events'],
-        summary: 'Outbound webhook payload sent by this server',
-        description:
-          'This is the payload shape delivered to `BASE_WEBHOOK_URL` for each enabled event. Delivery occurs only when `ENABLE_WEBHOOK=true`.',
-        requestBody: {
-          required: true,
+  '/session/registry': {
+    get: {
+      tags: ['Session'],
+      summary: 'List session registry records',
+      security,
+      parameters: [
+        {
+          name: 'tag',
+          in: 'query',
+          required: false,
+          schema: { type: 'string' },
+          description: 'Only return sessions with this tag.',
+        },
+        {
+          name: 'owner',
+          in: 'query',
+          required: false,
+          schema: { type: 'string' },
+          description: 'Only return sessions with this owner.',
+        },
+      ],
+      responses: {
+        200: {
+          description: 'Registry records',
           content: {
             'application/json': {
-              schema: { $ref: '#/components/schemas/WebhookEventPayload' },
+              schema: {
+                type: 'object',
+                properties: {
+                  success: { type: 'boolean' },
+                  sessions: { type: 'array', items: { $ref: '#/components/schemas/SessionRecord' } },
+                },
+              },
             },
           },
         },
-        responses: {
-          200: {
-            description: 'Your webhook endpoint acknowledged the event',
-          },
-        },
       },
     },
   },
-  components: {
-    securitySchemes: {
-      ApiKeyAuth: {
-        type: 'apiKey',
-        in: 'header',
-        name: 'x-api-key',
+
+  '/session/registry/{sessionId}': {
+    get: {
+      tags: ['Session'],
+      summary: 'Get session registry record',
+      security,
+      parameters: [sessionIdParam],
+      responses: {
+        200: successResponse('Registry record fetched'),
+        404: defaultErrorResponse,
       },
     },
-    schemas: {
-      SuccessEnvelope: {
-        type: 'object',
-        properties: {
-          success: { type: 'boolean', example: true },
-        },
-        required: ['success'],
+    delete: {
+      tags: ['Session'],
+      summary: 'Delete session registry record',
+      description: 'Only allowed for sessions that are neither running nor have stored auth state; use `DELETE /session/terminate/{sessionId}` otherwise.',
+      security,
+      parameters: [sessionIdParam],
+      responses: {
+        200: successResponse('Registry record deleted'),
+        404: defaultErrorResponse,
+        409: defaultErrorResponse,
       },
-      ErrorResponse: {
-        type: 'object',
-        properties: {
-          success: { type: 'boolean', example: false },
-          error: { type: 'string', example: 'chatId is required' },
-          message: { type: 'string', example: 'validation_error' },
+    },
+  },
+
+  '/session/export/{sessionId}': {
+    get: {
+      tags: ['Session'],
+      summary: 'Export session archive',
+      description:
+        'Streams a gzip archive with the session auth state (creds and signal keys) and its message store. Send `x-archive-password` to encrypt it with AES-256-GCM; the same password is then required to import it.',
+      security,
+      parameters: [sessionIdParam, archivePasswordHeader],
+      responses: {
+        200: {
+          description: 'Session archive',
+          content: {
+            'application/octet-stream': {
+              schema: {
+                type: 'string',
+                format: 'binary',
+              },
+            },
+          },
         },
-        required: ['success', 'error'],
+        404: defaultErrorResponse,
+        500: defaultErrorResponse,
       },
-      EmptyRequest: {
-        type: 'object',
+    },
+  },
+
+  '/session/import/{sessionId}': {
+    post: {
+      tags: ['Session'],
+      summary: 'Import session archive',
+      description:
+        'Restores an archive produced by `GET /session/export/{sessionId}` as this session. The archive is fully validated before anything is written. Importing over a running session is refused with 409 unless `force=true`, in which case the session is stopped first.',
+      security,
+      parameters: [
+        sessionIdParam,
+        archivePasswordHeader,
+        {
+          name: 'force',
+          in: 'query',
+          required: false,
+          schema: { type: 'boolean', default: false },
+          description: 'Stop and overwrite the session if it is running.',
+        },
+        {
+          name: 'start',
+          in: 'query',
+          required: false,
+          schema: { type: 'boolean', default: false },
+          description: 'Start the session once it has been imported.',
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/octet-stream': {
+            schema: {
+              type: 'string',
+              format: 'binary',
+            },
+          },
+        },
+      },
+      responses: {
+        200: successResponse('Session imported'),
+        400: defaultErrorResponse,
+        409: defaultErrorResponse,
+        500: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/session/store/snapshots/{sessionId}': {
+    get: {
+      tags: ['Session'],
+      summary: 'List store snapshots',
+      description:
+        'Rotating snapshots of the session store (`STORE_SNAPSHOT_COUNT`, taken every `STORE_SNAPSHOT_INTERVAL` while the session runs), newest first.',
+      security,
+      parameters: [sessionIdParam],
+      responses: {
+        200: successResponse('Snapshots listed', '#/components/schemas/StoreSnapshotList'),
+        404: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/session/store/restore/{sessionId}': {
+    post: {
+      tags: ['Session'],
+      summary: 'Restore store from a snapshot',
+      description:
+        'Replaces the session store with a snapshot after verifying it. Restoring a running session is refused with 409 unless `force=true`, in which case the session is stopped, restored and started again.',
+      security,
+      parameters: [
+        sessionIdParam,
+        {
+          name: 'force',
+          in: 'query',
+          required: false,
+          schema: { type: 'boolean', default: false },
+          description: 'Stop, restore and restart the session if it is running.',
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/StoreSnapshotRestoreRequest' },
+          },
+        },
+      },
+      responses: {
+        200: successResponse('Store restored', '#/components/schemas/StoreSnapshotRestoreResponse'),
+        400: defaultErrorResponse,
+        404: defaultErrorResponse,
+        409: defaultErrorResponse,
+        422: defaultErrorResponse,
+        500: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/sessions/bulk/start': {
+    post: {
+      ...bulkSessionOperation(
+        'Start sessions in bulk',
+        'Starts every selected session. Ids that are not registered are rejected with 404 instead of creating new sessions.'
+      ),
+    },
+  },
+
+  '/sessions/bulk/stop': {
+    post: {
+      ...bulkSessionOperation('Stop sessions in bulk', 'Stops every selected session, keeping its auth state.'),
+    },
+  },
+
+  '/sessions/bulk/restart': {
+    post: {
+      ...bulkSessionOperation('Restart sessions in bulk', 'Stops and starts every selected session.'),
+    },
+  },
+
+  '/sessions/bulk/terminate': {
+    post: {
+      ...bulkSessionOperation('Terminate sessions in bulk', 'Terminates every selected session and deletes its auth state.'),
+    },
+  },
+
+  '/sessions/bulk/jobs': {
+    get: {
+      tags: ['Session'],
+      summary: 'List recent bulk jobs',
+      security,
+      responses: {
+        200: successResponse('Bulk jobs listed'),
+      },
+    },
+  },
+
+  '/sessions/bulk/jobs/{jobId}': {
+    get: {
+      tags: ['Session'],
+      summary: 'Get a bulk job with its per-session results',
+      security,
+      parameters: [jobIdParam],
+      responses: {
+        200: successResponse('Bulk job fetched', '#/components/schemas/BulkJobResponse'),
+        404: defaultErrorResponse,
+      },
+    },
+    delete: {
+      tags: ['Session'],
+      summary: 'Cancel a running bulk job',
+      description: 'Operations already in progress finish; sessions not processed yet are reported as `skipped`.',
+      security,
+      parameters: [jobIdParam],
+      responses: {
+        200: successResponse('Bulk job cancelled', '#/components/schemas/BulkJobResponse'),
+        404: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/webhooks/subscriptions': {
+    get: {
+      tags: ['Webhooks'],
+      summary: 'List webhook subscriptions',
+      description: 'All subscriptions, including the built-in `default` one configured by `BASE_WEBHOOK_URL`. Signing secrets are not included.',
+      security,
+      responses: {
+        200: successResponse('Webhook subscriptions', '#/components/schemas/WebhookSubscriptionList'),
+        500: defaultErrorResponse,
+      },
+    },
+    post: {
+      tags: ['Webhooks'],
+      summary: 'Create webhook subscription',
+      description:
+        'Every event matching the session selector, `dataTypes` and `filters` is queued for the subscription independently of other subscriptions. Without `secret` a signing secret is generated; it is returned in this response only. Pass `secret: null` to deliver unsigned.',
+      security,
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/WebhookSubscriptionInput' },
+          },
+        },
+      },
+      responses: {
+        200: successResponse('Subscription created', '#/components/schemas/WebhookSubscriptionSecretResponse'),
+        400: defaultErrorResponse,
+        500: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/webhooks/subscriptions/{subscriptionId}': {
+    get: {
+      tags: ['Webhooks'],
+      summary: 'Get webhook subscription',
+      security,
+      parameters: [
+        {
+          name: 'subscriptionId',
+          in: 'path',
+          required: true,
+          schema: { type: 'string' },
+          description: 'Subscription id (`default` is the subscription configured by `BASE_WEBHOOK_URL`).',
+        },
+      ],
+      responses: {
+        200: successResponse('Webhook subscription', '#/components/schemas/WebhookSubscriptionResponse'),
+        404: defaultErrorResponse,
+      },
+    },
+    post: {
+      tags: ['Webhooks'],
+      summary: 'Update webhook subscription',
+      description:
+        'Updates the given fields; `filters` fields not given keep their value. Set `previousSecret: null` to end a secret rotation. The `default` subscription is read-only (`409`).',
+      security,
+      parameters: [
+        {
+          name: 'subscriptionId',
+          in: 'path',
+          required: true,
+          schema: { type: 'string' },
+          description: 'Subscription id (`default` is the subscription configured by `BASE_WEBHOOK_URL`).',
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/WebhookSubscriptionInput' },
+          },
+        },
+      },
+      responses: {
+        200: successResponse('Subscription updated', '#/components/schemas/WebhookSubscriptionResponse'),
+        400: defaultErrorResponse,
+        404: defaultErrorResponse,
+        409: defaultErrorResponse,
+        500: defaultErrorResponse,
+      },
+    },
+    delete: {
+      tags: ['Webhooks'],
+      summary: 'Delete webhook subscription',
+      description: 'Deletes the subscription together with its queued and dead-lettered events.',
+      security,
+      parameters: [
+        {
+          name: 'subscriptionId',
+          in: 'path',
+          required: true,
+          schema: { type: 'string' },
+          description: 'Subscription id (`default` is the subscription configured by `BASE_WEBHOOK_URL`).',
+        },
+      ],
+      responses: {
+        200: successResponse('Subscription deleted'),
+        404: defaultErrorResponse,
+        409: defaultErrorResponse,
+        500: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/webhooks/subscriptions/{subscriptionId}/rotate-secret': {
+    post: {
+      tags: ['Webhooks'],
+      summary: 'Rotate webhook subscription secret',
+      description:
+        'Generates a new signing secret (returned in this response only). The old secret becomes `previousSecret` and deliveries carry a signature for both until it is cleared with `previousSecret: null`.',
+      security,
+      parameters: [
+        {
+          name: 'subscriptionId',
+          in: 'path',
+          required: true,
+          schema: { type: 'string' },
+          description: 'Subscription id (`default` is the subscription configured by `BASE_WEBHOOK_URL`).',
+        },
+      ],
+      responses: {
+        200: successResponse('New signing secret', '#/components/schemas/WebhookSubscriptionSecretResponse'),
+        404: defaultErrorResponse,
+        409: defaultErrorResponse,
+        500: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/webhooks/subscriptions/{subscriptionId}/test': {
+    post: {
+      tags: ['Webhooks'],
+      summary: 'Send test event',
+      description:
+        'Posts a synthetic, signed event to the subscription right away (bypassing the queue and its filters) and returns the receiver\'s answer. The attempt is recorded in the delivery log.',
+      security,
+      parameters: [
+        {
+          name: 'subscriptionId',
+          in: 'path',
+          required: true,
+          schema: { type: 'string' },
+          description: 'Subscription id (`default` is the subscription configured by `BASE_WEBHOOK_URL`).',
+        },
+      ],
+      requestBody: {
+        required: false,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/WebhookTestEventRequest' },
+          },
+        },
+      },
+      responses: {
+        200: successResponse('Receiver answer (also when it answered with an error)', '#/components/schemas/WebhookTestEventResponse'),
+        400: defaultErrorResponse,
+        404: defaultErrorResponse,
+        500: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/webhooks/deliveries': {
+    get: {
+      tags: ['Webhooks'],
+      summary: 'List webhook delivery attempts',
+      description:
+        'Every attempt to post an event, most recent first, kept for `WEBHOOK_LOG_RETENTION_DAYS` and at most `WEBHOOK_LOG_MAX_ENTRIES` entries.',
+      security,
+      parameters: [
+        {
+          name: 'subscriptionId',
+          in: 'query',
+          required: false,
+          description: 'Only attempts for this subscription.',
+          schema: { type: 'string' },
+        },
+        {
+          name: 'sessionId',
+          in: 'query',
+          required: false,
+          description: 'Only events of this session.',
+          schema: { type: 'string' },
+        },
+        {
+          name: 'eventId',
+          in: 'query',
+          required: false,
+          description: 'Only attempts of this event (`x-webhook-id`).',
+          schema: { type: 'string' },
+        },
+        {
+          name: 'dataType',
+          in: 'query',
+          required: false,
+          description: 'Only events of this type.',
+          schema: { type: 'string' },
+        },
+        {
+          name: 'success',
+          in: 'query',
+          required: false,
+          description: 'Only successful (`true`) or failed (`false`) attempts.',
+          schema: { type: 'boolean' },
+        },
+        {
+          name: 'since',
+          in: 'query',
+          required: false,
+          description: 'Only attempts at or after this time.',
+          schema: { type: 'string', format: 'date-time' },
+        },
+        {
+          name: 'limit',
+          in: 'query',
+          required: false,
+          description: 'Maximum number of attempts to return (default 100).',
+          schema: { type: 'integer', minimum: 1, maximum: 1000 },
+        },
+      ],
+      responses: {
+        200: successResponse('Delivery attempts', '#/components/schemas/WebhookDeliveryList'),
+        400: defaultErrorResponse,
+        500: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/webhooks/deliveries/{id}/replay': {
+    post: {
+      tags: ['Webhooks'],
+      summary: 'Replay webhook delivery',
+      description:
+        'Queues the event of a logged attempt again for its subscription, as a new event (new `x-webhook-id`) behind the events already queued.',
+      security,
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'string', format: 'uuid' },
+          description: 'Delivery attempt id from `GET /webhooks/deliveries`.',
+        },
+      ],
+      responses: {
+        200: successResponse('Event queued again', '#/components/schemas/WebhookReplayResponse'),
+        404: defaultErrorResponse,
+        409: defaultErrorResponse,
+        500: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/webhooks/queue': {
+    get: {
+      tags: ['Webhooks'],
+      summary: 'Get webhook queue depth',
+      description:
+        'Events waiting for delivery and dead-lettered events, per subscription. Events are delivered to each subscription one at a time, in order; the event at the head of a subscription is retried with exponential backoff and holds back the ones behind it, but not the events of other subscriptions.',
+      security,
+      responses: {
+        200: successResponse('Webhook queue depth', '#/components/schemas/WebhookQueueStats'),
+        500: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/webhooks/dead-letters': {
+    get: {
+      tags: ['Webhooks'],
+      summary: 'List dead-lettered webhooks',
+      description:
+        'Events given up on after `WEBHOOK_MAX_ATTEMPTS` failed attempts, or rejected by the endpoint with a 4xx status (other than 408, 425 and 429), most recent first.',
+      security,
+      parameters: [
+        {
+          name: 'sessionId',
+          in: 'query',
+          required: false,
+          description: 'Only dead letters of this session.',
+          schema: { type: 'string' },
+        },
+        {
+          name: 'subscriptionId',
+          in: 'query',
+          required: false,
+          description: 'Only dead letters of this subscription.',
+          schema: { type: 'string' },
+        },
+        {
+          name: 'limit',
+          in: 'query',
+          required: false,
+          description: 'Maximum number of dead letters to return (default 100).',
+          schema: { type: 'integer', minimum: 1 },
+        },
+      ],
+      responses: {
+        200: successResponse('Dead-lettered webhooks', '#/components/schemas/WebhookDeadLetterList'),
+        400: defaultErrorResponse,
+        500: defaultErrorResponse,
+      },
+    },
+    delete: {
+      tags: ['Webhooks'],
+      summary: 'Delete dead-lettered webhooks',
+      description: 'Deletes the selected dead letters; without a body every dead letter is deleted.',
+      security,
+      requestBody: {
+        required: false,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/WebhookDeadLetterFilter' },
+          },
+        },
+      },
+      responses: {
+        200: successResponse('Number of dead letters deleted'),
+        400: defaultErrorResponse,
+        500: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/webhooks/dead-letters/redrive': {
+    post: {
+      tags: ['Webhooks'],
+      summary: 'Re-drive dead-lettered webhooks',
+      description:
+        'Queues the selected dead letters for delivery again with a fresh attempt budget; without a body every dead letter is re-driven. Re-driven events keep their original place in their subscription\'s order.',
+      security,
+      requestBody: {
+        required: false,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/WebhookDeadLetterFilter' },
+          },
+        },
+      },
+      responses: {
+        200: successResponse('Number of dead letters queued again'),
+        400: defaultErrorResponse,
+        500: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/maintenance/encryption/rotate': {
+    post: {
+      tags: ['Maintenance'],
+      summary: 'Rotate encryption key',
+      description:
+        'Re-encrypts the auth state and store of every stored session with the current `ENCRYPTION_KEY`. Data encrypted with a key listed in `ENCRYPTION_PREVIOUS_KEYS` (or still in plaintext) is rewritten; running sessions are stopped while they are rewritten and started again afterwards.',
+      security,
+      responses: {
+        200: successResponse('Sessions re-encrypted'),
+        400: defaultErrorResponse,
+        409: defaultErrorResponse,
+        500: defaultErrorResponse,
+      },
+    },
+  },
+
+  '/events/stats': {
+    get: {
+      tags: ['Events'],
+      summary: 'Get event bus metrics',
+      description:
+        'Backlog, throughput and per-sink latency of the internal event bus that hands Baileys events to the webhook queue and websocket clients. Events of a chat reach the sinks in order; chats and sessions are dispatched in parallel (`EVENT_BUS_CONCURRENCY`). Once `EVENT_BUS_MAX_PENDING` events are waiting, event handlers wait for the backlog to drain (`throttled`).',
+      security,
+      responses: {
+        200: successResponse('Event bus metrics', '#/components/schemas/EventBusStats'),
+      },
+    },
+  },
+
+  '/ws': {
+    get: {
+      tags: ['Events'],
+      summary: 'WebSocket event stream',
+      description:
+        'Upgrade to WebSocket on this path to receive all realtime Baileys events. Use `?sessionId=<id>` to filter by session and `?apiKey=<API_KEY>` (or header `x-api-key`) when API key auth is enabled. This endpoint is available only when `ENABLE_WEBSOCKET=true`.',
+      parameters: [
+        {
+          name: 'sessionId',
+          in: 'query',
+          required: false,
+          schema: { type: 'string' },
+          description: 'Optional: stream only this session.',
+        },
+        {
+          name: 'apiKey',
+          in: 'query',
+          required: false,
+          schema: { type: 'string' },
+          description: 'Optional API key if not sent in header.',
+        },
+      ],
+      responses: {
+        101: {
+          description: 'WebSocket upgrade successful',
+        },
+      },
+    },
+  },
+};
+
+for (const route of postRoutes) {
+  paths[route.path] = {
+    ...(paths[route.path] || {}),
+    post: sessionPostOperation(route),
+  };
+}
+
+const webhookSignatureHeaders = [
+  {
+    name: 'x-webhook-id',
+    in: 'header',
+    required: true,
+    description: 'Event id, unchanged across retries of the same event; use it to drop duplicates.',
+    schema: { type: 'string', format: 'uuid' },
+  },
+  {
+    name: 'x-webhook-timestamp',
+    in: 'header',
+    required: true,
+    description: 'Unix time (seconds) this delivery attempt was signed.',
+    schema: { type: 'integer', example: 1735806600 },
+  },
+  {
+    name: 'x-webhook-signature',
+    in: 'header',
+    required: false,
+    description: 'Comma separated `v1=<hex>` signatures, one per active secret (absent for subscriptions without a secret).',
+    schema: {
+      type: 'string',
+      example: 'v1=5257a869e7ecebeda32affa62cdca3fa51cad7e77a0e56ff536d0ce8e108d8bd',
+    },
+  },
+];
+
+// Data schema of each event type in the v2 and CloudEvents payload formats
+const webhookV2DataSchemas: Record<string, string> = {
+  qr: 'WebhookV2DataQr',
+  ready: 'WebhookV2DataReady',
+  authenticated: 'WebhookV2DataEmpty',
+  auth_failure: 'WebhookV2DataAuthFailure',
+  disconnected: 'WebhookV2DataDisconnected',
+  message: 'WebhookMessageV2',
+  message_create: 'WebhookMessageV2',
+  message_ack: 'WebhookV2DataMessageAck',
+  message_revoke_everyone: 'WebhookV2DataMessageRevoke',
+  message_revoke_me: 'WebhookMessageV2',
+  message_edit: 'WebhookV2DataMessageEdit',
+  message_reaction: 'WebhookV2DataMessageReaction',
+  vote_update: 'WebhookV2DataVoteUpdate',
+  group_join: 'WebhookV2DataGroupParticipants',
+  group_leave: 'WebhookV2DataGroupParticipants',
+  group_update: 'WebhookV2DataGroupUpdate',
+  call: 'WebhookV2DataCall',
+  change_state: 'WebhookV2DataChangeState',
+  loading_screen: 'WebhookV2DataLoadingScreen',
+  contact_changed: 'WebhookV2DataContactChanged',
+  chat_removed: 'WebhookV2DataChat',
+  chat_archived: 'WebhookV2DataChatArchived',
+  unread_count: 'WebhookV2DataUnreadCount',
+  media_uploaded: 'WebhookMessageV2',
+  remote_session_saved: 'WebhookV2DataEmpty',
+};
+
+// `message_ack` -> `WebhookEventV2MessageAck`
+function webhookV2EventSchemaName(type: string): string {
+  return `WebhookEventV2${type.replace(/(^|_)(\w)/g, (_, __, char: string) => char.toUpperCase())}`;
+}
+
+// v2 envelope of one event type, with its `type` and `data` pinned
+function webhookV2EventSchemas(): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(webhookV2DataSchemas).map(([type, dataSchema]) => [
+      webhookV2EventSchemaName(type),
+      {
+        allOf: [
+          { $ref: '#/components/schemas/WebhookEventV2Envelope' },
+          {
+            type: 'object',
+            properties: {
+              type: { const: type },
+              data: { $ref: `#/components/schemas/${dataSchema}` },
+            },
+          },
+        ],
+      },
+    ])
+  );
+}
+
+export const openApiSpec = {
+  openapi: '3.1.0',
+  info: {
+    title: 'Baileys REST API Server',
+    version: '1.0.0',
+    description:
+      'REST wrapper for Baileys WhatsApp Web socket. Supports multi-session auth, messaging, chats, contacts, groups, message actions, outbound webhooks, and websocket event streaming.',
+  },
+  servers: [
+    {
+      url: '/',
+      description: 'Current server',
+    },
+  ],
+  tags: [
+    { name: 'System' },
+    { name: 'Session' },
+    { name: 'Client' },
+    { name: 'Chat' },
+    { name: 'Contact' },
+    { name: 'Group' },
+    { name: 'Message' },
+    { name: 'Events' },
+    { name: 'Webhooks' },
+    { name: 'Maintenance' },
+  ],
+  security: security,
+  paths,
+  webhooks: {
+    whatsappEvent: {
+      post: {
+        tags: ['Events'],
+        summary: 'Outbound webhook payload sent by this server',
+        description:
+          'This is the payload shape delivered to `BASE_WEBHOOK_URL` and to every webhook subscription for each matching event, in the default `wwebjs` payload format (see `whatsappEventV2` and `whatsappCloudEvent` for the other formats). Delivery occurs only when `ENABLE_WEBHOOK=true`. Answer with a 2xx status to acknowledge the event; anything else is retried with exponential backoff until `WEBHOOK_MAX_ATTEMPTS` (a 4xx other than 408, 425 and 429 dead-letters the event right away).\n\n' +
+          'Deliveries of a subscription with a secret (`WEBHOOK_SECRET` for `BASE_WEBHOOK_URL`) are signed: `x-webhook-signature` holds `v1=<hex HMAC-SHA256>` of `<x-webhook-timestamp>.<x-webhook-id>.<raw request body>` keyed with the secret. While a previous secret is set (`WEBHOOK_PREVIOUS_SECRET`, or after rotating a subscription\'s secret) a second `v1=` entry signed with it is appended (comma separated), so receivers can switch secrets without dropping events. Verify against the raw body before parsing it, compare in constant time, and reject timestamps more than a few minutes old. `verifyWebhookSignature` in `src/utils/webhookSignature.ts` implements these checks. The server API key is never sent to the webhook endpoint.',
+        parameters: webhookSignatureHeaders,
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/WebhookEventPayload' },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Your webhook endpoint acknowledged the event',
+          },
+        },
+      },
+    },
+    whatsappEventV2: {
+      post: {
+        tags: ['Events'],
+        summary: 'Outbound webhook payload in the `v2` format',
+        description:
+          'Delivered to subscriptions with `format: v2` (`WEBHOOK_FORMAT=v2` for `BASE_WEBHOOK_URL`). A versioned envelope whose `data` has a documented schema per event type, with raw Baileys objects left out. `id` equals the `x-webhook-id` header. Delivery, retries and signatures work as for `whatsappEvent`.',
+        parameters: webhookSignatureHeaders,
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/WebhookEventV2' },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Your webhook endpoint acknowledged the event',
+          },
+        },
+      },
+    },
+    whatsappCloudEvent: {
+      post: {
+        tags: ['Events'],
+        summary: 'Outbound webhook payload as a CloudEvent',
+        description:
+          'Delivered to subscriptions with `format: cloudevents` as a structured-mode CloudEvent 1.0 (`application/cloudevents+json`). `type` is `baileys.<event type>`, `source` is `/sessions/<sessionId>`, `subject` is the chat the event is about (when there is one) and `data` is the v2 data of the event type.\n\n' +
+          'With `format: cloudevents-binary` the same attributes are sent as `ce-*` headers (`ce-specversion`, `ce-id`, `ce-source`, `ce-type`, `ce-time`, `ce-subject`, `ce-sessionid`) and the body is `data` alone, as `application/json`. Signatures cover the body that is sent, as for `whatsappEvent`.',
+        parameters: webhookSignatureHeaders,
+        requestBody: {
+          required: true,
+          content: {
+            'application/cloudevents+json': {
+              schema: { $ref: '#/components/schemas/WebhookCloudEvent' },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Your webhook endpoint acknowledged the event',
+          },
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      ApiKeyAuth: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'x-api-key',
+      },
+    },
+    schemas: {
+      SuccessEnvelope: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean', example: true },
+        },
+        required: ['success'],
+      },
+      ErrorResponse: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean', example: false },
+          error: { type: 'string', example: 'chatId is required' },
+          message: { type: 'string', example: 'validation_error' },
+        },
+        required: ['success', 'error'],
+      },
+      EmptyRequest: {
+        type: 'object',
         additionalProperties: false,
       },
-      MediaContent: {
+      MediaContent: {
+        type: 'object',
+        properties: {
+          mimetype: { type: 'string', example: 'image/png' },
+          data: {
+            type: 'string',
+            description: 'Base64-encoded media payload.',
+          },
+          filename: { type: 'string', example: 'photo.png' },
+        },
+        required: ['mimetype', 'data'],
+      },
+      SendMessageRequest: {
+        type: 'object',
+        properties: {
+          chatId: { type: 'string', example: '14155551234@c.us' },
+          contentType: {
+            type: 'string',
+            enum: ['string', 'MessageMedia', 'MessageMediaFromURL', 'Location', 'Poll', 'Contact', 'Buttons', 'List'],
+          },
+          content: {
+            oneOf: [
+              { type: 'string' },
+              { $ref: '#/components/schemas/MediaContent' },
+              {
+                type: 'object',
+                properties: {
+                  latitude: { type: 'number' },
+                  longitude: { type: 'number' },
+                  description: { type: 'string' },
+                },
+                required: ['latitude', 'longitude'],
+              },
+              {
+                type: 'object',
+                properties: {
+                  pollName: { type: 'string' },
+                  pollOptions: {
+                    type: 'array',
+                    items: { type: 'string' },
+                  },
+                },
+                required: ['pollName', 'pollOptions'],
+              },
+            ],
+          },
+          options: {
+            type: 'object',
+            properties: {
+              quotedMessageId: { type: 'string' },
+              mentions: {
+                type: 'array',
+                items: { type: 'string' },
+              },
+              caption: { type: 'string' },
+              sendAudioAsVoice: { type: 'boolean' },
+              sendVideoAsGif: { type: 'boolean' },
+              linkPreview: { type: 'boolean' },
+            },
+          },
+        },
+        required: ['chatId', 'contentType', 'content'],
+      },
+      ChatIdRequest: {
+        type: 'object',
+        properties: {
+          chatId: { type: 'string', example: '14155551234@c.us' },
+        },
+        required: ['chatId'],
+      },
+      FetchMessagesRequest: {
+        type: 'object',
+        properties: {
+          chatId: { type: 'string', example: '14155551234@c.us' },
+          limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 },
+          before: {
+            type: 'string',
+            description: 'Fetch older messages before this message id.',
+          },
+        },
+        required: ['chatId'],
+      },
+      ContactIdRequest: {
+        type: 'object',
+        properties: {
+          contactId: { type: 'string', example: '14155551234@c.us' },
+        },
+        required: ['contactId'],
+      },
+      GroupIdRequest: {
+        type: 'object',
+        properties: {
+          groupId: { type: 'string', example: '120363123456789012@g.us' },
+        },
+        required: ['groupId'],
+      },
+      GroupParticipantsRequest: {
+        type: 'object',
+        properties: {
+          groupId: { type: 'string', example: '120363123456789012@g.us' },
+          participants: {
+            type: 'array',
+            items: { type: 'string', example: '14155551234@c.us' },
+          },
+        },
+        required: ['groupId', 'participants'],
+      },
+      SetGroupSubjectRequest: {
+        type: 'object',
+        properties: {
+          groupId: { type: 'string' },
+          subject: { type: 'string' },
+        },
+        required: ['groupId', 'subject'],
+      },
+      SetGroupDescriptionRequest: {
+        type: 'object',
+        properties: {
+          groupId: { type: 'string' },
+          description: { type: 'string' },
+        },
+        required: ['groupId'],
+      },
+      SetGroupAdminsOnlyRequest: {
+        type: 'object',
+        properties: {
+          groupId: { type: 'string' },
+          adminsOnly: { type: 'boolean' },
+        },
+        required: ['groupId', 'adminsOnly'],
+      },
+      InviteCodeRequest: {
+        type: 'object',
+        properties: {
+          inviteCode: { type: 'string' },
+        },
+        required: ['inviteCode'],
+      },
+      SetGroupPictureRequest: {
+        type: 'object',
+        properties: {
+          groupId: { type: 'string' },
+          image: {
+            oneOf: [
+              { type: 'string', description: 'Base64 image string.' },
+              {
+                type: 'object',
+                properties: {
+                  data: { type: 'string' },
+                },
+                required: ['data'],
+              },
+            ],
+          },
+        },
+        required: ['groupId', 'image'],
+      },
+      MessageLookupRequest: {
+        type: 'object',
+        properties: {
+          chatId: { type: 'string' },
+          messageId: { type: 'string' },
+        },
+        required: ['chatId', 'messageId'],
+      },
+      ReactMessageRequest: {
+        type: 'object',
+        properties: {
+          chatId: { type: 'string' },
+          messageId: { type: 'string' },
+          emoji: { type: 'string', example: '👍' },
+        },
+        required: ['chatId', 'messageId', 'emoji'],
+      },
+      StarMessageRequest: {
+        type: 'object',
+        properties: {
+          chatId: { type: 'string' },
+          messageId: { type: 'string' },
+          star: { type: 'boolean' },
+        },
+        required: ['chatId', 'messageId', 'star'],
+      },
+      DeleteMessageRequest: {
+        type: 'object',
+        properties: {
+          chatId: { type: 'string' },
+          messageId: { type: 'string' },
+          forEveryone: { type: 'boolean', default: false },
+        },
+        required: ['chatId', 'messageId'],
+      },
+      ForwardMessageRequest: {
+        type: 'object',
+        properties: {
+          chatId: { type: 'string' },
+          messageId: { type: 'string' },
+          targetChatId: { type: 'string' },
+        },
+        required: ['chatId', 'messageId', 'targetChatId'],
+      },
+      DownloadMediaRequest: {
+        type: 'object',
+        properties: {
+          chatId: { type: 'string' },
+          messageId: { type: 'string' },
+          messageData: {
+            type: 'object',
+            description: 'Optional raw Baileys message object to download directly.',
+            additionalProperties: true,
+          },
+        },
+      },
+      GetMentionsRequest: {
+        type: 'object',
+        properties: {
+          chatId: { type: 'string' },
+          messageId: { type: 'string' },
+          messageData: {
+            type: 'object',
+            additionalProperties: true,
+          },
+        },
+      },
+      EditMessageRequest: {
+        type: 'object',
+        properties: {
+          chatId: { type: 'string' },
+          messageId: { type: 'string' },
+          newContent: { type: 'string' },
+        },
+        required: ['chatId', 'messageId', 'newContent'],
+      },
+      PinMessageRequest: {
+        type: 'object',
+        properties: {
+          chatId: { type: 'string' },
+          messageId: { type: 'string' },
+          duration: {
+            type: 'integer',
+            description: 'Allowed values: 86400 (1 day), 604800 (7 days), 2592000 (30 days).',
+            example: 604800,
+          },
+        },
+        required: ['chatId', 'messageId'],
+      },
+      SessionRecord: {
+        type: 'object',
+        properties: {
+          sessionId: { type: 'string' },
+          displayName: { type: 'string', nullable: true },
+          tags: { type: 'array', items: { type: 'string' } },
+          owner: { type: 'string', nullable: true },
+          phoneNumber: { type: 'string', nullable: true },
+          metadata: { type: 'object', additionalProperties: true },
+          autostart: { type: 'boolean' },
+          options: { $ref: '#/components/schemas/SessionOptions' },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' },
+          lastConnectedAt: { type: 'string', format: 'date-time', nullable: true },
+          status: {
+            allOf: [{ $ref: '#/components/schemas/SessionState' }],
+            nullable: true,
+            description: '`null` when the session has not been started since the server started.',
+          },
+        },
+      },
+      SessionRecordUpdate: {
+        type: 'object',
+        properties: {
+          displayName: { type: 'string', nullable: true },
+          tags: { type: 'array', items: { type: 'string' } },
+          owner: { type: 'string', nullable: true },
+          phoneNumber: { type: 'string', nullable: true },
+          metadata: { type: 'object', additionalProperties: true },
+          autostart: { type: 'boolean', description: 'Start this session on boot when AUTO_START_SESSIONS is enabled.' },
+          options: { $ref: '#/components/schemas/SessionOptions' },
+        },
+      },
+      SessionStatus: {
+        type: 'object',
+        properties: {
+          state: { type: 'string', example: 'CONNECTED', description: 'wwebjs-compatible state name.' },
+          status: { $ref: '#/components/schemas/SessionState' },
+          reconnect: { $ref: '#/components/schemas/ReconnectState' },
+          retention: { $ref: '#/components/schemas/RetentionStatus' },
+        },
+      },
+      BulkSessionRequest: {
+        type: 'object',
+        description:
+          'Select sessions by id, by registry tag, by state, or all registered sessions; when several selectors are given the union is used.',
+        properties: {
+          sessionIds: { type: 'array', items: { type: 'string' }, example: ['bot-1', 'bot-2'] },
+          tag: { type: 'string', example: 'eu' },
+          status: {
+            oneOf: [
+              { $ref: '#/components/schemas/SessionState' },
+              { type: 'array', items: { $ref: '#/components/schemas/SessionState' } },
+            ],
+            description: 'Registered sessions currently in one of these states; sessions not started since the server came up count as `stopped`.',
+            example: ['qr', 'failed', 'logged_out'],
+          },
+          all: { type: 'boolean', enum: [true], description: 'Every registered session' },
+        },
+      },
+      BulkJobResponse: {
+        type: 'object',
+        properties: {
+          job: { $ref: '#/components/schemas/BulkJob' },
+        },
+      },
+      BulkJob: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          action: { type: 'string', enum: ['start', 'stop', 'restart', 'terminate'] },
+          status: { type: 'string', enum: ['running', 'completed', 'cancelled'] },
+          total: { type: 'integer' },
+          done: { type: 'integer' },
+          createdAt: { type: 'string', format: 'date-time' },
+          finishedAt: { type: 'string', format: 'date-time', nullable: true },
+          results: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                sessionId: { type: 'string' },
+                status: { type: 'string', enum: ['pending', 'ok', 'error', 'skipped'] },
+                error: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+      SessionDiagnosticsResponse: {
         type: 'object',
         properties: {
-          mimetype: { type: 'string', example: 'image/png' },
-          data: {
+          diagnostics: { $ref: '#/components/schemas/SessionDiagnostics' },
+        },
+      },
+      SessionDiagnostics: {
+        type: 'object',
+        properties: {
+          sessionId: { type: 'string' },
+          status: { $ref: '#/components/schemas/SessionState' },
+          socket: {
+            type: 'object',
+            properties: {
+              websocketOpen: { type: 'boolean' },
+              startedAt: { type: 'string', format: 'date-time' },
+              connectedAt: { type: 'string', format: 'date-time', nullable: true },
+              uptimeSeconds: { type: 'integer', nullable: true },
+            },
+          },
+          messages: {
+            type: 'object',
+            properties: {
+              lastInboundAt: { type: 'string', format: 'date-time', nullable: true },
+              lastOutboundAt: { type: 'string', format: 'date-time', nullable: true },
+            },
+          },
+          reconnect: { $ref: '#/components/schemas/ReconnectState' },
+          reconnects: {
+            type: 'object',
+            description: 'Transitions to `reconnecting` in the retained session history.',
+            properties: {
+              total: { type: 'integer' },
+              last24h: { type: 'integer' },
+            },
+          },
+          lastDisconnect: {
+            type: 'object',
+            nullable: true,
+            properties: {
+              at: { type: 'string', format: 'date-time' },
+              reason: { type: 'string', nullable: true },
+              statusCode: { type: 'integer', nullable: true },
+            },
+          },
+          store: {
+            type: 'object',
+            properties: {
+              backend: { type: 'string', enum: ['sqlite', 'memory'] },
+              chats: { type: 'integer' },
+              contacts: { type: 'integer' },
+              groups: { type: 'integer' },
+              labels: { type: 'integer' },
+              messages: { type: 'integer' },
+              largestChats: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    chatId: { type: 'string' },
+                    messages: { type: 'integer' },
+                  },
+                },
+              },
+              sizeBytes: { type: 'integer', description: 'Database file size (sqlite) or serialized store size (memory).' },
+              messageKeyIndex: { type: 'integer' },
+              pendingPersist: { type: 'boolean' },
+            },
+          },
+          events: {
+            type: 'object',
+            properties: {
+              pending: { type: 'integer', description: 'Events of the session still on the event bus.' },
+            },
+          },
+          webhooks: {
+            type: 'object',
+            properties: {
+              backlog: { type: 'integer', description: 'Deliveries still waiting for the webhook endpoint to answer.' },
+            },
+          },
+          memory: {
+            type: 'object',
+            properties: {
+              processRssBytes: { type: 'integer' },
+              processHeapUsedBytes: { type: 'integer' },
+              approximateSessionBytes: { type: 'integer' },
+            },
+          },
+          probe: {
+            type: 'object',
+            description: 'Only present with `probe=true`.',
+            properties: {
+              ok: { type: 'boolean' },
+              latencyMs: { type: 'integer', nullable: true },
+              error: { type: 'string' },
+            },
+          },
+        },
+      },
+      SessionState: {
+        type: 'string',
+        enum: [
+          'stopped',
+          'connecting',
+          'qr',
+          'pairing',
+          'connected',
+          'reconnecting',
+          'stopping',
+          'logged_out',
+          'failed',
+          'hibernated',
+        ],
+        description:
+          '`reconnecting`: connection lost and a retry is scheduled, `logged_out`: unlinked from the phone, `failed`: the reconnect policy gave up, `hibernated`: socket closed after being idle, woken up by the next API call.',
+      },
+      SessionHistory: {
+        type: 'object',
+        properties: {
+          sessionId: { type: 'string' },
+          status: { $ref: '#/components/schemas/SessionState' },
+          history: { type: 'array', items: { $ref: '#/components/schemas/SessionHistoryEntry' } },
+        },
+      },
+      SessionHistoryEntry: {
+        type: 'object',
+        properties: {
+          at: { type: 'string', format: 'date-time' },
+          from: { $ref: '#/components/schemas/SessionState' },
+          to: { $ref: '#/components/schemas/SessionState' },
+          reason: { type: 'string', nullable: true, example: 'timedOut' },
+          statusCode: { type: 'integer', nullable: true, example: 408 },
+        },
+      },
+      ServerReadiness: {
+        type: 'object',
+        properties: {
+          ready: { type: 'boolean' },
+          phase: { type: 'string', enum: ['starting', 'ready', 'draining', 'stopped'] },
+          drain: {
+            type: 'object',
+            nullable: true,
+            properties: {
+              startedAt: { type: 'string', format: 'date-time' },
+              deadline: { type: 'string', format: 'date-time' },
+              inFlightRequests: { type: 'integer' },
+              pendingWebhooks: { type: 'integer' },
+              pendingEvents: { type: 'integer', description: 'Events not handed to the webhook queue and websocket clients yet' },
+              sessions: { type: 'integer', description: 'Sessions not stopped yet' },
+            },
+          },
+        },
+      },
+      StoreSnapshot: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', example: 'store.sqlite.20250102T083000123Z' },
+          file: { type: 'string', enum: ['store.sqlite', 'store.json'] },
+          createdAt: { type: 'string', format: 'date-time' },
+          sizeBytes: { type: 'integer' },
+        },
+      },
+      StoreSnapshotList: {
+        type: 'object',
+        properties: {
+          sessionId: { type: 'string' },
+          snapshots: { type: 'array', items: { $ref: '#/components/schemas/StoreSnapshot' } },
+        },
+      },
+      StoreSnapshotRestoreRequest: {
+        type: 'object',
+        properties: {
+          snapshotId: { type: 'string', example: 'store.sqlite.20250102T083000123Z' },
+        },
+        required: ['snapshotId'],
+      },
+      StoreSnapshotRestoreResponse: {
+        type: 'object',
+        properties: {
+          message: { type: 'string' },
+          snapshot: { $ref: '#/components/schemas/StoreSnapshot' },
+          restarted: { type: 'boolean', description: 'Whether the session was running and has been started again.' },
+        },
+      },
+      RetentionPolicy: {
+        type: 'object',
+        description:
+          'Limits on stored messages. Missing limits fall back to the `RETENTION_*` env defaults; `null` (or 0) disables a limit.',
+        properties: {
+          maxMessagesPerChat: { type: 'integer', nullable: true, minimum: 1 },
+          maxAgeDays: { type: 'integer', nullable: true, minimum: 1 },
+          maxMessagesPerSession: { type: 'integer', nullable: true, minimum: 1 },
+          mediaMaxAgeDays: {
+            type: 'integer',
+            nullable: true,
+            minimum: 1,
+            description: 'Remove image, video, audio, document and sticker messages after this many days.',
+          },
+        },
+      },
+      RetentionStatus: {
+        type: 'object',
+        nullable: true,
+        description: 'Effective retention policy and store usage; null when the session is not running.',
+        properties: {
+          policy: { $ref: '#/components/schemas/RetentionPolicy' },
+          usage: {
+            type: 'object',
+            properties: {
+              messages: { type: 'integer' },
+              chats: { type: 'integer' },
+              oldestMessageAt: { type: 'string', format: 'date-time', nullable: true },
+              messageKeyIndex: { type: 'integer', description: 'Entries in the in-memory message ID index.' },
+              pruned: { type: 'integer', description: 'Messages removed by retention since the session started.' },
+              lastPrunedAt: { type: 'string', format: 'date-time', nullable: true },
+            },
+          },
+        },
+      },
+      ReconnectState: {
+        type: 'object',
+        nullable: true,
+        description: 'Reconnect policy state, `null` when the session has not disconnected since it was started.',
+        properties: {
+          mode: { type: 'string', enum: ['idle', 'backoff', 'cooldown', 'stopped'] },
+          attempt: { type: 'integer', description: 'Failed reconnect attempts since the last successful connection.' },
+          lastReason: { type: 'string', nullable: true, example: 'timedOut' },
+          lastStatusCode: { type: 'integer', nullable: true, example: 408 },
+          lastDisconnectAt: { type: 'string', format: 'date-time', nullable: true },
+          nextRetryAt: { type: 'string', format: 'date-time', nullable: true },
+        },
+      },
+      SessionOptions: {
+        type: 'object',
+        properties: {
+          historySync: {
             type: 'string',
-            description: 'Base64-encoded media payload.',
+            enum: ['full', 'recent', 'none'],
+            default: 'full',
+            description: '`full` syncs the whole history, `recent` only what WhatsApp sends by default, `none` disables history sync.',
           },
-          filename: { type: 'string', example: 'photo.png' },
+          markOnlineOnConnect: { type: 'boolean', default: true },
+          browser: {
+            type: 'object',
+            nullable: true,
+            description: 'Device shown in Linked Devices. `null` keeps the Baileys default.',
+            properties: {
+              platform: {
+                type: 'string',
+                enum: ['ubuntu', 'macOS', 'windows', 'baileys', 'appropriate'],
+                default: 'ubuntu',
+              },
+              name: { type: 'string', example: 'Support Inbox' },
+            },
+            required: ['name'],
+          },
+          linkPreview: { type: 'string', enum: ['high', 'standard'], default: 'high' },
+          retention: { $ref: '#/components/schemas/RetentionPolicy' },
         },
-        required: ['mimetype', 'data'],
       },
-      SendMessageRequest: {
+      PairingCodeRequest: {
         type: 'object',
         properties: {
-          chatId: { type: 'string', example: '14155551234@c.us' },
-          contentType: {
+          phoneNumber: {
             type: 'string',
-            enum: ['string', 'MessageMedia', 'MessageMediaFromURL', 'Location', 'Poll', 'Contact', 'Buttons', 'List'],
+            description: 'International format including the country code; spaces, dashes, dots, parentheses and a leading + or 00 are accepted.',
+            example: '+1 (415) 555-1234',
+          },
+        },
+        required: ['phoneNumber'],
+      },
+      OnboardingRequest: {
+        type: 'object',
+        properties: {
+          phoneNumber: {
+            type: 'string',
+            description: 'International format including the country code; spaces, dashes, dots, parentheses and a leading + or 00 are accepted.',
+            example: '+1 (415) 555-1234',
+          },
+          options: { $ref: '#/components/schemas/SessionOptions' },
+        },
+        required: ['phoneNumber'],
+      },
+      OnboardingResponse: {
+        type: 'object',
+        properties: {
+          onboarding: { $ref: '#/components/schemas/PairingOnboarding' },
+          streamUrl: { type: 'string', example: '/session/qr/bot-1/stream' },
+        },
+      },
+      PairingOnboarding: {
+        type: 'object',
+        properties: {
+          sessionId: { type: 'string' },
+          phoneNumber: { type: 'string', example: '14155551234' },
+          status: { type: 'string', enum: ['waiting_code', 'code_issued', 'connected', 'failed'] },
+          code: { type: 'string', nullable: true, example: 'ABCD1234' },
+          attempts: { type: 'integer' },
+          maxAttempts: { type: 'integer' },
+          startedAt: { type: 'string', format: 'date-time' },
+          codeIssuedAt: { type: 'string', format: 'date-time', nullable: true },
+          finishedAt: { type: 'string', format: 'date-time', nullable: true },
+          error: { type: 'string', nullable: true },
+        },
+      },
+      CreateGroupRequest: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          participants: {
+            type: 'array',
+            items: { type: 'string' },
+          },
+        },
+        required: ['name', 'participants'],
+      },
+      SetStatusRequest: {
+        type: 'object',
+        properties: {
+          status: { type: 'string' },
+        },
+        required: ['status'],
+      },
+      SetDisplayNameRequest: {
+        type: 'object',
+        properties: {
+          displayName: { type: 'string' },
+        },
+        required: ['displayName'],
+      },
+      NumberRequest: {
+        type: 'object',
+        properties: {
+          number: {
+            type: 'string',
+            description: 'Phone number with or without country code, digits preferred.',
+          },
+        },
+        required: ['number'],
+      },
+      SendPresenceUpdateRequest: {
+        type: 'object',
+        properties: {
+          presence: {
+            type: 'string',
+            enum: ['available', 'unavailable', 'composing', 'recording', 'paused'],
+          },
+        },
+        required: ['presence'],
+      },
+      MuteChatRequest: {
+        type: 'object',
+        properties: {
+          chatId: { type: 'string' },
+          duration: {
+            type: 'integer',
+            description: 'Mute duration in seconds.',
+            default: 28800,
+          },
+        },
+        required: ['chatId'],
+      },
+      WebhookEventPayload: {
+        type: 'object',
+        properties: {
+          sessionId: { type: 'string' },
+          dataType: {
+            type: 'string',
+            description:
+              'Event type. Examples: qr, ready, authenticated, disconnected, message, message_create, message_ack, message_revoke_everyone, message_revoke_me, message_edit, message_reaction, vote_update, group_join, group_leave, group_update, call, chat_archived, chat_removed, unread_count.',
+          },
+          data: {
+            type: 'object',
+            additionalProperties: true,
+          },
+        },
+        required: ['sessionId', 'dataType', 'data'],
+      },
+      WebhookMessageV2: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Serialized id, accepted wherever the API takes a message id.',
+            example: 'false_15551234567@c.us_3EB0C767D26A1D8E5F7B',
+          },
+          messageId: { type: 'string', example: '3EB0C767D26A1D8E5F7B' },
+          chatId: { type: 'string', example: '15551234567@c.us' },
+          from: { type: 'string' },
+          to: { type: 'string' },
+          author: { type: ['string', 'null'], description: 'Sender in group chats.' },
+          fromMe: { type: 'boolean' },
+          type: { type: 'string', example: 'chat' },
+          body: { type: 'string' },
+          timestamp: { type: 'integer', description: 'Unix time in seconds.' },
+          hasMedia: { type: 'boolean' },
+          hasQuotedMsg: { type: 'boolean' },
+          isForwarded: { type: 'boolean' },
+          forwardingScore: { type: 'integer' },
+          isStatus: { type: 'boolean' },
+          mentionedIds: { type: 'array', items: { type: 'string' } },
+          ack: { type: 'integer', description: '-1 error, 0 pending, 1 server, 2 device, 3 read, 4 played.' },
+          isRevoked: { type: 'boolean', description: 'Deleted for everyone; the original content is kept.' },
+          isEdited: { type: 'boolean', description: 'Edited at least once; `body` is the current content.' },
+        },
+        required: ['id', 'messageId', 'chatId', 'from', 'to', 'author', 'fromMe', 'type', 'body', 'timestamp', 'ack', 'isRevoked', 'isEdited'],
+      },
+      WebhookV2MessageRef: {
+        type: ['object', 'null'],
+        description: 'Message an event refers to.',
+        properties: {
+          id: { type: 'string' },
+          messageId: { type: 'string' },
+          chatId: { type: 'string' },
+          fromMe: { type: 'boolean' },
+        },
+        required: ['id', 'messageId', 'chatId', 'fromMe'],
+      },
+      WebhookV2DataEmpty: {
+        type: 'object',
+        additionalProperties: false,
+      },
+      WebhookV2DataQr: {
+        type: 'object',
+        properties: {
+          qr: { type: 'string', description: 'QR code content to render.' },
+        },
+        required: ['qr'],
+      },
+      WebhookV2DataReady: {
+        type: 'object',
+        properties: {
+          id: { type: ['string', 'null'], example: '15551234567@c.us' },
+          pushname: { type: ['string', 'null'] },
+        },
+        required: ['id', 'pushname'],
+      },
+      WebhookV2DataAuthFailure: {
+        type: 'object',
+        properties: {
+          message: { type: 'string' },
+        },
+        required: ['message'],
+      },
+      WebhookV2DataDisconnected: {
+        type: 'object',
+        properties: {
+          reason: { type: 'string' },
+        },
+      },
+      WebhookV2DataMessageAck: {
+        type: 'object',
+        properties: {
+          message: { $ref: '#/components/schemas/WebhookV2MessageRef' },
+          ack: { type: 'integer' },
+        },
+        required: ['message', 'ack'],
+      },
+      WebhookV2DataMessageRevoke: {
+        type: 'object',
+        properties: {
+          message: {
+            oneOf: [{ $ref: '#/components/schemas/WebhookMessageV2' }, { type: 'null' }],
+            description: 'The revoke notification (type `revoked`), sent by whoever deleted the message.',
           },
-          content: {
-            oneOf: [
-              { type: 'string' },
-              { $ref: '#/components/schemas/MediaContent' },
-              {
-                type: 'object',
-                properties: {
-                  latitude: { type: 'number' },
-                  longitude: { type: 'number' },
-                  description: { type: 'string' },
-                },
-                required: ['latitude', 'longitude'],
-              },
-              {
-                type: 'object',
-                properties: {
-                  pollName: { type: 'string' },
-                  pollOptions: {
-                    type: 'array',
-                    items: { type: 'string' },
-                  },
-                },
-                required: ['pollName', 'pollOptions'],
-              },
-            ],
+          revokedMessage: {
+            oneOf: [{ $ref: '#/components/schemas/WebhookMessageV2' }, { type: 'null' }],
+            description: 'The deleted message with its original content, when it is in the store.',
           },
+        },
+        required: ['message', 'revokedMessage'],
+      },
+      PollVotes: {
+        type: 'object',
+        properties: {
+          pollId: { type: 'string', example: 'true_15551234567@c.us_3EB0C767D26A1D8E5F7B' },
+          name: { type: 'string' },
+          selectableCount: { type: 'integer', description: 'Options a voter may select, 1 for single choice polls.' },
           options: {
-            type: 'object',
-            properties: {
-              quotedMessageId: { type: 'string' },
-              mentions: {
-                type: 'array',
-                items: { type: 'string' },
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                localId: { type: 'integer', description: 'Position of the option in the poll.' },
+                votes: { type: 'integer' },
+                voters: { type: 'array', items: { type: 'string' } },
               },
-              caption: { type: 'string' },
-              sendAudioAsVoice: { type: 'boolean' },
-              sendVideoAsGif: { type: 'boolean' },
-              linkPreview: { type: 'boolean' },
+              required: ['name', 'localId', 'votes', 'voters'],
             },
           },
+          totalVoters: { type: 'integer' },
         },
-        required: ['chatId', 'contentType', 'content'],
+        required: ['pollId', 'name', 'selectableCount', 'options', 'totalVoters'],
       },
-      ChatIdRequest: {
+      WebhookV2DataVoteUpdate: {
         type: 'object',
         properties: {
-          chatId: { type: 'string', example: '14155551234@c.us' },
+          message: { $ref: '#/components/schemas/WebhookV2MessageRef' },
+          voterId: { type: 'string' },
+          selectedOptions: {
+            type: 'array',
+            description: 'Options now selected by the voter; empty when the vote was removed or could not be decrypted.',
+            items: {
+              type: 'object',
+              properties: { name: { type: 'string' }, localId: { type: 'integer' } },
+              required: ['name', 'localId'],
+            },
+          },
+          votedAt: { type: 'integer', description: 'Unix time in milliseconds.' },
+          poll: {
+            oneOf: [{ $ref: '#/components/schemas/PollVotes' }, { type: 'null' }],
+            description: 'Tallies including this vote, when the poll is in the store.',
+          },
+          undecryptable: { type: 'boolean' },
+          reason: {
+            type: ['string', 'null'],
+            enum: ['poll_not_found', 'missing_secret', 'decryption_failed', null],
+            description: 'Why the vote could not be decrypted.',
+          },
         },
-        required: ['chatId'],
+        required: ['message', 'voterId', 'selectedOptions', 'votedAt', 'poll', 'undecryptable', 'reason'],
       },
-      FetchMessagesRequest: {
+      WebhookV2DataMessageEdit: {
         type: 'object',
         properties: {
-          chatId: { type: 'string', example: '14155551234@c.us' },
-          limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 },
-          before: {
-            type: 'string',
-            description: 'Fetch older messages before this message id.',
-          },
+          message: { $ref: '#/components/schemas/WebhookMessageV2' },
+          newBody: { type: 'string' },
+          prevBody: { type: ['string', 'null'], description: 'Body before the edit; null when the message was not in the store.' },
         },
-        required: ['chatId'],
+        required: ['message', 'newBody', 'prevBody'],
       },
-      ContactIdRequest: {
+      WebhookV2DataMessageReaction: {
         type: 'object',
         properties: {
-          contactId: { type: 'string', example: '14155551234@c.us' },
+          message: { $ref: '#/components/schemas/WebhookV2MessageRef' },
+          emoji: { type: ['string', 'null'], description: '`null` when the reaction was removed.' },
+          senderId: { type: ['string', 'null'] },
+          fromMe: { type: 'boolean' },
         },
-        required: ['contactId'],
+        required: ['message', 'emoji', 'senderId', 'fromMe'],
       },
-      GroupIdRequest: {
+      WebhookV2DataGroupParticipants: {
         type: 'object',
         properties: {
-          groupId: { type: 'string', example: '120363123456789012@g.us' },
+          groupId: { type: ['string', 'null'], example: '120363000000000000@g.us' },
+          participant: { type: 'string' },
+          action: { type: 'string', example: 'add' },
         },
         required: ['groupId'],
       },
-      GroupParticipantsRequest: {
+      WebhookV2DataGroupUpdate: {
         type: 'object',
         properties: {
-          groupId: { type: 'string', example: '120363123456789012@g.us' },
-          participants: {
-            type: 'array',
-            items: { type: 'string', example: '14155551234@c.us' },
-          },
+          groupId: { type: ['string', 'null'] },
+          changes: { type: 'object', additionalProperties: true, description: 'Changed group metadata fields.' },
         },
-        required: ['groupId', 'participants'],
+        required: ['groupId', 'changes'],
       },
-      SetGroupSubjectRequest: {
+      WebhookV2DataCall: {
         type: 'object',
         properties: {
-          groupId: { type: 'string' },
-          subject: { type: 'string' },
+          id: { type: 'string' },
+          from: { type: 'string' },
+          isVideo: { type: 'boolean' },
+          isGroup: { type: 'boolean' },
+          status: { type: 'string', example: 'offer' },
         },
-        required: ['groupId', 'subject'],
+        required: ['id', 'from'],
       },
-      SetGroupDescriptionRequest: {
+      WebhookV2DataChangeState: {
         type: 'object',
         properties: {
-          groupId: { type: 'string' },
-          description: { type: 'string' },
+          state: { type: 'string', description: 'wwebjs-style state name.', example: 'CONNECTED' },
+          status: { type: 'string', description: 'Lifecycle state of the session.' },
+          previousStatus: { type: 'string' },
+          reason: { type: ['string', 'null'] },
+          statusCode: { type: ['integer', 'null'] },
         },
-        required: ['groupId'],
+        required: ['state', 'status', 'previousStatus', 'reason', 'statusCode'],
       },
-      SetGroupAdminsOnlyRequest: {
+      WebhookV2DataLoadingScreen: {
         type: 'object',
         properties: {
-          groupId: { type: 'string' },
-          adminsOnly: { type: 'boolean' },
+          percent: { type: 'number' },
+          message: { type: 'string' },
         },
-        required: ['groupId', 'adminsOnly'],
+        required: ['percent', 'message'],
       },
-      InviteCodeRequest: {
+      WebhookV2DataContactChanged: {
         type: 'object',
         properties: {
-          inviteCode: { type: 'string' },
+          message: { type: ['object', 'null'], additionalProperties: true },
+          oldId: { type: 'string' },
+          newId: { type: 'string' },
         },
-        required: ['inviteCode'],
+        required: ['oldId', 'newId'],
       },
-      SetGroupPictureRequest: {
+      WebhookV2DataChat: {
         type: 'object',
         properties: {
-          groupId: { type: 'string' },
-          image: {
-            oneOf: [
-              { type: 'string', description: 'Base64 image string.' },
-              {
-                type: 'object',
-                properties: {
-                  data: { type: 'string' },
-                },
-                required: ['data'],
-              },
-            ],
-          },
+          chatId: { type: ['string', 'null'] },
         },
-        required: ['groupId', 'image'],
+        required: ['chatId'],
       },
-      MessageLookupRequest: {
+      WebhookV2DataChatArchived: {
         type: 'object',
         properties: {
-          chatId: { type: 'string' },
-          messageId: { type: 'string' },
+          chatId: { type: ['string', 'null'] },
+          archived: { type: 'boolean' },
         },
-        required: ['chatId', 'messageId'],
+        required: ['chatId', 'archived'],
       },
-      ReactMessageRequest: {
+      WebhookV2DataUnreadCount: {
         type: 'object',
         properties: {
-          chatId: { type: 'string' },
-          messageId: { type: 'string' },
-          emoji: { type: 'string', example: '👍' },
+          chatId: { type: ['string', 'null'] },
+          unreadCount: { type: 'integer' },
         },
-        required: ['chatId', 'messageId', 'emoji'],
+        required: ['chatId', 'unreadCount'],
       },
-      StarMessageRequest: {
+      WebhookEventV2Envelope: {
         type: 'object',
         properties: {
-          chatId: { type: 'string' },
-          messageId: { type: 'string' },
-          star: { type: 'boolean' },
+          version: { const: 2 },
+          id: { type: 'string', format: 'uuid', description: 'Event id, same as the `x-webhook-id` header.' },
+          type: { type: 'string', description: 'Event type.' },
+          sessionId: { type: 'string' },
+          timestamp: { type: 'string', format: 'date-time', description: 'When the event was emitted.' },
+          data: {},
         },
-        required: ['chatId', 'messageId', 'star'],
+        required: ['version', 'id', 'type', 'sessionId', 'timestamp', 'data'],
       },
-      DeleteMessageRequest: {
+      ...webhookV2EventSchemas(),
+      WebhookEventV2: {
+        oneOf: Object.keys(webhookV2DataSchemas).map((type) => ({
+          $ref: `#/components/schemas/${webhookV2EventSchemaName(type)}`,
+        })),
+        discriminator: {
+          propertyName: 'type',
+          mapping: Object.fromEntries(
+            Object.keys(webhookV2DataSchemas).map((type) => [type, `#/components/schemas/${webhookV2EventSchemaName(type)}`])
+          ),
+        },
+      },
+      WebhookCloudEvent: {
         type: 'object',
         properties: {
-          chatId: { type: 'string' },
-          messageId: { type: 'string' },
-          forEveryone: { type: 'boolean', default: false },
+          specversion: { const: '1.0' },
+          id: { type: 'string', format: 'uuid', description: 'Event id, same as the `x-webhook-id` header.' },
+          source: { type: 'string', example: '/sessions/sales-1' },
+          type: { type: 'string', example: 'baileys.message' },
+          time: { type: 'string', format: 'date-time' },
+          subject: { type: 'string', description: 'Chat the event is about, when there is one.' },
+          sessionid: { type: 'string', description: 'Extension attribute: the session id.' },
+          datacontenttype: { const: 'application/json' },
+          data: { description: 'v2 data of the event type (see the `WebhookV2Data*` schemas and `WebhookMessageV2`).' },
         },
-        required: ['chatId', 'messageId'],
+        required: ['specversion', 'id', 'source', 'type', 'time', 'sessionid', 'data'],
       },
-      ForwardMessageRequest: {
+      WebhookSubscriptionFilters: {
         type: 'object',
+        description:
+          'Content filters. They only apply to events about a chat or message; lifecycle events (`qr`, `ready`, `change_state`, ...) are selected by `dataTypes` alone.',
         properties: {
-          chatId: { type: 'string' },
-          messageId: { type: 'string' },
-          targetChatId: { type: 'string' },
+          chatAllowlist: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Only events of these chats (empty = all).',
+            example: ['120363000000000000@g.us'],
+          },
+          chatDenylist: { type: 'array', items: { type: 'string' }, description: 'Never events of these chats.' },
+          groupsOnly: { type: 'boolean', default: false },
+          excludeFromMe: {
+            type: 'boolean',
+            default: false,
+            description: 'Drop events about messages sent by the session itself.',
+          },
+          messageTypes: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Only messages of these types (empty = all).',
+            example: ['chat', 'image', 'ptt'],
+          },
         },
-        required: ['chatId', 'messageId', 'targetChatId'],
       },
-      DownloadMediaRequest: {
+      WebhookSubscriptionInput: {
         type: 'object',
         properties: {
-          chatId: { type: 'string' },
-          messageId: { type: 'string' },
-          messageData: {
-            type: 'object',
-            description: 'Optional raw Baileys message object to download directly.',
-            additionalProperties: true,
+          url: { type: 'string', format: 'uri', description: 'Required when creating.' },
+          description: { type: 'string', nullable: true },
+          enabled: { type: 'boolean', default: true },
+          sessions: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Session ids, `*` matching any characters (empty = all sessions).',
+            example: ['sales-*'],
+          },
+          dataTypes: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Event types to deliver (empty = all).',
+            example: ['message', 'message_ack'],
+          },
+          filters: { $ref: '#/components/schemas/WebhookSubscriptionFilters' },
+          format: {
+            type: 'string',
+            enum: ['wwebjs', 'v2', 'cloudevents', 'cloudevents-binary'],
+            default: 'wwebjs',
+            description:
+              'Payload format: `wwebjs` (the original `{sessionId, dataType, data}` body), `v2` (versioned envelope with a schema per event type) or CloudEvents 1.0 in structured (`cloudevents`) or binary (`cloudevents-binary`) mode.',
+          },
+          secret: {
+            type: 'string',
+            nullable: true,
+            minLength: 16,
+            description: 'Signing secret; generated when omitted on create, `null` delivers unsigned.',
+          },
+          previousSecret: {
+            type: 'string',
+            nullable: true,
+            minLength: 16,
+            description: 'Secret still signed with during a rotation; `null` ends the rotation.',
           },
         },
       },
-      GetMentionsRequest: {
+      WebhookSubscription: {
         type: 'object',
         properties: {
-          chatId: { type: 'string' },
-          messageId: { type: 'string' },
-          messageData: {
-            type: 'object',
-            additionalProperties: true,
-          },
+          id: { type: 'string' },
+          url: { type: 'string' },
+          description: { type: 'string', nullable: true },
+          enabled: { type: 'boolean' },
+          sessions: { type: 'array', items: { type: 'string' } },
+          dataTypes: { type: 'array', items: { type: 'string' } },
+          filters: { $ref: '#/components/schemas/WebhookSubscriptionFilters' },
+          format: { type: 'string', enum: ['wwebjs', 'v2', 'cloudevents', 'cloudevents-binary'] },
+          builtIn: { type: 'boolean', description: 'The read-only `default` subscription configured by `BASE_WEBHOOK_URL`.' },
+          signed: { type: 'boolean' },
+          rotating: { type: 'boolean', description: 'Whether a previous secret is still signed with.' },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' },
         },
       },
-      EditMessageRequest: {
+      WebhookSubscriptionList: {
         type: 'object',
         properties: {
-          chatId: { type: 'string' },
-          messageId: { type: 'string' },
-          newContent: { type: 'string' },
+          subscriptions: { type: 'array', items: { $ref: '#/components/schemas/WebhookSubscription' } },
         },
-        required: ['chatId', 'messageId', 'newContent'],
       },
-      PinMessageRequest: {
+      WebhookSubscriptionResponse: {
         type: 'object',
         properties: {
-          chatId: { type: 'string' },
-          messageId: { type: 'string' },
-          duration: {
-            type: 'integer',
-            description: 'Allowed values: 86400 (1 day), 604800 (7 days), 2592000 (30 days).',
-            example: 604800,
-          },
+          subscription: { $ref: '#/components/schemas/WebhookSubscription' },
         },
-        required: ['chatId', 'messageId'],
       },
-      PairingCodeRequest: {
+      WebhookSubscriptionSecretResponse: {
         type: 'object',
         properties: {
-          phoneNumber: {
-            type: 'string',
-            description: 'E.164 digits only (no +). Example: 14155551234',
-          },
+          subscription: { $ref: '#/components/schemas/WebhookSubscription' },
+          secret: { type: 'string', nullable: true, description: 'Current signing secret, only returned here.' },
         },
-        required: ['phoneNumber'],
       },
-      CreateGroupRequest: {
+      WebhookAttemptResult: {
         type: 'object',
         properties: {
-          name: { type: 'string' },
-          participants: {
-            type: 'array',
-            items: { type: 'string' },
+          success: { type: 'boolean' },
+          statusCode: { type: 'integer', nullable: true, description: 'Null when the endpoint did not answer.' },
+          latencyMs: { type: 'integer' },
+          responseBody: { type: 'string', nullable: true, description: 'Start of the answer body (at most 2048 characters).' },
+          error: { type: 'string', nullable: true },
+        },
+      },
+      WebhookDeliveryAttempt: {
+        allOf: [
+          { $ref: '#/components/schemas/WebhookAttemptResult' },
+          {
+            type: 'object',
+            properties: {
+              id: { type: 'string', format: 'uuid' },
+              eventId: { type: 'string', format: 'uuid', description: 'Event id (`x-webhook-id`), shared by all attempts of an event.' },
+              subscriptionId: { type: 'string' },
+              url: { type: 'string' },
+              sessionId: { type: 'string' },
+              dataType: { type: 'string' },
+              attempt: { type: 'integer' },
+              test: { type: 'boolean', description: 'Whether this was a test event sent through the API.' },
+              attemptedAt: { type: 'string', format: 'date-time' },
+            },
           },
+        ],
+      },
+      WebhookDeliveryList: {
+        type: 'object',
+        properties: {
+          deliveries: { type: 'array', items: { $ref: '#/components/schemas/WebhookDeliveryAttempt' } },
         },
-        required: ['name', 'participants'],
       },
-      SetStatusRequest: {
+      WebhookReplayResponse: {
         type: 'object',
         properties: {
-          status: { type: 'string' },
+          message: { type: 'string' },
+          eventId: { type: 'string', format: 'uuid' },
+          subscriptionId: { type: 'string' },
         },
-        required: ['status'],
       },
-      SetDisplayNameRequest: {
+      WebhookTestEventRequest: {
         type: 'object',
+        description: 'Optional overrides to mimic a real event.',
         properties: {
-          displayName: { type: 'string' },
+          sessionId: { type: 'string', default: 'test' },
+          dataType: { type: 'string', default: 'test' },
+          data: { type: 'object', additionalProperties: true },
         },
-        required: ['displayName'],
       },
-      NumberRequest: {
+      WebhookTestEventResponse: {
+        allOf: [
+          { $ref: '#/components/schemas/WebhookAttemptResult' },
+          {
+            type: 'object',
+            properties: {
+              subscriptionId: { type: 'string' },
+              url: { type: 'string' },
+              eventId: { type: 'string', format: 'uuid' },
+            },
+          },
+        ],
+      },
+      WebhookEndpointQueueStats: {
         type: 'object',
         properties: {
-          number: {
+          subscriptionId: { type: 'string' },
+          url: { type: 'string' },
+          pending: { type: 'integer', description: 'Events waiting for delivery, including the one being retried.' },
+          dead: { type: 'integer' },
+          inFlight: { type: 'boolean', description: 'Whether a request to the endpoint is waiting for an answer.' },
+          oldestPendingAt: { type: 'string', format: 'date-time', nullable: true },
+          nextAttemptAt: {
             type: 'string',
-            description: 'Phone number with or without country code, digits preferred.',
+            format: 'date-time',
+            nullable: true,
+            description: 'Retry time of the event at the head of the queue; null when it is due.',
           },
+          attempts: { type: 'integer', description: 'Failed attempts of the event at the head of the queue.' },
+          lastError: { type: 'string', nullable: true },
         },
-        required: ['number'],
       },
-      SendPresenceUpdateRequest: {
+      EventSinkStats: {
         type: 'object',
         properties: {
-          presence: {
-            type: 'string',
-            enum: ['available', 'unavailable', 'composing', 'recording', 'paused'],
-          },
+          name: { type: 'string', example: 'webhooks' },
+          handled: { type: 'integer' },
+          failed: { type: 'integer' },
+          averageLatencyMs: { type: 'number' },
+          maxLatencyMs: { type: 'integer' },
         },
-        required: ['presence'],
       },
-      MuteChatRequest: {
+      EventBusStats: {
         type: 'object',
         properties: {
-          chatId: { type: 'string' },
-          duration: {
-            type: 'integer',
-            description: 'Mute duration in seconds.',
-            default: 28800,
-          },
+          pending: { type: 'integer', description: 'Events published but not handled by every sink yet.' },
+          maxPending: { type: 'integer' },
+          oldestPendingAt: { type: 'string', format: 'date-time', nullable: true },
+          concurrency: { type: 'integer' },
+          activeLanes: { type: 'integer', description: 'Chats (or sessions) whose events are being dispatched.' },
+          queuedLanes: { type: 'integer', description: 'Chats (or sessions) waiting for a free dispatcher.' },
+          published: { type: 'integer' },
+          dispatched: { type: 'integer' },
+          throttled: { type: 'integer', description: 'Publishes that had to wait for the backlog to drain.' },
+          waitingPublishers: { type: 'integer' },
+          sinks: { type: 'array', items: { $ref: '#/components/schemas/EventSinkStats' } },
         },
-        required: ['chatId'],
       },
-      WebhookEventPayload: {
+      WebhookQueueStats: {
+        type: 'object',
+        properties: {
+          pending: { type: 'integer' },
+          inFlight: { type: 'integer' },
+          dead: { type: 'integer' },
+          endpoints: { type: 'array', items: { $ref: '#/components/schemas/WebhookEndpointQueueStats' } },
+        },
+      },
+      WebhookDeadLetter: {
         type: 'object',
         properties: {
+          id: { type: 'string', format: 'uuid' },
+          subscriptionId: { type: 'string' },
+          url: { type: 'string', description: 'URL of the subscription when the event was queued.' },
           sessionId: { type: 'string' },
-          dataType: {
-            type: 'string',
-            description:
-              'Event type. Examples: qr, ready, authenticated, disconnected, message, message_create, message_ack, message_reaction, group_join, group_leave, group_update, call, chat_archived, chat_removed, unread_count.',
-          },
-          data: {
-            type: 'object',
-            additionalProperties: true,
-          },
+          dataType: { type: 'string' },
+          attempts: { type: 'integer' },
+          lastError: { type: 'string', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+          deadAt: { type: 'string', format: 'date-time' },
+          payload: { $ref: '#/components/schemas/WebhookEventPayload' },
+        },
+      },
+      WebhookDeadLetterList: {
+        type: 'object',
+        properties: {
+          deadLetters: { type: 'array', items: { $ref: '#/components/schemas/WebhookDeadLetter' } },
+        },
+      },
+      WebhookDeadLetterFilter: {
+        type: 'object',
+        description:
+          'Select dead letters by `ids`, or by `sessionId` and/or `subscriptionId`; an empty body selects all of them.',
+        properties: {
+          ids: { type: 'array', items: { type: 'string' }, minItems: 1 },
+          sessionId: { type: 'string' },
+          subscriptionId: { type: 'string' },
         },
-        required: ['sessionId', 'dataType', 'data'],
       },
       WebSocketEventPayload: {
         allOf: [
@@ -2,11 +2,23 @@ import type { Request, Response, NextFunction } from 'express';
 import config from '../config';
 import { sendError } from '../utils/responseHelper';
 
+/**
+ * Server-Sent Events streams (`GET .../stream`) also accept the key as `?apiKey=`,
+ * since browsers' EventSource cannot send headers (same as the websocket endpoint)
+ */
+function getQueryApiKey(req: Request): string | undefined {
+  if (req.method !== 'GET' || !req.path.endsWith('/stream')) {
+    return undefined;
+  }
+
+  return typeof req.query.apiKey === 'string' ? req.query.apiKey : undefined;
+}
+
 /**
  * Validate API key from x-api-key header
  */
 export function authMiddleware(req: Request, res: Response, next: NextFunction): void {
-  const apiKey = req.headers['x-api-key'] as string;
+  const apiKey = (req.headers['x-api-key'] as string) || getQueryApiKey(req);
 
   if (!config.apiKey) {
     // No API key configured, allow all requests
@@ -0,0 +1,34 @@
+import type { Request, Response, NextFunction } from 'express';
+import shutdownService from '../services/ShutdownService';
+import { sendError } from '../utils/responseHelper';
+
+// Still answered while draining so orchestrators can follow the shutdown
+const DRAIN_EXEMPT_PATHS = new Set(['/ready', '/ping']);
+
+/**
+ * Refuse new requests once the server drains, and count in-flight ones so the drain can wait for them.
+ * Server-Sent Events streams are not counted: they stay open until their session stops.
+ */
+export function drainMiddleware(req: Request, res: Response, next: NextFunction): void {
+  if (DRAIN_EXEMPT_PATHS.has(req.path)) {
+    next();
+    return;
+  }
+
+  if (shutdownService.isDraining()) {
+    res.setHeader('Connection', 'close');
+    res.setHeader('Retry-After', '5');
+    sendError(res, 'Server is shutting down', 503, 'server_draining');
+    return;
+  }
+
+  if (req.method !== 'GET' || !req.path.endsWith('/stream')) {
+    const release = shutdownService.trackRequest();
+    res.on('finish', release);
+    res.on('close', release);
+  }
+
+  next();
+}
+
+export default drainMiddleware;
@@ -22,9 +22,9 @@ export function sessionExistsMiddleware(req: Request, res: Response, next: NextF
 }
 
 /**
- * Validate session exists and is connected
+ * Validate session exists and is connected, waking it up first if it was hibernated
  */
-export function sessionConnectedMiddleware(req: Request, res: Response, next: NextFunction): void {
+export async function sessionConnectedMiddleware(req: Request, res: Response, next: NextFunction): Promise<void> {
   const sessionId = req.params.sessionId;
 
   if (!sessionId) {
@@ -32,16 +32,28 @@ export function sessionConnectedMiddleware(req: Request, res: Response, next: Ne
     return;
   }
 
+  if (sessionManager.isHibernated(sessionId) && !(await sessionManager.wakeSession(sessionId))) {
+    sendSessionNotConnected(res, sessionId);
+    return;
+  }
+
   if (!sessionManager.hasSession(sessionId)) {
     sendSessionNotFound(res, sessionId);
     return;
   }
 
+  sessionManager.touch(sessionId);
+
   if (!sessionManager.isConnected(sessionId)) {
     sendSessionNotConnected(res, sessionId);
     return;
   }
 
+  // keeps the socket from being hibernated under a long request, e.g. a media upload
+  const release = sessionManager.trackRequest(sessionId);
+  res.on('finish', release);
+  res.on('close', release);
+
   next();
 }
 
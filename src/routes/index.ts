@@ -1,4 +1,5 @@
-import { Router } from 'express';
+import { raw, Router } from 'express';
+import config from '../config';
 import { sessionExists, sessionConnected } from '../middleware/sessionMiddleware';
 
 // Controllers
@@ -9,27 +10,60 @@ import chatController from '../controllers/chatController';
 import contactController from '../controllers/contactController';
 import groupChatController from '../controllers/groupChatController';
 import messageController from '../controllers/messageController';
+import maintenanceController from '../controllers/maintenanceController';
+import bulkSessionController from '../controllers/bulkSessionController';
+import webhookController from '../controllers/webhookController';
+import eventController from '../controllers/eventController';
 
 const router = Router();
 
+// Session archives are uploaded as raw bytes, whatever the content type
+const sessionArchiveBody = raw({ type: () => true, limit: config.sessionArchiveMaxSize });
+
 // ============================================================================
 // Health Check
 // ============================================================================
 router.get('/ping', healthController.ping);
+router.get('/ready', healthController.ready);
 
 // ============================================================================
 // Session Management
 // ============================================================================
 router.get('/session/start/:sessionId', sessionController.startSession);
+router.post('/session/start/:sessionId', sessionController.startSession);
 router.get('/session/stop/:sessionId', sessionController.stopSession);
 router.get('/session/status/:sessionId', sessionController.getStatus);
 router.delete('/session/terminate/:sessionId', sessionController.terminateSession);
 router.get('/session/getSessions', sessionController.getSessions);
 router.get('/session/qr/:sessionId', sessionController.getQr);
 router.get('/session/qr/:sessionId/image', sessionController.getQrImage);
+router.get('/session/qr/:sessionId/stream', sessionController.streamQr);
 router.post('/session/requestPairingCode/:sessionId', sessionController.requestPairingCode);
+router.post('/session/onboard/:sessionId', sessionController.onboardSession);
+router.get('/session/onboard/:sessionId', sessionController.getOnboarding);
 router.get('/session/logout/:sessionId', sessionController.logoutSession);
 router.get('/session/restart/:sessionId', sessionController.restartSession);
+router.get('/session/history/:sessionId', sessionController.getSessionHistory);
+router.get('/session/diagnostics/:sessionId', sessionController.getDiagnostics);
+router.get('/session/export/:sessionId', sessionController.exportSession);
+router.post('/session/import/:sessionId', sessionArchiveBody, sessionController.importSession);
+router.get('/session/store/snapshots/:sessionId', sessionController.listStoreSnapshots);
+router.post('/session/store/restore/:sessionId', sessionController.restoreStoreSnapshot);
+router.get('/session/registry', sessionController.listRegistry);
+router.get('/session/registry/:sessionId', sessionController.getRegistryEntry);
+router.post('/session/registry/:sessionId', sessionController.updateRegistryEntry);
+router.delete('/session/registry/:sessionId', sessionController.deleteRegistryEntry);
+
+// ============================================================================
+// Bulk Session Operations
+// ============================================================================
+router.post('/sessions/bulk/start', bulkSessionController.bulkStart);
+router.post('/sessions/bulk/stop', bulkSessionController.bulkStop);
+router.post('/sessions/bulk/restart', bulkSessionController.bulkRestart);
+router.post('/sessions/bulk/terminate', bulkSessionController.bulkTerminate);
+router.get('/sessions/bulk/jobs', bulkSessionController.listJobs);
+router.get('/sessions/bulk/jobs/:jobId', bulkSessionController.getJob);
+router.delete('/sessions/bulk/jobs/:jobId', bulkSessionController.cancelJob);
 
 // ============================================================================
 // Client Operations
@@ -118,7 +152,36 @@ router.post('/message/downloadMedia/:sessionId', sessionConnected, messageContro
 router.post('/message/getQuotedMessage/:sessionId', sessionConnected, messageController.getQuotedMessage);
 router.post('/message/getMentions/:sessionId', sessionConnected, messageController.getMentions);
 router.post('/message/edit/:sessionId', sessionConnected, messageController.edit);
+router.post('/message/getEditHistory/:sessionId', sessionConnected, messageController.getEditHistory);
+router.post('/message/getPollVotes/:sessionId', sessionConnected, messageController.getPollVotes);
 router.post('/message/pin/:sessionId', sessionConnected, messageController.pin);
 router.post('/message/unpin/:sessionId', sessionConnected, messageController.unpin);
 
+// ============================================================================
+// Events
+// ============================================================================
+router.get('/events/stats', eventController.getStats);
+
+// ============================================================================
+// Webhooks
+// ============================================================================
+router.get('/webhooks/subscriptions', webhookController.listSubscriptions);
+router.post('/webhooks/subscriptions', webhookController.createSubscription);
+router.get('/webhooks/subscriptions/:subscriptionId', webhookController.getSubscription);
+router.post('/webhooks/subscriptions/:subscriptionId', webhookController.updateSubscription);
+router.delete('/webhooks/subscriptions/:subscriptionId', webhookController.deleteSubscription);
+router.post('/webhooks/subscriptions/:subscriptionId/rotate-secret', webhookController.rotateSubscriptionSecret);
+router.post('/webhooks/subscriptions/:subscriptionId/test', webhookController.sendTestEvent);
+router.get('/webhooks/deliveries', webhookController.listDeliveries);
+router.post('/webhooks/deliveries/:id/replay', webhookController.replayDelivery);
+router.get('/webhooks/queue', webhookController.getQueue);
+router.get('/webhooks/dead-letters', webhookController.listDeadLetters);
+router.post('/webhooks/dead-letters/redrive', webhookController.redriveDeadLetters);
+router.delete('/webhooks/dead-letters', webhookController.deleteDeadLetters);
+
+// ============================================================================
+// Maintenance
+// ============================================================================
+router.post('/maintenance/encryption/rotate', maintenanceController.rotateEncryptionKey);
+
 export default router;
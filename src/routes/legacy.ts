@@ -4,6 +4,7 @@ import { Router } from 'express';
 import currentRoutes from './index';
 import { LEGACY_SWAGGER_OPERATIONS, type LegacyMethod } from './legacySwaggerOperations';
 import sessionManager from '../services/SessionManager';
+import bulkSessionService from '../services/BulkSessionService';
 import logger from '../logger';
 import { sendError, sendSuccess } from '../utils/responseHelper';
 
@@ -325,9 +326,7 @@ const LEGACY_CUSTOM_HANDLERS: Record<string, RequestHandler> = {
   [operationKey('GET', '/session/terminateAll')]: async (_req, res) => {
     const sessionIds = sessionManager.getAllSessionIds();
 
-    for (const sessionId of sessionIds) {
-      await sessionManager.terminateSession(sessionId);
-    }
+    await bulkSessionService.waitFor(bulkSessionService.run('terminate', sessionIds).id);
 
     sendSuccess(res, {
       message: 'All active sessions terminated',
@@ -339,9 +338,7 @@ const LEGACY_CUSTOM_HANDLERS: Record<string, RequestHandler> = {
     const sessionIds = sessionManager.getAllSessionIds();
     const inactiveSessionIds = sessionIds.filter((sessionId) => sessionManager.getStatus(sessionId) !== 'connected');
 
-    for (const sessionId of inactiveSessionIds) {
-      await sessionManager.terminateSession(sessionId);
-    }
+    await bulkSessionService.waitFor(bulkSessionService.run('terminate', inactiveSessionIds).id);
 
     sendSuccess(res, {
       message: 'Inactive sessions terminated',
@@ -1,35 +1,63 @@
-import { createServer } from 'http';
+import { createServer, type Server as HttpServer } from 'http';
 import app from './app';
 import config from './config';
 import logger from './logger';
 import sessionManager from './services/SessionManager';
 import webSocketService from './services/WebSocketService';
+import encryptionService from './services/EncryptionService';
+import encryptionMaintenanceService from './services/EncryptionMaintenanceService';
+import shutdownService from './services/ShutdownService';
+import webhookQueue from './services/WebhookQueue';
 import { LEGACY_SWAGGER_OPERATIONS } from './routes/legacySwaggerOperations';
 
+let server: HttpServer | null = null;
+
 async function main() {
   logger.info('Starting Baileys API Server...');
   logger.info({
     port: config.port,
     sessionsPath: config.sessionsPath,
+    authStateBackend: config.authStateBackend,
+    storeBackend: config.storeBackend,
     autoStartSessions: config.autoStartSessions,
+    sessionHibernateAfter: config.sessionHibernateAfter,
     legacyRouterEnabled: config.enableLegacyRouter,
     webSocketEnabled: config.enableWebSocket,
     webhookEnabled: config.enableWebhook,
     webhookUrl: config.baseWebhookUrl || '(not configured)',
+    webhookSigned: !!config.webhookSecret,
   }, 'Configuration');
 
+  if (config.enableWebhook && config.baseWebhookUrl && !config.webhookSecret) {
+    logger.warn('WEBHOOK_SECRET is not set, webhooks are delivered unsigned and cannot be verified by the receiver');
+  }
+
+  // Refuse to start if stored sessions cannot be decrypted with the configured key(s)
+  await encryptionMaintenanceService.assertKeysAvailable();
+  if (encryptionService.enabled) {
+    logger.info({ keyId: encryptionService.currentKeyId }, 'Encryption at rest enabled');
+  }
+
+  await sessionManager.syncRegistry();
+
+  // Deliver webhook events left queued by a previous run
+  webhookQueue.start();
+
   // Auto-start existing sessions if enabled
   if (config.autoStartSessions) {
     await sessionManager.autoStartSessions();
   }
 
+  sessionManager.startHibernationMonitor();
+
   // Start HTTP server (+ websocket server if enabled)
-  const server = createServer(app);
+  server = createServer(app);
   if (config.enableWebSocket) {
     webSocketService.initialize(server);
   }
 
   server.listen(config.port, () => {
+    shutdownService.markReady();
     logger.info(`Server running on http://localhost:${config.port}`);
     if (config.enableWebSocket) {
       logger.info(`WebSocket endpoint ws://localhost:${config.port}/ws`);
@@ -38,6 +66,7 @@ async function main() {
     }
     logger.info('Available endpoints:');
     logger.info('  GET  /ping - Health check');
+    logger.info('  GET  /ready - Readiness check');
     logger.info('  GET  /session/start/:sessionId - Start session');
     logger.info('  GET  /session/status/:sessionId - Get session status');
     logger.info('  GET  /session/qr/:sessionId - Get QR code');
@@ -51,26 +80,28 @@ async function main() {
   });
 }
 
-// Handle graceful shutdown
-process.on('SIGINT', async () => {
-  logger.info('Received SIGINT, shutting down...');
-  const sessionIds = sessionManager.getAllSessionIds();
-  for (const sessionId of sessionIds) {
-    await sessionManager.stopSession(sessionId);
-  }
-  webSocketService.close();
-  process.exit(0);
-});
+// Handle graceful shutdown: drain in-flight work, flush stores and credentials, then exit
+let shutdownSignals = 0;
 
-process.on('SIGTERM', async () => {
-  logger.info('Received SIGTERM, shutting down...');
-  const sessionIds = sessionManager.getAllSessionIds();
-  for (const sessionId of sessionIds) {
-    await sessionManager.stopSession(sessionId);
+function shutdown(signal: string): void {
+  shutdownSignals += 1;
+  if (shutdownSignals > 1) {
+    logger.warn({ signal }, 'Received another shutdown signal, exiting without waiting for the drain');
+    process.exit(1);
   }
-  webSocketService.close();
-  process.exit(0);
-});
+
+  logger.info(`Received ${signal}, shutting down...`);
+  shutdownService
+    .shutdown(server, signal)
+    .then(() => process.exit(0))
+    .catch((error) => {
+      logger.error({ error: error.message, stack: error.stack }, 'Shutdown failed');
+      process.exit(1);
+    });
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
 
 // Handle uncaught errors
 process.on('uncaughtException', (error) => {
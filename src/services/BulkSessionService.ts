@@ -0,0 +1,161 @@
+import { randomUUID } from 'crypto';
+
+import config from '../config';
+import logger from '../logger';
+import sessionManager from './SessionManager';
+import type { BulkJob, BulkSessionAction, BulkSessionResult } from '../types';
+
+// Finished jobs kept in memory for GET /sessions/bulk/jobs
+const MAX_FINISHED_JOBS = 50;
+
+/**
+ * Start / stop / restart / terminate many sessions at once with bounded concurrency (BULK_CONCURRENCY).
+ * Every operation is tracked as a job that can be polled and cancelled while it runs.
+ */
+class BulkSessionService {
+  private jobs: Map<string, BulkJob> = new Map();
+  private completions: Map<string, Promise<BulkJob>> = new Map();
+
+  run(action: BulkSessionAction, sessionIds: string[]): BulkJob {
+    const uniqueIds = [...new Set(sessionIds)];
+    const job: BulkJob = {
+      id: randomUUID(),
+      action,
+      status: 'running',
+      total: uniqueIds.length,
+      done: 0,
+      createdAt: new Date().toISOString(),
+      finishedAt: null,
+      results: uniqueIds.map((sessionId) => ({ sessionId, status: 'pending' })),
+    };
+
+    this.jobs.set(job.id, job);
+    logger.info({ jobId: job.id, action, count: job.total }, 'Bulk session job started');
+
+    this.completions.set(job.id, this.execute(job));
+    return job;
+  }
+
+  /**
+   * Wait for a job to finish, resolving null if it is still running after `timeoutMs` (no limit when omitted)
+   */
+  async waitFor(jobId: string, timeoutMs?: number): Promise<BulkJob | null> {
+    const completion = this.completions.get(jobId);
+    if (!completion) {
+      return this.jobs.get(jobId) ?? null;
+    }
+
+    if (timeoutMs === undefined) {
+      return completion;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), timeoutMs);
+    });
+
+    try {
+      return await Promise.race([completion, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  getJob(jobId: string): BulkJob | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  listJobs(): BulkJob[] {
+    return [...this.jobs.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Stop a running job: operations already in flight finish, the remaining sessions are skipped
+   */
+  cancel(jobId: string): BulkJob | undefined {
+    const job = this.jobs.get(jobId);
+    if (job?.status === 'running') {
+      job.status = 'cancelled';
+      logger.info({ jobId, done: job.done, total: job.total }, 'Bulk session job cancelled');
+    }
+
+    return job;
+  }
+
+  private async execute(job: BulkJob): Promise<BulkJob> {
+    let next = 0;
+
+    const worker = async () => {
+      while (job.status === 'running' && next < job.results.length) {
+        const result = job.results[next++];
+        await this.runOne(job.action, result);
+        job.done += 1;
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(config.bulkConcurrency, job.results.length) }, worker));
+
+    for (const result of job.results) {
+      if (result.status === 'pending') {
+        result.status = 'skipped';
+      }
+    }
+
+    if (job.status === 'running') {
+      job.status = 'completed';
+    }
+    job.finishedAt = new Date().toISOString();
+    this.completions.delete(job.id);
+    this.pruneJobs();
+
+    logger.info(
+      {
+        jobId: job.id,
+        action: job.action,
+        status: job.status,
+        failed: job.results.filter((result) => result.status === 'error').length,
+      },
+      'Bulk session job finished'
+    );
+
+    return job;
+  }
+
+  private async runOne(action: BulkSessionAction, result: BulkSessionResult): Promise<void> {
+    const { sessionId } = result;
+
+    try {
+      switch (action) {
+        case 'start':
+          await sessionManager.startSession(sessionId);
+          break;
+        case 'stop':
+          await sessionManager.stopSession(sessionId);
+          break;
+        case 'restart':
+          await sessionManager.stopSession(sessionId);
+          await sessionManager.startSession(sessionId);
+          break;
+        case 'terminate':
+          await sessionManager.terminateSession(sessionId);
+          break;
+      }
+
+      result.status = 'ok';
+    } catch (error) {
+      result.status = 'error';
+      result.error = error instanceof Error ? error.message : String(error);
+      logger.warn({ sessionId, action, error: result.error }, 'Bulk session operation failed');
+    }
+  }
+
+  private pruneJobs(): void {
+    const finished = this.listJobs().filter((job) => job.finishedAt !== null);
+    for (const job of finished.slice(MAX_FINISHED_JOBS)) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
+
+export const bulkSessionService = new BulkSessionService();
+export default bulkSessionService;
@@ -0,0 +1,134 @@
+import logger from '../logger';
+import authStateStore from './authState';
+import { CREDS_KEY } from './authState/keyValueAuthState';
+import encryptionService from './EncryptionService';
+import { createSessionStore } from './store';
+import sessionManager from './SessionManager';
+import sessionHistory from './SessionHistory';
+import sessionRegistry from './SessionRegistry';
+import webhookQueue from './WebhookQueue';
+import webhookSubscriptions from './WebhookSubscriptions';
+import type { KeyRotationResult, KeyRotationSessionResult } from '../types';
+
+class EncryptionMaintenanceService {
+  private rotating = false;
+
+  get isRotating(): boolean {
+    return this.rotating;
+  }
+
+  /**
+   * Fail startup when stored sessions are encrypted with a key that is not configured.
+   * Starting anyway would make Baileys generate fresh creds and silently unlink those sessions.
+   */
+  async assertKeysAvailable(): Promise<void> {
+    encryptionService.initialize();
+
+    const unreadable: string[] = [];
+    for (const sessionId of await authStateStore.listSessionIds()) {
+      const creds = await authStateStore.readEntry(sessionId, CREDS_KEY);
+      if (creds && encryptionService.isEncryptedString(creds) && !encryptionService.canDecrypt(creds)) {
+        unreadable.push(sessionId);
+      }
+    }
+
+    if (unreadable.length > 0) {
+      throw new Error(
+        `Found ${unreadable.length} encrypted session(s) (${unreadable.join(', ')}) but ` +
+          (encryptionService.enabled
+            ? 'none of ENCRYPTION_KEY / ENCRYPTION_PREVIOUS_KEYS matches the key they were encrypted with'
+            : 'no ENCRYPTION_KEY or ENCRYPTION_KEY_FILE is configured')
+      );
+    }
+  }
+
+  /**
+   * Re-encrypt every stored session (auth state + store) with the current key.
+   * Running sessions are stopped while they are rewritten and started again afterwards.
+   */
+  async rotate(): Promise<KeyRotationResult> {
+    if (!encryptionService.enabled) {
+      throw new Error('Encryption at rest is not enabled (set ENCRYPTION_KEY or ENCRYPTION_KEY_FILE)');
+    }
+
+    if (this.rotating) {
+      throw new Error('Key rotation already in progress');
+    }
+
+    this.rotating = true;
+    const sessions: KeyRotationSessionResult[] = [];
+
+    try {
+      sessionRegistry.reencrypt();
+      sessionHistory.reencrypt();
+      webhookSubscriptions.reencrypt();
+      webhookQueue.reencrypt();
+
+      for (const sessionId of await authStateStore.listSessionIds()) {
+        sessions.push(await this.rotateSession(sessionId));
+      }
+    } finally {
+      this.rotating = false;
+    }
+
+    const result: KeyRotationResult = {
+      keyId: encryptionService.currentKeyId!,
+      rotated: sessions.filter((session) => !session.error).length,
+      failed: sessions.filter((session) => !!session.error).length,
+      sessions,
+    };
+
+    logger.info({ keyId: result.keyId, rotated: result.rotated, failed: result.failed }, 'Encryption key rotation finished');
+    return result;
+  }
+
+  private async rotateSession(sessionId: string): Promise<KeyRotationSessionResult> {
+    const wasRunning = sessionManager.hasSession(sessionId);
+    if (wasRunning) {
+      await sessionManager.stopSession(sessionId);
+    }
+
+    const result: KeyRotationSessionResult = { sessionId, authKeys: 0, storeRecords: 0, restarted: false };
+
+    try {
+      const entries = await authStateStore.exportSession(sessionId);
+      const rewritten = Object.fromEntries(
+        Object.entries(entries).map(([key, value]) => [
+          key,
+          encryptionService.needsRotation(value)
+            ? encryptionService.encryptString(encryptionService.decryptString(value))
+            : value,
+        ])
+      );
+
+      result.authKeys = Object.keys(entries).filter((key) => rewritten[key] !== entries[key]).length;
+      if (result.authKeys > 0) {
+        await authStateStore.importSession(sessionId, rewritten);
+      }
+
+      const store = createSessionStore(sessionId);
+      try {
+        result.storeRecords = store.reencrypt();
+      } finally {
+        store.close();
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      logger.error({ sessionId, error: result.error }, 'Failed to re-encrypt session');
+    }
+
+    if (wasRunning) {
+      try {
+        await sessionManager.startSession(sessionId);
+        result.restarted = true;
+      } catch (error) {
+        logger.error({ sessionId, error }, 'Failed to restart session after key rotation');
+      }
+    }
+
+    return result;
+  }
+}
+
+export const encryptionMaintenanceService = new EncryptionMaintenanceService();
+export default encryptionMaintenanceService;
@@ -0,0 +1,201 @@
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from 'crypto';
+import fs from 'fs';
+
+import config from '../config';
+
+const STRING_PREFIX = 'enc:v1:';
+const BUFFER_MAGIC = Buffer.from('BAPIAR01');
+const KEY_ID_LENGTH = 8;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Encryption at rest for everything written under SESSIONS_PATH and the auth-state backends.
+ *
+ * Strings are stored as `enc:v1:<keyId>:<base64(iv | tag | ciphertext)>`, files as
+ * `BAPIAR01 | keyId | iv | tag | ciphertext`. Plaintext values are still read as-is, so
+ * enabling encryption on an existing deployment does not need a migration step.
+ */
+class EncryptionService {
+  private keys: EncryptionKey[] | null = null;
+
+  /**
+   * Whether new data is encrypted (a master key is configured)
+   */
+  get enabled(): boolean {
+    return this.loadKeys().length > 0;
+  }
+
+  /**
+   * ID of the key new data is encrypted with
+   */
+  get currentKeyId(): string | null {
+    return this.loadKeys()[0]?.id || null;
+  }
+
+  /**
+   * Load and validate the configured keys, throws if the key file cannot be read
+   */
+  initialize(): void {
+    this.loadKeys();
+  }
+
+  isEncryptedString(value: string): boolean {
+    return value.startsWith(STRING_PREFIX);
+  }
+
+  isEncryptedBuffer(value: Buffer): boolean {
+    return value.subarray(0, BUFFER_MAGIC.length).equals(BUFFER_MAGIC);
+  }
+
+  /**
+   * Whether an encrypted value can be decrypted with one of the configured keys
+   */
+  canDecrypt(value: string | Buffer): boolean {
+    const keyId = typeof value === 'string' ? this.parseString(value)?.keyId : this.parseBuffer(value)?.keyId;
+    return !!keyId && !!this.findKey(keyId);
+  }
+
+  /**
+   * Whether an encrypted value uses a key other than the current one
+   */
+  needsRotation(value: string | Buffer): boolean {
+    const keyId = typeof value === 'string' ? this.parseString(value)?.keyId : this.parseBuffer(value)?.keyId;
+    return keyId !== undefined ? keyId !== this.currentKeyId : this.enabled;
+  }
+
+  encryptString(value: string): string {
+    const key = this.loadKeys()[0];
+    if (!key) {
+      return value;
+    }
+
+    return `${STRING_PREFIX}${key.id}:${this.seal(key, Buffer.from(value, 'utf-8')).toString('base64')}`;
+  }
+
+  decryptString(value: string): string {
+    const parsed = this.parseString(value);
+    if (!parsed) {
+      return value;
+    }
+
+    return this.open(parsed.keyId, parsed.payload).toString('utf-8');
+  }
+
+  encryptBuffer(value: Buffer): Buffer {
+    const key = this.loadKeys()[0];
+    if (!key) {
+      return value;
+    }
+
+    return Buffer.concat([BUFFER_MAGIC, Buffer.from(key.id, 'ascii'), this.seal(key, value)]);
+  }
+
+  decryptBuffer(value: Buffer): Buffer {
+    const parsed = this.parseBuffer(value);
+    if (!parsed) {
+      return value;
+    }
+
+    return this.open(parsed.keyId, parsed.payload);
+  }
+
+  private seal(key: EncryptionKey, plaintext: Buffer): Buffer {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', key.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  private open(keyId: string, payload: Buffer): Buffer {
+    const key = this.findKey(keyId);
+    if (!key) {
+      throw new Error(
+        this.enabled
+          ? `Data is encrypted with key ${keyId}, which is neither ENCRYPTION_KEY nor one of ENCRYPTION_PREVIOUS_KEYS`
+          : `Data is encrypted with key ${keyId} but no ENCRYPTION_KEY or ENCRYPTION_KEY_FILE is configured`
+      );
+    }
+
+    const iv = payload.subarray(0, IV_LENGTH);
+    const authTag = payload.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+    const decipher = createDecipheriv('aes-256-gcm', key.key, iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([decipher.update(payload.subarray(IV_LENGTH + AUTH_TAG_LENGTH)), decipher.final()]);
+  }
+
+  private parseString(value: string): { keyId: string; payload: Buffer } | null {
+    if (!this.isEncryptedString(value)) {
+      return null;
+    }
+
+    const rest = value.slice(STRING_PREFIX.length);
+    const separator = rest.indexOf(':');
+    if (separator < 0) {
+      throw new Error('Malformed encrypted value');
+    }
+
+    return { keyId: rest.slice(0, separator), payload: Buffer.from(rest.slice(separator + 1), 'base64') };
+  }
+
+  private parseBuffer(value: Buffer): { keyId: string; payload: Buffer } | null {
+    if (!this.isEncryptedBuffer(value)) {
+      return null;
+    }
+
+    const keyStart = BUFFER_MAGIC.length;
+    return {
+      keyId: value.subarray(keyStart, keyStart + KEY_ID_LENGTH).toString('ascii'),
+      payload: value.subarray(keyStart + KEY_ID_LENGTH),
+    };
+  }
+
+  private findKey(keyId: string): EncryptionKey | undefined {
+    return this.loadKeys().find((key) => key.id === keyId);
+  }
+
+  private loadKeys(): EncryptionKey[] {
+    if (this.keys) {
+      return this.keys;
+    }
+
+    let current = config.encryptionKey;
+    if (!current && config.encryptionKeyFile) {
+      try {
+        current = fs.readFileSync(config.encryptionKeyFile, 'utf-8').trim();
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to read ENCRYPTION_KEY_FILE (${config.encryptionKeyFile}): ${reason}`);
+      }
+
+      if (!current) {
+        throw new Error(`ENCRYPTION_KEY_FILE is empty: ${config.encryptionKeyFile}`);
+      }
+    }
+
+    if (!current && config.encryptionPreviousKeys.length > 0) {
+      throw new Error('ENCRYPTION_PREVIOUS_KEYS is set but no ENCRYPTION_KEY or ENCRYPTION_KEY_FILE is configured');
+    }
+
+    const secrets = current ? [current, ...config.encryptionPreviousKeys] : [];
+    this.keys = secrets.map((secret) => this.deriveKey(secret));
+    return this.keys;
+  }
+
+  private deriveKey(secret: string): EncryptionKey {
+    const key = Buffer.from(hkdfSync('sha256', secret, 'baileys-api-server', 'at-rest-encryption', 32));
+    const id = createHash('sha256').update(key).digest('hex').slice(0, KEY_ID_LENGTH);
+
+    return { id, key };
+  }
+}
+
+export const encryptionService = new EncryptionService();
+export default encryptionService;
@@ -0,0 +1,166 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test';
+
+import config from '../config';
+import eventBus from './EventBus';
+import type { BusEvent } from '../types';
+
+function messageData(chatId: string, n: number) {
+  return { id: { remote: chatId, fromMe: false }, type: 'chat', n };
+}
+
+function sequenceOf(event: BusEvent): number {
+  return (event.data as { n: number }).n;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the event bus');
+    }
+    await sleep(5);
+  }
+}
+
+/** A promise the test settles by hand, to hold a sink in the middle of an event */
+function gate(): { promise: Promise<void>; open: () => void } {
+  let open!: () => void;
+  const promise = new Promise<void>((resolve) => {
+    open = resolve;
+  });
+  return { promise, open };
+}
+
+describe('EventBus', () => {
+  const originalConfig = { ...config };
+  const unsubscribers: Array<() => void> = [];
+
+  const subscribe = (name: string, handler: (event: BusEvent) => void | Promise<void>) => {
+    unsubscribers.push(eventBus.subscribe(name, handler));
+  };
+
+  beforeAll(() => {
+    config.eventBusConcurrency = 4;
+  });
+
+  afterEach(async () => {
+    await waitFor(() => eventBus.getPendingCount() === 0);
+    unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+    config.eventBusMaxPending = originalConfig.eventBusMaxPending;
+  });
+
+  afterAll(() => {
+    Object.assign(config, originalConfig);
+  });
+
+  test('events of a chat reach every sink in the order they were published', async () => {
+    const seen: Record<string, Record<string, number[]>> = { fast: {}, slow: {} };
+    for (const name of ['fast', 'slow'] as const) {
+      subscribe(name, async (event) => {
+        if (name === 'slow') {
+          await sleep(sequenceOf(event) % 3 === 0 ? 5 : 0);
+        }
+        (seen[name][event.chatId!] ||= []).push(sequenceOf(event));
+      });
+    }
+
+    const chats = ['1111@c.us', '2222@c.us', '120363000000000000@g.us'];
+    for (let n = 0; n < 60; n++) {
+      await eventBus.publish('bus-test', 'message', messageData(chats[n % chats.length], n));
+    }
+
+    await waitFor(() => eventBus.getPendingCount() === 0);
+    for (const sink of Object.values(seen)) {
+      chats.forEach((chatId, index) => {
+        const expected = Array.from({ length: 20 }, (_, position) => position * chats.length + index);
+        expect(sink[chatId]).toEqual(expected);
+      });
+    }
+  });
+
+  test('a chat waiting on a slow sink does not hold up other chats', async () => {
+    const blocked = gate();
+    const handled: string[] = [];
+    subscribe('blocking', async (event) => {
+      if (event.chatId === '1111@c.us') {
+        await blocked.promise;
+      }
+      handled.push(`${event.chatId}:${sequenceOf(event)}`);
+    });
+
+    await eventBus.publish('bus-test', 'message', messageData('1111@c.us', 1));
+    await eventBus.publish('bus-test', 'message', messageData('1111@c.us', 2));
+    await eventBus.publish('bus-test', 'message', messageData('2222@c.us', 1));
+
+    await waitFor(() => handled.includes('2222@c.us:1'));
+    expect(handled).toEqual(['2222@c.us:1']);
+    expect(eventBus.getPendingCount('bus-test')).toBe(2);
+
+    blocked.open();
+    await waitFor(() => handled.length === 3);
+    expect(handled).toEqual(['2222@c.us:1', '1111@c.us:1', '1111@c.us:2']);
+  });
+
+  test('a failing sink neither stops the other sinks nor the events behind it', async () => {
+    const handled: number[] = [];
+    subscribe('failing', (event) => {
+      if (sequenceOf(event) === 1) {
+        throw new Error('sink failed');
+      }
+    });
+    subscribe('counting', (event) => {
+      handled.push(sequenceOf(event));
+    });
+
+    await eventBus.publish('bus-test', 'message', messageData('1111@c.us', 1));
+    await eventBus.publish('bus-test', 'message', messageData('1111@c.us', 2));
+
+    await waitFor(() => handled.length === 2);
+    expect(handled).toEqual([1, 2]);
+    expect(eventBus.getStats().sinks.find((sink) => sink.name === 'failing')).toMatchObject({ failed: 1, handled: 1 });
+  });
+
+  test('publishers wait while the backlog is full and resume once it drains', async () => {
+    config.eventBusMaxPending = 3;
+    const blocked = gate();
+    subscribe('blocking', () => blocked.promise);
+
+    const throttledBefore = eventBus.getStats().throttled;
+    let released = false;
+    await eventBus.publish('bus-test', 'message', messageData('1111@c.us', 1));
+    await eventBus.publish('bus-test', 'message', messageData('1111@c.us', 2));
+    const full = eventBus.publish('bus-test', 'message', messageData('1111@c.us', 3)).then(() => {
+      released = true;
+    });
+
+    await sleep(20);
+    expect(released).toBe(false);
+    expect(eventBus.getStats()).toMatchObject({ pending: 3, waitingPublishers: 1, throttled: throttledBefore + 1 });
+
+    blocked.open();
+    await full;
+    expect(released).toBe(true);
+  });
+
+  test('closing waits for published events and drops the ones published afterwards', async () => {
+    const handled: number[] = [];
+    subscribe('slow', async (event) => {
+      await sleep(5);
+      handled.push(sequenceOf(event));
+    });
+
+    for (let n = 1; n <= 5; n++) {
+      await eventBus.publish('bus-test', 'message', messageData('1111@c.us', n));
+    }
+
+    await eventBus.close();
+    expect(handled).toEqual([1, 2, 3, 4, 5]);
+
+    await eventBus.publish('bus-test', 'message', messageData('1111@c.us', 6));
+    expect(eventBus.getPendingCount()).toBe(0);
+  });
+});
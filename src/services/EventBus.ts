@@ -0,0 +1,264 @@
+import config from '../config';
+import logger from '../logger';
+import { getEventContext } from '../utils/eventContext';
+import { toWwebjsJid } from '../utils/jidHelper';
+import type { BusEvent, EventBusStats, EventSinkStats } from '../types';
+
+// Events a lane dispatches before yielding its dispatcher to the other lanes
+const LANE_BATCH_SIZE = 50;
+
+export type EventSink = (event: BusEvent) => void | Promise<void>;
+
+interface RegisteredSink {
+  handler: EventSink;
+  stats: EventSinkStats;
+  totalLatencyMs: number;
+}
+
+/** Events of one chat (or of a session, for events not about a chat), dispatched one at a time */
+interface Lane {
+  key: string;
+  sessionId: string;
+  events: BusEvent[];
+  /** Whether the lane is being dispatched or waiting for a dispatcher */
+  scheduled: boolean;
+}
+
+/**
+ * Internal event bus between Baileys event handlers and the outbound sinks (webhook queue, websocket
+ * clients, ...). Publishing only queues the event: sinks run afterwards, so a slow sink never holds up
+ * event ingestion or store persistence.
+ *
+ * Events of a chat reach every sink in the order they were published; different chats and sessions are
+ * dispatched in parallel, up to EVENT_BUS_CONCURRENCY at a time. Once EVENT_BUS_MAX_PENDING events are
+ * waiting, `publish` only resolves when the backlog drops below it again, slowing the producers down
+ * instead of growing without bound.
+ */
+class EventBus {
+  private sinks: Map<string, RegisteredSink> = new Map();
+  private lanes: Map<string, Lane> = new Map();
+  private queuedLanes: Lane[] = [];
+  private activeLanes = 0;
+  private pending = 0;
+  private published = 0;
+  private dispatched = 0;
+  private throttled = 0;
+  private waitingPublishers: Array<() => void> = [];
+  private closed = false;
+  private drainWaiters: Array<() => void> = [];
+
+  /**
+   * Register a sink receiving every published event; returns the unsubscribe function
+   */
+  subscribe(name: string, handler: EventSink): () => void {
+    this.sinks.set(name, {
+      handler,
+      stats: { name, handled: 0, failed: 0, averageLatencyMs: 0, maxLatencyMs: 0 },
+      totalLatencyMs: 0,
+    });
+
+    return () => {
+      this.sinks.delete(name);
+    };
+  }
+
+  /**
+   * Queue an event for the sinks; resolves right away unless the backlog is full
+   */
+  publish(sessionId: string, dataType: string, data: unknown): Promise<void> {
+    if (this.closed) {
+      logger.warn({ sessionId, dataType }, 'Event bus closed, event dropped');
+      return Promise.resolve();
+    }
+
+    const { chatId } = getEventContext(dataType, data);
+    const event: BusEvent = {
+      sessionId,
+      dataType,
+      data,
+      chatId: chatId ? toWwebjsJid(chatId) : null,
+      publishedAt: Date.now(),
+    };
+
+    const key = event.chatId ? `${sessionId}:${event.chatId}` : sessionId;
+    let lane = this.lanes.get(key);
+    if (!lane) {
+      lane = { key, sessionId, events: [], scheduled: false };
+      this.lanes.set(key, lane);
+    }
+
+    lane.events.push(event);
+    this.pending++;
+    this.published++;
+
+    if (!lane.scheduled) {
+      lane.scheduled = true;
+      this.queuedLanes.push(lane);
+      this.pump();
+    }
+
+    if (this.pending < config.eventBusMaxPending) {
+      return Promise.resolve();
+    }
+
+    this.throttled++;
+    if (this.throttled === 1 || this.throttled % 1000 === 0) {
+      logger.warn({ pending: this.pending, throttled: this.throttled }, 'Event bus backlog full, slowing down event producers');
+    }
+
+    return new Promise((resolve) => this.waitingPublishers.push(resolve));
+  }
+
+  /**
+   * Stop accepting events (on shutdown); resolves once the ones already published reached every sink
+   */
+  close(): Promise<void> {
+    this.closed = true;
+
+    // producers waiting on a full backlog would never be released otherwise
+    const waiting = this.waitingPublishers;
+    this.waitingPublishers = [];
+    for (const resolve of waiting) {
+      resolve();
+    }
+
+    if (this.pending === 0) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => this.drainWaiters.push(resolve));
+  }
+
+  /**
+   * Events not handled by every sink yet, of one session or of all of them
+   */
+  getPendingCount(sessionId?: string): number {
+    if (sessionId === undefined) {
+      return this.pending;
+    }
+
+    let pending = 0;
+    for (const lane of this.lanes.values()) {
+      if (lane.sessionId === sessionId) {
+        pending += lane.events.length;
+      }
+    }
+
+    return pending;
+  }
+
+  getStats(): EventBusStats {
+    let oldestPendingAt: number | null = null;
+    for (const lane of this.lanes.values()) {
+      const head = lane.events[0];
+      if (head && (oldestPendingAt === null || head.publishedAt < oldestPendingAt)) {
+        oldestPendingAt = head.publishedAt;
+      }
+    }
+
+    return {
+      pending: this.pending,
+      maxPending: config.eventBusMaxPending,
+      oldestPendingAt: oldestPendingAt === null ? null : new Date(oldestPendingAt).toISOString(),
+      concurrency: config.eventBusConcurrency,
+      activeLanes: this.activeLanes,
+      queuedLanes: this.queuedLanes.length,
+      published: this.published,
+      dispatched: this.dispatched,
+      throttled: this.throttled,
+      waitingPublishers: this.waitingPublishers.length,
+      sinks: [...this.sinks.values()].map(({ stats }) => ({ ...stats })),
+    };
+  }
+
+  private pump(): void {
+    while (this.activeLanes < config.eventBusConcurrency && this.queuedLanes.length > 0) {
+      const lane = this.queuedLanes.shift()!;
+      this.activeLanes++;
+
+      this.drainLane(lane)
+        .catch((error) => logger.error({ lane: lane.key, error }, 'Event bus lane failed'))
+        .finally(() => {
+          this.activeLanes--;
+          this.pump();
+        });
+    }
+  }
+
+  private async drainLane(lane: Lane): Promise<void> {
+    // let the publisher carry on before any sink runs
+    await new Promise((resolve) => setImmediate(resolve));
+
+    for (let dispatched = 0; lane.events.length > 0; dispatched++) {
+      if (dispatched === LANE_BATCH_SIZE) {
+        // a busy chat must not keep its dispatcher from the other chats
+        this.queuedLanes.push(lane);
+        return;
+      }
+
+      await this.dispatch(lane.events[0]);
+      lane.events.shift();
+      this.pending--;
+      this.dispatched++;
+      this.releasePublishers();
+      this.releaseDrainWaiters();
+    }
+
+    lane.scheduled = false;
+    this.lanes.delete(lane.key);
+  }
+
+  /**
+   * Hand an event to every sink; the next event of the lane waits for all of them
+   */
+  private async dispatch(event: BusEvent): Promise<void> {
+    await Promise.all(
+      [...this.sinks.values()].map(async (sink) => {
+        const startedAt = Date.now();
+        try {
+          await sink.handler(event);
+          sink.stats.handled++;
+        } catch (error) {
+          sink.stats.failed++;
+          logger.warn(
+            { sink: sink.stats.name, sessionId: event.sessionId, dataType: event.dataType, error },
+            'Event sink failed'
+          );
+        }
+
+        const latencyMs = Date.now() - startedAt;
+        sink.totalLatencyMs += latencyMs;
+        sink.stats.maxLatencyMs = Math.max(sink.stats.maxLatencyMs, latencyMs);
+        sink.stats.averageLatencyMs =
+          Math.round((sink.totalLatencyMs / (sink.stats.handled + sink.stats.failed)) * 100) / 100;
+      })
+    );
+  }
+
+  private releaseDrainWaiters(): void {
+    if (this.pending > 0 || this.drainWaiters.length === 0) {
+      return;
+    }
+
+    const waiting = this.drainWaiters;
+    this.drainWaiters = [];
+    for (const resolve of waiting) {
+      resolve();
+    }
+  }
+
+  private releasePublishers(): void {
+    if (this.pending >= config.eventBusMaxPending || this.waitingPublishers.length === 0) {
+      return;
+    }
+
+    const waiting = this.waitingPublishers;
+    this.waitingPublishers = [];
+    for (const resolve of waiting) {
+      resolve();
+    }
+  }
+}
+
+export const eventBus = new EventBus();
+export default eventBus;
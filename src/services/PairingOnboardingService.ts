@@ -0,0 +1,217 @@
+import type { WASocket } from '@whiskeysockets/baileys';
+
+import config from '../config';
+import logger from '../logger';
+import sessionManager from './SessionManager';
+import { normalizePhoneNumber } from '../utils/phoneNumber';
+import type { PairingOnboarding, SessionLifecycleEvent, SessionOptionsInput, SessionStatus } from '../types';
+
+// States that end an onboarding without a linked session
+const FAILED_STATES: readonly SessionStatus[] = ['logged_out', 'failed', 'stopped'];
+
+/**
+ * Error raised when an onboarding cannot be started; carries the HTTP status to answer with
+ */
+export class PairingOnboardingError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'PairingOnboardingError';
+  }
+}
+
+interface OnboardingFlow {
+  state: PairingOnboarding;
+  /** Socket the current code was requested on; a new socket means the previous code expired */
+  socket: WASocket | null;
+  requesting: boolean;
+  unsubscribe: () => void;
+  onChange: Set<() => void>;
+}
+
+/**
+ * Pairing-code login in a single call: starts the session, requests the code once the socket is ready
+ * for login (first QR event), and requests a new one whenever the connection is recycled before the
+ * code was entered, up to PAIRING_CODE_MAX_ATTEMPTS.
+ */
+class PairingOnboardingService {
+  private flows: Map<string, OnboardingFlow> = new Map();
+
+  get(sessionId: string): PairingOnboarding | undefined {
+    const flow = this.flows.get(sessionId);
+    return flow ? { ...flow.state } : undefined;
+  }
+
+  /**
+   * Start onboarding and resolve once the first pairing code is issued (or the flow already ended)
+   */
+  async start(sessionId: string, rawPhoneNumber: unknown, options?: SessionOptionsInput): Promise<PairingOnboarding> {
+    const { phoneNumber, error } = normalizePhoneNumber(rawPhoneNumber);
+    if (!phoneNumber) {
+      throw new PairingOnboardingError(error || 'Invalid phone number', 400, 'validation_error');
+    }
+
+    if (sessionManager.isConnected(sessionId)) {
+      throw new PairingOnboardingError(`Session is already connected: ${sessionId}`, 409, 'session_connected');
+    }
+
+    this.flows.get(sessionId)?.unsubscribe();
+
+    const flow: OnboardingFlow = {
+      state: {
+        sessionId,
+        phoneNumber,
+        status: 'waiting_code',
+        code: null,
+        attempts: 0,
+        maxAttempts: config.pairingCodeMaxAttempts,
+        startedAt: new Date().toISOString(),
+        codeIssuedAt: null,
+        finishedAt: null,
+        error: null,
+      },
+      socket: null,
+      requesting: false,
+      unsubscribe: () => undefined,
+      onChange: new Set(),
+    };
+
+    flow.unsubscribe = sessionManager.subscribe(sessionId, (event) => this.handleEvent(flow, event));
+    this.flows.set(sessionId, flow);
+
+    logger.info({ sessionId, phoneNumber }, 'Starting pairing code onboarding');
+
+    try {
+      // (re)starting gives a fresh socket, so the code is requested at the start of the handshake
+      await sessionManager.startSession(sessionId, options);
+    } catch (err) {
+      this.finish(flow, 'failed', err instanceof Error ? err.message : 'Failed to start session');
+      throw err;
+    }
+
+    if (sessionManager.getSession(sessionId)?.socket.authState.creds.registered) {
+      this.finish(flow, 'failed', 'Session is already linked');
+      throw new PairingOnboardingError(
+        `Session is already linked: ${sessionId}. Terminate it first to link another number`,
+        409,
+        'session_linked'
+      );
+    }
+
+    const session = sessionManager.getSession(sessionId);
+    if (session?.qr) {
+      void this.requestCode(flow);
+    }
+
+    if (!(await this.waitForCode(flow, config.pairingCodeTimeout))) {
+      throw new PairingOnboardingError(
+        `No pairing code within ${config.pairingCodeTimeout}ms, the session keeps trying`,
+        504,
+        'pairing_code_timeout'
+      );
+    }
+
+    return { ...flow.state };
+  }
+
+  private handleEvent(flow: OnboardingFlow, event: SessionLifecycleEvent): void {
+    if (event.type === 'qr') {
+      void this.requestCode(flow);
+      return;
+    }
+
+    if (event.type !== 'state') {
+      return;
+    }
+
+    if (event.status === 'connected') {
+      this.finish(flow, 'connected');
+    } else if (FAILED_STATES.includes(event.status)) {
+      this.finish(flow, 'failed', flow.state.error || `Session ${event.status}`);
+    }
+  }
+
+  private async requestCode(flow: OnboardingFlow): Promise<void> {
+    const { sessionId, phoneNumber } = flow.state;
+    const session = sessionManager.getSession(sessionId);
+    if (!session || flow.requesting || flow.socket === session.socket || flow.state.finishedAt) {
+      return;
+    }
+
+    if (flow.state.attempts >= flow.state.maxAttempts) {
+      flow.state.error = `Pairing code expired ${flow.state.attempts} times without being entered`;
+      logger.warn({ sessionId, attempts: flow.state.attempts }, 'Giving up pairing code onboarding');
+      this.finish(flow, 'failed', flow.state.error);
+      await sessionManager.stopSession(sessionId);
+      return;
+    }
+
+    flow.requesting = true;
+    flow.socket = session.socket;
+    flow.state.attempts += 1;
+
+    try {
+      const code = await sessionManager.requestPairingCode(sessionId, phoneNumber);
+      if (code && !flow.state.finishedAt) {
+        flow.state.code = code;
+        flow.state.status = 'code_issued';
+        flow.state.codeIssuedAt = new Date().toISOString();
+        flow.state.error = null;
+        logger.info({ sessionId, attempt: flow.state.attempts }, 'Pairing code issued');
+      }
+    } catch (error) {
+      // retried on the next socket
+      flow.state.error = error instanceof Error ? error.message : String(error);
+      logger.warn({ sessionId, attempt: flow.state.attempts, error: flow.state.error }, 'Pairing code request failed');
+    } finally {
+      flow.requesting = false;
+      this.notify(flow);
+    }
+  }
+
+  private finish(flow: OnboardingFlow, status: 'connected' | 'failed', error: string | null = null): void {
+    if (flow.state.finishedAt) {
+      return;
+    }
+
+    flow.state.status = status;
+    flow.state.error = error;
+    flow.state.finishedAt = new Date().toISOString();
+    flow.unsubscribe();
+
+    logger.info({ sessionId: flow.state.sessionId, status, error }, 'Pairing code onboarding finished');
+    this.notify(flow);
+  }
+
+  private waitForCode(flow: OnboardingFlow, timeoutMs: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const check = () => {
+        if (flow.state.status !== 'waiting_code') {
+          clearTimeout(timer);
+          flow.onChange.delete(check);
+          resolve(true);
+        }
+      };
+
+      const timer = setTimeout(() => {
+        flow.onChange.delete(check);
+        resolve(false);
+      }, timeoutMs);
+
+      flow.onChange.add(check);
+      check();
+    });
+  }
+
+  private notify(flow: OnboardingFlow): void {
+    for (const listener of [...flow.onChange]) {
+      listener();
+    }
+  }
+}
+
+export const pairingOnboardingService = new PairingOnboardingService();
+export default pairingOnboardingService;
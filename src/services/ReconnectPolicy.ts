@@ -0,0 +1,168 @@
+import { DisconnectReason } from '@whiskeysockets/baileys';
+
+import config from '../config';
+import type { ReconnectMode, ReconnectPolicyState } from '../types';
+
+export type ReconnectAction = 'reconnect' | 'stop' | 'logout';
+
+export interface ReconnectDecision {
+  action: ReconnectAction;
+  /** Delay before reconnecting (only for `reconnect`) */
+  delayMs: number;
+  /** Disconnect reason name, e.g. `timedOut` */
+  reason: string;
+}
+
+// Consecutive badSession disconnects tolerated before giving up, the auth state is most likely corrupt
+const BAD_SESSION_MAX_ATTEMPTS = 3;
+
+const REASON_NAMES: Record<number, string> = {
+  [DisconnectReason.connectionClosed]: 'connectionClosed',
+  [DisconnectReason.timedOut]: 'timedOut',
+  [DisconnectReason.connectionReplaced]: 'connectionReplaced',
+  [DisconnectReason.loggedOut]: 'loggedOut',
+  [DisconnectReason.badSession]: 'badSession',
+  [DisconnectReason.restartRequired]: 'restartRequired',
+  [DisconnectReason.multideviceMismatch]: 'multideviceMismatch',
+  [DisconnectReason.forbidden]: 'forbidden',
+  [DisconnectReason.unavailableService]: 'unavailableService',
+};
+
+export function describeDisconnectReason(statusCode?: number): string {
+  if (statusCode === undefined) {
+    return 'unknown';
+  }
+
+  return REASON_NAMES[statusCode] || `status_${statusCode}`;
+}
+
+/**
+ * Reconnect decisions for one session, kept across socket instances.
+ *
+ * - restartRequired: reconnect immediately (expected after pairing), not counted as a failure
+ * - loggedOut: log out and delete auth
+ * - connectionReplaced / multideviceMismatch / forbidden: stop, reconnecting would not help
+ * - badSession: backoff, stop after BAD_SESSION_MAX_ATTEMPTS in a row
+ * - everything else (timedOut, connectionClosed, ...): exponential backoff with jitter, capped at
+ *   RECONNECT_MAX_DELAY; after MAX_RECONNECT_RETRIES switch to cool-down and keep retrying every
+ *   RECONNECT_COOLDOWN_INTERVAL (or stop when cool-down is disabled)
+ */
+export class ReconnectPolicy {
+  private attempt = 0;
+  private badSessionCount = 0;
+  private mode: ReconnectMode = 'idle';
+  private lastReason: string | null = null;
+  private lastStatusCode: number | null = null;
+  private lastDisconnectAt: number | null = null;
+  private nextRetryAt: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  onDisconnect(statusCode?: number, reason: string = describeDisconnectReason(statusCode)): ReconnectDecision {
+    this.lastReason = reason;
+    this.lastStatusCode = statusCode ?? null;
+    this.lastDisconnectAt = Date.now();
+
+    switch (statusCode) {
+      case DisconnectReason.loggedOut:
+        return this.stop('logout', reason);
+
+      case DisconnectReason.connectionReplaced:
+      case DisconnectReason.multideviceMismatch:
+      case DisconnectReason.forbidden:
+        return this.stop('stop', reason);
+
+      case DisconnectReason.restartRequired:
+        this.mode = 'backoff';
+        return { action: 'reconnect', delayMs: 0, reason };
+
+      case DisconnectReason.badSession:
+        this.badSessionCount += 1;
+        if (this.badSessionCount >= BAD_SESSION_MAX_ATTEMPTS) {
+          return this.stop('stop', reason);
+        }
+        return this.backoff(reason);
+
+      default:
+        return this.backoff(reason);
+    }
+  }
+
+  /**
+   * Run `task` after the decision's delay, replacing any pending retry
+   */
+  schedule(decision: ReconnectDecision, task: () => void): void {
+    this.cancel();
+    this.nextRetryAt = Date.now() + decision.delayMs;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.nextRetryAt = null;
+      task();
+    }, decision.delayMs);
+  }
+
+  onConnected(): void {
+    this.reset();
+  }
+
+  /**
+   * Drop a pending retry and start counting failures from scratch, e.g. when the session is started by hand
+   */
+  reset(): void {
+    this.cancel();
+    this.attempt = 0;
+    this.badSessionCount = 0;
+    this.mode = 'idle';
+  }
+
+  /**
+   * Drop a pending retry without touching the attempt counters
+   */
+  cancel(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.nextRetryAt = null;
+  }
+
+  getState(): ReconnectPolicyState {
+    return {
+      mode: this.mode,
+      attempt: this.attempt,
+      lastReason: this.lastReason,
+      lastStatusCode: this.lastStatusCode,
+      lastDisconnectAt: this.lastDisconnectAt ? new Date(this.lastDisconnectAt).toISOString() : null,
+      nextRetryAt: this.nextRetryAt ? new Date(this.nextRetryAt).toISOString() : null,
+    };
+  }
+
+  private backoff(reason: string): ReconnectDecision {
+    this.attempt += 1;
+
+    if (this.attempt <= config.maxReconnectRetries) {
+      this.mode = 'backoff';
+      const exponential = config.reconnectInterval * 2 ** (this.attempt - 1);
+      return { action: 'reconnect', delayMs: this.withJitter(Math.min(exponential, config.reconnectMaxDelay)), reason };
+    }
+
+    if (config.reconnectCooldownInterval > 0) {
+      this.mode = 'cooldown';
+      return { action: 'reconnect', delayMs: this.withJitter(config.reconnectCooldownInterval), reason };
+    }
+
+    return this.stop('stop', reason);
+  }
+
+  private stop(action: Exclude<ReconnectAction, 'reconnect'>, reason: string): ReconnectDecision {
+    this.cancel();
+    this.mode = 'stopped';
+    return { action, delayMs: 0, reason };
+  }
+
+  private withJitter(delayMs: number): number {
+    const spread = delayMs * config.reconnectJitter;
+    return Math.max(0, Math.round(delayMs - spread + Math.random() * spread * 2));
+  }
+}
+
+export default ReconnectPolicy;
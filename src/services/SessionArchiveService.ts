@@ -0,0 +1,333 @@
+import { BufferJSON } from '@whiskeysockets/baileys';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import zlib from 'zlib';
+
+import config, { getSessionPath } from '../config';
+import logger from '../logger';
+import authStateStore from './authState';
+import { CREDS_KEY, isAuthStateKey } from './authState/keyValueAuthState';
+import encryptionService from './EncryptionService';
+import { createSessionStore, STORE_JSON_FILE, STORE_SQLITE_FILE } from './store';
+import { rewriteStoreData } from './store/SqliteSessionStore';
+import { encodeStoreJson, writeFileAtomic } from './store/storeUtils';
+import sessionManager from './SessionManager';
+import sessionRegistry from './SessionRegistry';
+import type { SessionArchiveSummary, StoreSnapshot } from '../types';
+
+const ARCHIVE_FORMAT = 'baileys-api-session';
+const ARCHIVE_VERSION = 1;
+
+// Encrypted archives: MAGIC | salt | iv | AES-256-GCM(gzip archive) | auth tag
+const ENCRYPTED_MAGIC = Buffer.from('BAPIENC1');
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const SQLITE_HEADER = Buffer.from('SQLite format 3\0');
+
+interface SessionArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: typeof ARCHIVE_VERSION;
+  sessionId: string;
+  exportedAt: string;
+  authState: Record<string, string>;
+  store: { file: string; data: string } | null;
+}
+
+/**
+ * Error raised for archives that cannot be exported or imported; carries the HTTP status to answer with
+ */
+export class SessionArchiveError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'SessionArchiveError';
+  }
+}
+
+class SessionArchiveService {
+  /**
+   * Build a (optionally password-encrypted) gzip archive of a session's auth state and store
+   */
+  async createExportStream(sessionId: string, password?: string): Promise<Readable> {
+    // archives carry plaintext auth state and store so they can be restored on a host with another master key
+    const authState = Object.fromEntries(
+      Object.entries(await authStateStore.exportSession(sessionId)).map(([key, value]) => [
+        key,
+        encryptionService.decryptString(value),
+      ])
+    );
+    if (!authState[CREDS_KEY]) {
+      throw new SessionArchiveError(`Session not found: ${sessionId}`, 404, 'session_not_found');
+    }
+
+    const snapshot = this.snapshotStore(sessionId);
+    const archive: SessionArchive = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      sessionId,
+      exportedAt: new Date().toISOString(),
+      authState,
+      store: snapshot ? { file: snapshot.file, data: snapshot.data.toString('base64') } : null,
+    };
+
+    logger.info(
+      { sessionId, keys: Object.keys(authState).length, store: snapshot?.file || null, encrypted: !!password },
+      'Exporting session archive'
+    );
+
+    const gzipped = Readable.from([Buffer.from(JSON.stringify(archive))]).pipe(zlib.createGzip());
+    return password ? gzipped.pipe(this.createEncryptStream(password)) : gzipped;
+  }
+
+  getArchiveFileName(sessionId: string, encrypted: boolean): string {
+    return `session-${sessionId}.json.gz${encrypted ? '.enc' : ''}`;
+  }
+
+  /**
+   * Validate an archive and restore it as `sessionId`. Nothing under SESSIONS_PATH is touched
+   * until the archive has been fully decoded and checked.
+   */
+  async importArchive(
+    sessionId: string,
+    data: Buffer,
+    options: { password?: string; force?: boolean } = {}
+  ): Promise<SessionArchiveSummary> {
+    const archive = this.parseArchive(data, options.password);
+    const storeFile = archive.store ? this.encodeStore(archive.store) : null;
+
+    if (sessionManager.hasSession(sessionId)) {
+      if (!options.force) {
+        throw new SessionArchiveError(
+          `Session is running: ${sessionId}. Stop it first or import with force=true`,
+          409,
+          'session_running'
+        );
+      }
+
+      await sessionManager.stopSession(sessionId);
+    }
+
+    const sessionPath = getSessionPath(sessionId);
+    await authStateStore.removeSession(sessionId);
+    fs.rmSync(sessionPath, { recursive: true, force: true });
+    fs.mkdirSync(sessionPath, { recursive: true });
+
+    await authStateStore.importSession(
+      sessionId,
+      Object.fromEntries(
+        Object.entries(archive.authState).map(([key, value]) => [key, encryptionService.encryptString(value)])
+      )
+    );
+
+    if (archive.store && storeFile) {
+      if (archive.store.file === STORE_SQLITE_FILE && config.storeBackend !== 'sqlite') {
+        logger.warn({ sessionId }, 'Archive contains a SQLite store but STORE_BACKEND is not sqlite; it will not be loaded');
+      }
+
+      writeFileAtomic(path.join(sessionPath, archive.store.file), storeFile);
+    }
+
+    sessionRegistry.ensure(sessionId);
+
+    logger.info(
+      { sessionId, sourceSessionId: archive.sessionId, keys: Object.keys(archive.authState).length },
+      'Session archive imported'
+    );
+
+    return {
+      sessionId,
+      sourceSessionId: archive.sessionId,
+      exportedAt: archive.exportedAt,
+      authKeys: Object.keys(archive.authState).length,
+      store: archive.store?.file || null,
+    };
+  }
+
+  /**
+   * Store file content as written to disk: archives carry the store in plaintext, it is encrypted with
+   * this host's key. Values of older archives that were exported encrypted are decrypted first.
+   */
+  private encodeStore(store: NonNullable<SessionArchive['store']>): Buffer {
+    const data = Buffer.from(store.data, 'base64');
+    if (store.file === STORE_JSON_FILE) {
+      return encodeStoreJson(JSON.parse(data.toString('utf-8')));
+    }
+
+    try {
+      return rewriteStoreData(data, (value) => encryptionService.encryptString(encryptionService.decryptString(value)));
+    } catch (error) {
+      throw new SessionArchiveError(
+        `Archive store cannot be read: ${error instanceof Error ? error.message : String(error)}`,
+        400,
+        'invalid_archive'
+      );
+    }
+  }
+
+  private snapshotStore(sessionId: string): StoreSnapshot | null {
+    const running = sessionManager.getSession(sessionId);
+    if (running) {
+      return running.store.snapshot();
+    }
+
+    const sessionPath = getSessionPath(sessionId);
+    if (![STORE_SQLITE_FILE, STORE_JSON_FILE].some((file) => fs.existsSync(path.join(sessionPath, file)))) {
+      return null;
+    }
+
+    const store = createSessionStore(sessionId);
+    try {
+      return store.snapshot();
+    } finally {
+      store.close();
+    }
+  }
+
+  private parseArchive(data: Buffer, password?: string): SessionArchive {
+    if (!data || data.length === 0) {
+      throw new SessionArchiveError('Archive is empty', 400, 'invalid_archive');
+    }
+
+    let gzipped = data;
+    if (data.subarray(0, ENCRYPTED_MAGIC.length).equals(ENCRYPTED_MAGIC)) {
+      if (!password) {
+        throw new SessionArchiveError('Archive is encrypted, a password is required', 400, 'archive_password_required');
+      }
+
+      gzipped = this.decrypt(data, password);
+    }
+
+    let archive: SessionArchive;
+    try {
+      archive = JSON.parse(zlib.gunzipSync(gzipped).toString('utf-8'));
+    } catch {
+      throw new SessionArchiveError('Archive is not a valid session archive', 400, 'invalid_archive');
+    }
+
+    this.validateArchive(archive);
+    return archive;
+  }
+
+  private validateArchive(archive: SessionArchive): void {
+    const invalid = (reason: string): never => {
+      throw new SessionArchiveError(`Invalid session archive: ${reason}`, 400, 'invalid_archive');
+    };
+
+    if (!archive || typeof archive !== 'object' || archive.format !== ARCHIVE_FORMAT) {
+      invalid('unknown format');
+    }
+
+    if (archive.version !== ARCHIVE_VERSION) {
+      invalid(`unsupported version ${String(archive.version)}`);
+    }
+
+    if (!archive.authState || typeof archive.authState !== 'object') {
+      invalid('missing auth state');
+    }
+
+    for (const [key, value] of Object.entries(archive.authState)) {
+      if (!isAuthStateKey(key) || typeof value !== 'string') {
+        invalid(`unexpected auth state entry "${key}"`);
+      }
+    }
+
+    const credsRaw = archive.authState[CREDS_KEY];
+    if (!credsRaw) {
+      invalid('missing creds');
+    }
+
+    try {
+      const creds = JSON.parse(credsRaw, BufferJSON.reviver);
+      if (!creds?.noiseKey || !creds?.signedIdentityKey || typeof creds?.registrationId !== 'number') {
+        invalid('creds are incomplete');
+      }
+    } catch (error) {
+      if (error instanceof SessionArchiveError) {
+        throw error;
+      }
+      invalid('creds are not valid JSON');
+    }
+
+    if (archive.store === null || archive.store === undefined) {
+      archive.store = null;
+      return;
+    }
+
+    const { file, data } = archive.store;
+    if (file !== STORE_SQLITE_FILE && file !== STORE_JSON_FILE) {
+      invalid(`unexpected store file "${String(file)}"`);
+    }
+
+    if (typeof data !== 'string') {
+      invalid('store data is missing');
+    }
+
+    const content = Buffer.from(data, 'base64');
+    if (file === STORE_SQLITE_FILE && !content.subarray(0, SQLITE_HEADER.length).equals(SQLITE_HEADER)) {
+      invalid('store is not a SQLite database');
+    }
+
+    if (file === STORE_JSON_FILE) {
+      try {
+        JSON.parse(content.toString('utf-8'));
+      } catch {
+        invalid('store is not valid JSON');
+      }
+    }
+  }
+
+  private createEncryptStream(password: string): Transform {
+    const salt = randomBytes(SALT_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', scryptSync(password, salt, 32), iv);
+    let headerWritten = false;
+
+    const writeHeader = (stream: Transform) => {
+      if (!headerWritten) {
+        stream.push(Buffer.concat([ENCRYPTED_MAGIC, salt, iv]));
+        headerWritten = true;
+      }
+    };
+
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        writeHeader(this);
+        callback(null, cipher.update(chunk));
+      },
+      flush(callback) {
+        writeHeader(this);
+        this.push(cipher.final());
+        callback(null, cipher.getAuthTag());
+      },
+    });
+  }
+
+  private decrypt(data: Buffer, password: string): Buffer {
+    const headerLength = ENCRYPTED_MAGIC.length + SALT_LENGTH + IV_LENGTH;
+    if (data.length < headerLength + AUTH_TAG_LENGTH) {
+      throw new SessionArchiveError('Encrypted archive is truncated', 400, 'invalid_archive');
+    }
+
+    const salt = data.subarray(ENCRYPTED_MAGIC.length, ENCRYPTED_MAGIC.length + SALT_LENGTH);
+    const iv = data.subarray(ENCRYPTED_MAGIC.length + SALT_LENGTH, headerLength);
+    const ciphertext = data.subarray(headerLength, data.length - AUTH_TAG_LENGTH);
+    const authTag = data.subarray(data.length - AUTH_TAG_LENGTH);
+
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', scryptSync(password, salt, 32), iv);
+      decipher.setAuthTag(authTag);
+      return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    } catch {
+      throw new SessionArchiveError('Wrong password or corrupted archive', 400, 'invalid_archive_password');
+    }
+  }
+}
+
+export const sessionArchiveService = new SessionArchiveService();
+export default sessionArchiveService;
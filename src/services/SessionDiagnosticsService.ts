@@ -0,0 +1,118 @@
+import { S_WHATSAPP_NET } from '@whiskeysockets/baileys';
+
+import logger from '../logger';
+import eventBus from './EventBus';
+import sessionHistory from './SessionHistory';
+import sessionManager from './SessionManager';
+import webhookService from './WebhookService';
+import type { SessionDiagnostics, SessionProbeResult } from '../types';
+
+// Chats listed in store.largestChats
+const LARGEST_CHATS_LIMIT = 10;
+
+const PROBE_TIMEOUT_MS = 10000;
+
+// Rough in-memory cost of one messageKeyIndex entry (message ID + WAMessageKey)
+const KEY_INDEX_ENTRY_BYTES = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toIso(epochMs: number | null): string | null {
+  return epochMs ? new Date(epochMs).toISOString() : null;
+}
+
+class SessionDiagnosticsService {
+  /**
+   * Collect runtime details of a running session; with `probe`, also round-trip a ping to WhatsApp
+   */
+  async collect(sessionId: string, options: { probe?: boolean } = {}): Promise<SessionDiagnostics | null> {
+    const session = sessionManager.getSession(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    const history = sessionHistory.list(sessionId);
+    const reconnects = history.filter((entry) => entry.to === 'reconnecting');
+    const lastDisconnect = [...history].reverse().find((entry) => entry.statusCode !== null);
+    const stats = session.store.getStats(LARGEST_CHATS_LIMIT);
+    const memory = process.memoryUsage();
+
+    const diagnostics: SessionDiagnostics = {
+      sessionId,
+      status: session.status,
+      socket: {
+        websocketOpen: session.socket.ws.isOpen,
+        startedAt: new Date(session.startedAt).toISOString(),
+        connectedAt: toIso(session.connectedAt),
+        uptimeSeconds:
+          session.status === 'connected' && session.connectedAt
+            ? Math.floor((Date.now() - session.connectedAt) / 1000)
+            : null,
+      },
+      messages: {
+        lastInboundAt: toIso(session.lastInboundAt),
+        lastOutboundAt: toIso(session.lastOutboundAt),
+      },
+      reconnect: sessionManager.getReconnectState(sessionId),
+      reconnects: {
+        total: reconnects.length,
+        last24h: reconnects.filter((entry) => Date.parse(entry.at) >= Date.now() - DAY_MS).length,
+      },
+      lastDisconnect: lastDisconnect
+        ? { at: lastDisconnect.at, reason: lastDisconnect.reason, statusCode: lastDisconnect.statusCode }
+        : null,
+      store: {
+        backend: session.store.backend,
+        ...stats,
+        messageKeyIndex: session.messageKeyIndex.size,
+        pendingPersist: sessionManager.hasPendingStorePersist(sessionId),
+      },
+      events: { pending: eventBus.getPendingCount(sessionId) },
+      webhooks: { backlog: webhookService.getBacklog(sessionId) },
+      memory: {
+        processRssBytes: memory.rss,
+        processHeapUsedBytes: memory.heapUsed,
+        // the sqlite store lives on disk, the memory store is held entirely in the heap
+        approximateSessionBytes:
+          session.messageKeyIndex.size * KEY_INDEX_ENTRY_BYTES + (session.store.backend === 'memory' ? stats.sizeBytes : 0),
+      },
+    };
+
+    if (options.probe) {
+      diagnostics.probe = await this.probe(sessionId);
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Send the same ping query Baileys uses for keep-alives and time the answer
+   */
+  private async probe(sessionId: string): Promise<SessionProbeResult> {
+    const session = sessionManager.getSession(sessionId);
+    if (!session || session.status !== 'connected') {
+      return { ok: false, latencyMs: null, error: 'Session is not connected' };
+    }
+
+    const startedAt = Date.now();
+    try {
+      await session.socket.query(
+        {
+          tag: 'iq',
+          attrs: { to: S_WHATSAPP_NET, type: 'get', xmlns: 'w:p' },
+          content: [{ tag: 'ping', attrs: {} }],
+        },
+        PROBE_TIMEOUT_MS
+      );
+
+      return { ok: true, latencyMs: Date.now() - startedAt };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn({ sessionId, error: errorMessage }, 'Session probe failed');
+      return { ok: false, latencyMs: null, error: errorMessage };
+    }
+  }
+}
+
+export const sessionDiagnosticsService = new SessionDiagnosticsService();
+export default sessionDiagnosticsService;
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+
+import config from '../config';
+import logger from '../logger';
+import encryptionService from './EncryptionService';
+import { writeFileAtomic } from './store/storeUtils';
+import type { SessionHistoryEntry } from '../types';
+
+/**
+ * Persisted timeline of session state transitions, one append-only JSON-lines file per session.
+ * Lines are encrypted individually when a master key is set. Kept after a session is terminated,
+ * so a logout can still be looked up afterwards.
+ */
+class SessionHistory {
+  private lineCounts: Map<string, number> = new Map();
+
+  append(sessionId: string, entry: SessionHistoryEntry): void {
+    const filePath = this.getFilePath(sessionId);
+
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.appendFileSync(filePath, `${encryptionService.encryptString(JSON.stringify(entry))}\n`);
+
+      const count = (this.lineCounts.get(sessionId) ?? this.readLines(sessionId).length - 1) + 1;
+      this.lineCounts.set(sessionId, count);
+
+      // trimmed in batches so the file is not rewritten on every transition
+      if (count >= config.sessionHistoryLimit * 2) {
+        this.writeLines(sessionId, this.readLines(sessionId).slice(-config.sessionHistoryLimit));
+      }
+    } catch (error) {
+      logger.error({ sessionId, error }, 'Failed to write session history');
+    }
+  }
+
+  /**
+   * Transitions in chronological order, at most `limit` of the most recent ones
+   */
+  list(sessionId: string, limit: number = config.sessionHistoryLimit): SessionHistoryEntry[] {
+    return this.readLines(sessionId)
+      .slice(-Math.min(limit, config.sessionHistoryLimit))
+      .map((line) => JSON.parse(encryptionService.decryptString(line)) as SessionHistoryEntry);
+  }
+
+  has(sessionId: string): boolean {
+    return fs.existsSync(this.getFilePath(sessionId));
+  }
+
+  /**
+   * Rewrite every history file with the current encryption key
+   */
+  reencrypt(): void {
+    if (!fs.existsSync(config.sessionHistoryPath)) {
+      return;
+    }
+
+    for (const file of fs.readdirSync(config.sessionHistoryPath)) {
+      if (!file.endsWith('.jsonl')) {
+        continue;
+      }
+
+      const sessionId = file.slice(0, -'.jsonl'.length);
+      this.writeLines(
+        sessionId,
+        this.readLines(sessionId).map((line) =>
+          encryptionService.needsRotation(line) ? encryptionService.encryptString(encryptionService.decryptString(line)) : line
+        )
+      );
+    }
+  }
+
+  private readLines(sessionId: string): string[] {
+    const filePath = this.getFilePath(sessionId);
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    return fs.readFileSync(filePath, 'utf-8').split('\n').filter(Boolean);
+  }
+
+  private writeLines(sessionId: string, lines: string[]): void {
+    writeFileAtomic(this.getFilePath(sessionId), Buffer.from(lines.map((line) => `${line}\n`).join('')));
+    this.lineCounts.set(sessionId, lines.length);
+  }
+
+  private getFilePath(sessionId: string): string {
+    return path.join(config.sessionHistoryPath, `${sessionId}.jsonl`);
+  }
+}
+
+export const sessionHistory = new SessionHistory();
+export default sessionHistory;
@@ -1,21 +1,30 @@
 import makeWASocket, {
-  useMultiFileAuthState,
-  DisconnectReason,
+  Browsers,
   fetchLatestBaileysVersion,
+  getKeyAuthor,
+  jidNormalizedUser,
   makeCacheableSignalKeyStore,
-  makeInMemoryStore,
+  normalizeMessageContent,
   WASocket,
   WAMessageKey,
   proto,
 } from '@whiskeysockets/baileys';
 import { Boom } from '@hapi/boom';
 import fs from 'fs';
-import path from 'path';
 import pino from 'pino';
 
 import config, { getSessionPath } from '../config';
 import logger from '../logger';
 import webhookService from './WebhookService';
+import authStateStore from './authState';
+import { createSessionStore } from './store';
+import { getEditedContent, getOriginalContent, isRevokeUpdate } from './store/storeUtils';
+import sessionRegistry from './SessionRegistry';
+import ReconnectPolicy, { type ReconnectDecision } from './ReconnectPolicy';
+import sessionHistory from './SessionHistory';
+import { canTransition } from './SessionStateMachine';
+import { hasRetentionLimits, resolveRetentionPolicy } from '../utils/sessionOptions';
+import { getPoll, getPollVoteFailure, getSelectedOptions, tallyPollVotes } from '../utils/polls';
 import {
   toWwebjsJid,
   toBaileysJid,
@@ -26,18 +35,50 @@ import {
 } from '../utils/jidHelper';
 import type {
   BaileysSession,
+  ReconnectPolicyState,
+  SessionLifecycleEvent,
+  SessionRetentionStatus,
+  StoreRetentionPolicy,
+  SessionOptionsInput,
   SessionStatus,
   ChatData,
   ContactData,
   MessageData,
+  MessageEditData,
+  PollVotesData,
   GroupMetadata,
   LabelData,
 } from '../types';
 
+// How often retention limits are enforced on running sessions
+const RETENTION_INTERVAL_MS = 10 * 60 * 1000;
+// Delay before enforcing count limits after new messages arrive, batching bursts
+const RETENTION_DEBOUNCE_MS = 5000;
+
+// How often connected sessions are checked for inactivity when hibernation is enabled
+const HIBERNATION_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Lifetime of QR codes emitted by Baileys: the first one lives longer than the ones that replace it
+const QR_INITIAL_TTL_MS = 60 * 1000;
+const QR_REFRESH_TTL_MS = 20 * 1000;
+
+// States in which waiting for a session to connect is pointless
+const SETTLED_STATES: readonly SessionStatus[] = ['stopped', 'logged_out', 'failed', 'hibernated'];
+
 class SessionManager {
   private sessions: Map<string, BaileysSession> = new Map();
   private storePersistTimeouts: Map<string, NodeJS.Timeout> = new Map();
-  private stoppingSessions: Set<string> = new Set();
+  private retentionTimers: Map<string, NodeJS.Timeout> = new Map();
+  private retentionTimeouts: Map<string, NodeJS.Timeout> = new Map();
+  private reconnectPolicies: Map<string, ReconnectPolicy> = new Map();
+  // Lifecycle state per session, kept after the session object is gone (stopped, logged_out, failed)
+  private states: Map<string, SessionStatus> = new Map();
+  private lastActivity: Map<string, number> = new Map();
+  // API requests per session that have not been answered yet; such sessions are never hibernated
+  private inFlightRequests: Map<string, number> = new Map();
+  private sessionListeners: Map<string, Set<(event: SessionLifecycleEvent) => void>> = new Map();
+  private wakingSessions: Map<string, Promise<boolean>> = new Map();
+  private hibernationTimer: NodeJS.Timeout | null = null;
 
   constructor() {
     if (!fs.existsSync(config.sessionsPath)) {
@@ -52,6 +93,25 @@ class SessionManager {
     return Array.from(this.sessions.keys());
   }
 
+  /**
+   * Get IDs of all sessions with persisted auth state (running or not)
+   */
+  async listStoredSessionIds(): Promise<string[]> {
+    try {
+      return await authStateStore.listSessionIds();
+    } catch (error) {
+      logger.error({ backend: authStateStore.backend, error }, 'Failed to list stored sessions');
+      return [];
+    }
+  }
+
+  /**
+   * Register sessions that have stored auth state but no registry record yet
+   */
+  async syncRegistry(): Promise<void> {
+    sessionRegistry.adopt(await this.listStoredSessionIds());
+  }
+
   /**
    * Get session by ID
    */
@@ -78,7 +138,99 @@ class SessionManager {
    * Get session status
    */
   getStatus(sessionId: string): SessionStatus | null {
-    return this.sessions.get(sessionId)?.status ?? null;
+    return this.states.get(sessionId) ?? null;
+  }
+
+  /**
+   * Check if session was hibernated after being idle
+   */
+  isHibernated(sessionId: string): boolean {
+    return this.states.get(sessionId) === 'hibernated';
+  }
+
+  /**
+   * Record API or message activity, postponing hibernation of the session
+   */
+  touch(sessionId: string): void {
+    this.lastActivity.set(sessionId, Date.now());
+  }
+
+  /**
+   * Count an API request using the session as in flight; the returned callback releases it (safe to call
+   * more than once) and counts as activity, so the idle time starts when the request ends
+   */
+  trackRequest(sessionId: string): () => void {
+    this.inFlightRequests.set(sessionId, (this.inFlightRequests.get(sessionId) ?? 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+
+      released = true;
+      const remaining = (this.inFlightRequests.get(sessionId) ?? 1) - 1;
+      if (remaining > 0) {
+        this.inFlightRequests.set(sessionId, remaining);
+      } else {
+        this.inFlightRequests.delete(sessionId);
+      }
+      this.touch(sessionId);
+    };
+  }
+
+  /**
+   * Listen to state changes, QR codes and pairing codes of a session; returns the unsubscribe function
+   */
+  subscribe(sessionId: string, listener: (event: SessionLifecycleEvent) => void): () => void {
+    const listeners = this.sessionListeners.get(sessionId) || new Set();
+    listeners.add(listener);
+    this.sessionListeners.set(sessionId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.sessionListeners.get(sessionId) === listeners) {
+        this.sessionListeners.delete(sessionId);
+      }
+    };
+  }
+
+  /**
+   * Check if a store snapshot is scheduled but not written yet
+   */
+  hasPendingStorePersist(sessionId: string): boolean {
+    return this.storePersistTimeouts.has(sessionId);
+  }
+
+  /**
+   * Get reconnect policy state (attempt, next retry, last disconnect reason) for session
+   */
+  getReconnectState(sessionId: string): ReconnectPolicyState | null {
+    return this.reconnectPolicies.get(sessionId)?.getState() ?? null;
+  }
+
+  /**
+   * Effective retention policy of a running session and how much of the store it currently uses
+   */
+  getRetentionStatus(sessionId: string): SessionRetentionStatus | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    const usage = session.store.getMessageUsage();
+
+    return {
+      policy: this.getRetentionPolicy(sessionId, session),
+      usage: {
+        messages: usage.messages,
+        chats: usage.chats,
+        oldestMessageAt: usage.oldestTimestamp ? new Date(usage.oldestTimestamp * 1000).toISOString() : null,
+        messageKeyIndex: session.messageKeyIndex.size,
+        pruned: session.prunedMessages,
+        lastPrunedAt: session.lastPrunedAt ? new Date(session.lastPrunedAt).toISOString() : null,
+      },
+    };
   }
 
   /**
@@ -98,37 +250,45 @@ class SessionManager {
   /**
    * Start a new session
    */
-  async startSession(sessionId: string): Promise<BaileysSession> {
+  async startSession(sessionId: string, options?: SessionOptionsInput): Promise<BaileysSession> {
+    // a start from outside the reconnect policy replaces its pending retry, which would tear this session down
+    this.reconnectPolicies.get(sessionId)?.reset();
+
+    return this.openSession(sessionId, options);
+  }
+
+  /**
+   * Start the socket of a session; retries of the reconnect policy call this directly, keeping its attempt count
+   */
+  private async openSession(sessionId: string, options?: SessionOptionsInput): Promise<BaileysSession> {
+    // Options are persisted first so they also apply to later restarts and reconnects
+    const record = options ? sessionRegistry.upsert(sessionId, { options }) : sessionRegistry.ensure(sessionId);
+
     if (this.sessions.has(sessionId)) {
       const existing = this.sessions.get(sessionId)!;
       if (existing.status === 'connected') {
         logger.info({ sessionId }, 'Session already connected');
+        if (options?.retention) {
+          this.applyRetention(sessionId);
+        }
         return existing;
       }
-      await this.stopSession(sessionId);
+      await this.teardownSession(sessionId);
     }
 
-    logger.info({ sessionId }, 'Starting new session');
+    const sessionOptions = record.options;
+    logger.info({ sessionId, options: sessionOptions }, 'Starting new session');
 
     const sessionPath = getSessionPath(sessionId);
     fs.mkdirSync(sessionPath, { recursive: true });
 
-    const { state, saveCreds } = await useMultiFileAuthState(sessionPath);
+    const { state, saveCreds } = await authStateStore.useAuthState(sessionId);
 
     const { version, isLatest } = await fetchLatestBaileysVersion();
     logger.info({ version, isLatest }, 'Using Baileys version');
 
     const silentLogger = pino({ level: 'silent' });
-    const store = makeInMemoryStore({ logger: silentLogger });
-    const storePath = path.join(sessionPath, 'store.json');
-
-    if (fs.existsSync(storePath)) {
-      try {
-        store.readFromFile(storePath);
-      } catch (error) {
-        logger.warn({ sessionId, error }, 'Failed to load session store file');
-      }
-    }
+    const store = createSessionStore(sessionId);
 
     const socket = makeWASocket({
       version,
@@ -141,35 +301,56 @@ class SessionManager {
           return undefined;
         }
 
-        const stored = await store.loadMessage(key.remoteJid, key.id).catch(() => undefined);
-        return stored?.message || undefined;
+        return getOriginalContent(store, key.remoteJid, key.id);
       },
-      cachedGroupMetadata: async (jid: string) => store.groupMetadata[jid],
+      cachedGroupMetadata: async (jid: string) => store.getGroupMetadata(jid),
       printQRInTerminal: false,
       logger: silentLogger,
-      generateHighQualityLinkPreview: true,
-      syncFullHistory: true,
-      markOnlineOnConnect: true,
+      generateHighQualityLinkPreview: sessionOptions.linkPreview === 'high',
+      syncFullHistory: sessionOptions.historySync === 'full',
+      markOnlineOnConnect: sessionOptions.markOnlineOnConnect,
+      ...(sessionOptions.historySync === 'none' ? { shouldSyncHistoryMessage: () => false } : {}),
+      ...(sessionOptions.browser
+        ? { browser: Browsers[sessionOptions.browser.platform](sessionOptions.browser.name) }
+        : {}),
     });
 
     const session: BaileysSession = {
       socket,
       store,
-      storePath,
       messageKeyIndex: new Map<string, WAMessageKey>(),
       qr: null,
+      qrExpiresAt: null,
       pairingCode: null,
       status: 'connecting',
+      options: sessionOptions,
       saveCreds,
-      reconnectAttempts: 0,
+      startedAt: Date.now(),
+      connectedAt: null,
+      lastInboundAt: null,
+      lastOutboundAt: null,
+      prunedMessages: 0,
+      lastPrunedAt: null,
+      stopping: false,
     };
 
     this.sessions.set(sessionId, session);
+    this.transition(sessionId, 'connecting');
 
+    this.setupDeleteForMeHandler(sessionId, socket, session);
     store.bind(socket.ev);
-    this.indexExistingMessages(sessionId);
+    if (store.backend === 'memory') {
+      this.indexExistingMessages(sessionId);
+    }
     this.setupEventHandlers(sessionId, socket, session);
 
+    // always scheduled: the policy can be changed in the registry while the session runs
+    this.applyRetention(sessionId);
+    this.retentionTimers.set(
+      sessionId,
+      setInterval(() => this.applyRetention(sessionId), RETENTION_INTERVAL_MS)
+    );
+
     return session;
   }
 
@@ -181,54 +362,61 @@ class SessionManager {
       const { connection, lastDisconnect, qr } = update;
 
       if (qr) {
+        session.qrExpiresAt = Date.now() + (session.qr ? QR_REFRESH_TTL_MS : QR_INITIAL_TTL_MS);
         session.qr = qr;
-        session.status = 'qr';
+        this.emitSessionEvent(sessionId, { type: 'qr', qr, expiresAt: session.qrExpiresAt });
+        // a pairing code request keeps the session in `pairing` while QR codes keep rotating
+        if (session.status !== 'pairing') {
+          this.transition(sessionId, 'qr');
+        }
         logger.info({ sessionId }, 'QR code generated');
         await webhookService.sendQr(sessionId, qr);
       }
 
       if (connection === 'close') {
-        const manualStop = this.stoppingSessions.has(sessionId);
+        const manualStop = session.stopping;
         const statusCode = (lastDisconnect?.error as Boom)?.output?.statusCode;
-        const shouldReconnect = !manualStop && statusCode !== DisconnectReason.loggedOut;
 
-        logger.info({ sessionId, statusCode, shouldReconnect, manualStop }, 'Connection closed');
+        logger.info({ sessionId, statusCode, manualStop }, 'Connection closed');
 
-        session.status = 'disconnected';
         session.qr = null;
+        session.qrExpiresAt = null;
         this.scheduleStorePersist(sessionId);
 
         if (manualStop) {
           return;
         }
 
-        if (shouldReconnect && session.reconnectAttempts < config.maxReconnectRetries) {
-          session.reconnectAttempts += 1;
-          logger.info({ sessionId, attempt: session.reconnectAttempts }, 'Attempting reconnection');
-          setTimeout(() => {
-            this.startSession(sessionId).catch((err: Error) => {
-              logger.error({ sessionId, error: err.message }, 'Reconnection failed');
-            });
-          }, config.reconnectInterval);
-        } else {
-          await webhookService.sendDisconnected(
-            sessionId,
-            statusCode === DisconnectReason.loggedOut ? 'logged_out' : 'connection_lost'
-          );
+        const decision = this.getReconnectPolicy(sessionId).onDisconnect(statusCode);
+        if (decision.action === 'reconnect') {
+          this.transition(sessionId, 'reconnecting', decision.reason, statusCode);
+          this.scheduleReconnect(sessionId, decision);
+          return;
+        }
 
-          if (statusCode === DisconnectReason.loggedOut) {
-            await this.terminateSession(sessionId);
-          }
+        logger.warn({ sessionId, statusCode, reason: decision.reason }, 'Not reconnecting session');
+
+        if (decision.action === 'logout') {
+          this.transition(sessionId, 'logged_out', decision.reason, statusCode);
+          await webhookService.sendDisconnected(sessionId, 'logged_out');
+          await this.terminateSession(sessionId);
+        } else {
+          this.transition(sessionId, 'failed', decision.reason, statusCode);
+          await webhookService.sendDisconnected(sessionId, this.toWebhookReason(decision.reason));
         }
       }
 
       if (connection === 'open') {
-        session.status = 'connected';
         session.qr = null;
-        session.reconnectAttempts = 0;
+        session.qrExpiresAt = null;
+        session.connectedAt = Date.now();
+        this.transition(sessionId, 'connected');
+        this.getReconnectPolicy(sessionId).onConnected();
         logger.info({ sessionId }, 'Session connected');
 
         const user = socket.user;
+        sessionRegistry.markConnected(sessionId, user ? getPhoneNumber(jidNormalizedUser(user.id)) : null);
+
         await webhookService.sendAuthenticated(sessionId);
         await webhookService.sendReady(sessionId, {
           id: user ? toWwebjsJid(user.id) : null,
@@ -243,32 +431,79 @@ class SessionManager {
       for (const message of messages || []) {
         this.registerMessageKey(sessionId, message.key);
       }
+      this.applyRetention(sessionId);
       this.scheduleStorePersist(sessionId);
     });
 
     socket.ev.on('messages.upsert', async ({ messages, type }) => {
+      if (type === 'notify') {
+        this.touch(sessionId);
+      }
+
+      for (const msg of messages) {
+        if (msg.key?.fromMe) {
+          session.lastOutboundAt = Date.now();
+        } else if (type === 'notify') {
+          session.lastInboundAt = Date.now();
+        }
+      }
+
+      this.scheduleRetention(sessionId);
+
       for (const msg of messages) {
         this.registerMessageKey(sessionId, msg.key);
+      }
+
+      // scheduled before publishing: a full event bus must not hold back persistence
+      this.scheduleStorePersist(sessionId);
+
+      if (type !== 'notify') {
+        return;
+      }
+
+      for (const msg of messages) {
+        // edits are reported by `message_edit` once applied to the edited message
+        if (normalizeMessageContent(msg.message)?.protocolMessage?.type === proto.Message.ProtocolMessage.Type.MESSAGE_EDIT) {
+          continue;
+        }
+
+        // votes are reported by `vote_update`, once decrypted and applied to the poll
+        if (normalizeMessageContent(msg.message)?.pollUpdateMessage) {
+          await this.reportUndecryptableVote(sessionId, session, msg);
+          continue;
+        }
 
         if (msg.key && msg.message) {
           const formattedMsg = this.formatMessage(msg, sessionId);
 
-          if (type === 'notify') {
-            await webhookService.sendMessageCreate(sessionId, formattedMsg);
-            if (!msg.key.fromMe) {
-              await webhookService.sendMessage(sessionId, formattedMsg);
-            }
+          await webhookService.sendMessageCreate(sessionId, formattedMsg);
+          if (!msg.key.fromMe) {
+            await webhookService.sendMessage(sessionId, formattedMsg);
           }
         }
       }
-
-      this.scheduleStorePersist(sessionId);
     });
 
     socket.ev.on('messages.update', async (updates) => {
       for (const update of updates) {
         this.registerMessageKey(sessionId, update.key);
 
+        if (isRevokeUpdate(update.update) && update.key.id && update.key.remoteJid) {
+          await this.emitRevokeEveryone(sessionId, session, update.key, update.update.key);
+          continue;
+        }
+
+        const edited = getEditedContent(update.update);
+        if (edited && update.key.id && update.key.remoteJid) {
+          await this.emitMessageEdit(sessionId, session, update.key, edited);
+          continue;
+        }
+
+        if (update.update.pollUpdates && update.key.id && update.key.remoteJid) {
+          await this.emitVoteUpdates(sessionId, session, update.key, update.update.pollUpdates);
+          continue;
+        }
+
         if (update.update.status !== undefined && update.key.id && update.key.remoteJid) {
           const ack = this.mapStatusToAck(update.update.status ?? undefined);
           await webhookService.sendMessageAck(
@@ -407,12 +642,172 @@ class SessionManager {
     });
   }
 
+  /**
+   * Emit `message_revoke_me` for messages deleted for me. Registered before the store is bound, which
+   * drops the messages as soon as it sees the event.
+   */
+  private setupDeleteForMeHandler(sessionId: string, socket: WASocket, session: BaileysSession): void {
+    socket.ev.on('messages.delete', async (item) => {
+      // clearing a whole chat is not reported message by message
+      if ('all' in item) {
+        return;
+      }
+
+      // looked up before the first await, while the store still has them
+      const deleted = item.keys
+        .map((key) => (key.remoteJid && key.id ? session.store.getMessage(jidNormalizedUser(key.remoteJid), key.id) : undefined))
+        .filter((message): message is proto.IWebMessageInfo => !!message?.key);
+
+      for (const message of deleted) {
+        await webhookService.sendMessageRevokeMe(sessionId, this.formatMessage(message, sessionId));
+      }
+    });
+  }
+
+  /**
+   * Emit `message_revoke_everyone` with the revoke notification and the original message, which the
+   * store keeps flagged as revoked (null when it was never stored)
+   */
+  private async emitRevokeEveryone(
+    sessionId: string,
+    session: BaileysSession,
+    key: WAMessageKey,
+    revokeKey: WAMessageKey | null | undefined
+  ): Promise<void> {
+    const original = session.store.getMessage(jidNormalizedUser(key.remoteJid!), key.id!);
+    const notification = this.formatMessage(
+      {
+        key: revokeKey || key,
+        message: { protocolMessage: { type: proto.Message.ProtocolMessage.Type.REVOKE, key } },
+        messageTimestamp: Math.floor(Date.now() / 1000),
+      },
+      sessionId
+    );
+
+    await webhookService.sendMessageRevoke(
+      sessionId,
+      notification,
+      original?.message ? this.formatMessage(original, sessionId) : null
+    );
+  }
+
+  /**
+   * Emit `message_edit` with the edited message, which the store has already updated, and the body it
+   * had before (null when the message was never stored)
+   */
+  private async emitMessageEdit(
+    sessionId: string,
+    session: BaileysSession,
+    key: WAMessageKey,
+    edited: proto.IMessage
+  ): Promise<void> {
+    const jid = jidNormalizedUser(key.remoteJid!);
+    const stored = session.store.getMessage(jid, key.id!);
+    const previous = stored ? session.store.getEditHistory(jid, key.id!).at(-1) : undefined;
+    const message = this.formatMessage(stored || { key, message: { editedMessage: { message: edited } } }, sessionId);
+
+    await webhookService.sendMessageEdit(
+      sessionId,
+      message,
+      message.body,
+      previous ? this.formatMessage({ key, message: previous.message }, sessionId).body : null
+    );
+  }
+
+  /**
+   * Emit `vote_update` for votes Baileys decrypted, with the poll tallies the store has applied them to
+   */
+  private async emitVoteUpdates(
+    sessionId: string,
+    session: BaileysSession,
+    key: WAMessageKey,
+    pollUpdates: proto.IPollUpdate[]
+  ): Promise<void> {
+    const meId = jidNormalizedUser(session.socket.user?.id);
+    const poll = session.store.getMessage(jidNormalizedUser(key.remoteJid!), key.id!);
+    const parentMessage = poll ? this.formatMessage(poll, sessionId) : null;
+    const tallies = poll ? this.toPollVotes(poll, meId) : null;
+
+    for (const pollUpdate of pollUpdates) {
+      await webhookService.sendVoteUpdate(sessionId, {
+        voter: toWwebjsJid(getKeyAuthor(pollUpdate.pollUpdateMessageKey, meId)),
+        selectedOptions: poll ? getSelectedOptions(poll, pollUpdate.vote) : [],
+        interractedAtTs: this.toTimestamp(pollUpdate.senderTimestampMs),
+        parentMsgKey: createMessageId(key.id!, key.remoteJid!, key.fromMe || false),
+        parentMessage,
+        poll: tallies,
+        undecryptable: false,
+        reason: null,
+      });
+    }
+  }
+
+  /**
+   * Emit `vote_update` flagged as undecryptable for a vote Baileys cannot decrypt (it drops those),
+   * typically a vote on a poll sent before the store had it
+   */
+  private async reportUndecryptableVote(sessionId: string, session: BaileysSession, msg: proto.IWebMessageInfo): Promise<void> {
+    const pollKey = normalizeMessageContent(msg.message)?.pollUpdateMessage?.pollCreationMessageKey;
+    if (!pollKey?.id || !pollKey.remoteJid || !msg.key) {
+      return;
+    }
+
+    const meId = jidNormalizedUser(session.socket.user?.id);
+    const poll = session.store.getMessage(jidNormalizedUser(pollKey.remoteJid), pollKey.id);
+    const reason = getPollVoteFailure(msg, poll, meId);
+    if (!reason) {
+      return;
+    }
+
+    logger.warn({ sessionId, pollId: pollKey.id, reason }, 'Poll vote could not be decrypted');
+    await webhookService.sendVoteUpdate(sessionId, {
+      voter: toWwebjsJid(getKeyAuthor(msg.key, meId)),
+      selectedOptions: [],
+      interractedAtTs:
+        this.toTimestamp(normalizeMessageContent(msg.message)?.pollUpdateMessage?.senderTimestampMs) ||
+        this.toTimestamp(msg.messageTimestamp) * 1000,
+      parentMsgKey: createMessageId(pollKey.id, pollKey.remoteJid, pollKey.fromMe || false),
+      parentMessage: poll ? this.formatMessage(poll, sessionId) : null,
+      poll: poll ? this.toPollVotes(poll, meId) : null,
+      undecryptable: true,
+      reason,
+    });
+  }
+
+  /**
+   * Tallies of a stored poll, null for other messages
+   */
+  private toPollVotes(poll: proto.IWebMessageInfo, meId: string): PollVotesData | null {
+    const details = getPoll(poll);
+    if (!details || !poll.key?.id || !poll.key.remoteJid) {
+      return null;
+    }
+
+    const options = tallyPollVotes(poll, meId).map(({ voters, ...option }) => ({
+      ...option,
+      votes: voters.length,
+      voters: voters.map(toWwebjsJid),
+    }));
+
+    return {
+      pollId: createMessageId(poll.key.id, poll.key.remoteJid, poll.key.fromMe || false)._serialized,
+      name: details.name,
+      selectableCount: details.selectableCount,
+      options,
+      totalVoters: new Set(options.flatMap((option) => option.voters)).size,
+    };
+  }
+
   /**
    * Format a Baileys message to wwebjs-like format
    */
   formatMessage(msg: proto.IWebMessageInfo, sessionId?: string): MessageData {
     const key = msg.key || {};
-    const message = msg.message || {};
+    // an edit notification reads as the content it sets
+    const content = normalizeMessageContent(msg.message);
+    const editNotification =
+      content?.protocolMessage?.type === proto.Message.ProtocolMessage.Type.MESSAGE_EDIT ? content.protocolMessage : null;
+    const message = normalizeMessageContent(editNotification?.editedMessage) || content || {};
 
     let type = 'chat';
     let body = '';
@@ -501,6 +896,8 @@ class SessionManager {
       hasQuotedMsg,
       hasMedia,
       hasReaction: false,
+      isRevoked: !!msg.revokeMessageTimestamp,
+      isEdited: !!msg.message?.editedMessage || !!editNotification,
       ack: this.mapStatusToAck(msg.status ?? undefined),
       mentionedIds,
       groupMentions: [],
@@ -553,28 +950,16 @@ class SessionManager {
       }
     }
 
-    const fromChatStore = session.store.messages[chatJid]?.get(rawId);
+    const fromChatStore = session.store.getMessage(chatJid, rawId);
     if (fromChatStore?.key?.id) {
       this.registerMessageKey(sessionId, fromChatStore.key);
       return fromChatStore.key;
     }
 
-    const loadedFromChat = await session.store.loadMessage(chatJid, rawId).catch(() => undefined);
-    if (loadedFromChat?.key?.id) {
-      this.registerMessageKey(sessionId, loadedFromChat.key);
-      return loadedFromChat.key;
-    }
-
-    for (const [remoteJid, messages] of Object.entries(session.store.messages)) {
-      const found = messages.get(rawId);
-      if (found?.key?.id) {
-        const key: WAMessageKey = {
-          ...found.key,
-          remoteJid: found.key.remoteJid || remoteJid,
-        };
-        this.registerMessageKey(sessionId, key);
-        return key;
-      }
+    const found = session.store.findMessageById(rawId);
+    if (found?.key?.id) {
+      this.registerMessageKey(sessionId, found.key);
+      return found.key;
     }
 
     throw new Error('Message not found in local store. Ensure it was synced or received after this session started.');
@@ -594,12 +979,48 @@ class SessionManager {
       return null;
     }
 
-    const loaded = await session.store.loadMessage(key.remoteJid, key.id).catch(() => undefined);
-    if (loaded) {
-      return loaded;
+    return session.store.getMessage(key.remoteJid, key.id) || null;
+  }
+
+  /**
+   * Votes of a poll by option; null when the poll is not stored (or the message is not a poll)
+   */
+  async getPollVotes(sessionId: string, chatId: string, messageId: string): Promise<PollVotesData | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.status !== 'connected') {
+      throw new Error('Session not connected');
     }
 
-    return session.store.messages[key.remoteJid]?.get(key.id) || null;
+    const key = await this.resolveMessageKey(sessionId, chatId, messageId);
+    const poll = key.id && key.remoteJid ? session.store.getMessage(key.remoteJid, key.id) : undefined;
+    return poll ? this.toPollVotes(poll, jidNormalizedUser(session.socket.user?.id)) : null;
+  }
+
+  /**
+   * Previous versions of an edited message, oldest first; null when the message is not stored
+   */
+  async getEditHistory(sessionId: string, chatId: string, messageId: string): Promise<MessageEditData[] | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.status !== 'connected') {
+      throw new Error('Session not connected');
+    }
+
+    const key = await this.resolveMessageKey(sessionId, chatId, messageId);
+    const message = key.id && key.remoteJid ? session.store.getMessage(key.remoteJid, key.id) : undefined;
+    if (!message) {
+      return null;
+    }
+
+    const edits = session.store.getEditHistory(key.remoteJid!, key.id!);
+    return edits.map((edit, index) => {
+      const { body, type } = this.formatMessage({ key, message: edit.message }, sessionId);
+      return {
+        body,
+        type,
+        timestamp: index === 0 ? this.toTimestamp(message.messageTimestamp) : edits[index - 1].editedAt,
+        editedAt: edit.editedAt,
+      };
+    });
   }
 
   /**
@@ -611,10 +1032,7 @@ class SessionManager {
       return [];
     }
 
-    const jid = toBaileysJid(chatId);
-    const entries = session.store.messages[jid]?.array || [];
-
-    return [...entries].sort((a, b) => this.toTimestamp(b.messageTimestamp) - this.toTimestamp(a.messageTimestamp));
+    return session.store.getMessages(toBaileysJid(chatId));
   }
 
   /**
@@ -628,6 +1046,28 @@ class SessionManager {
    * Stop a session without clearing auth
    */
   async stopSession(sessionId: string): Promise<void> {
+    // A manual stop also ends any pending reconnect
+    this.reconnectPolicies.get(sessionId)?.cancel();
+    this.reconnectPolicies.delete(sessionId);
+
+    // logged out and failed sessions keep their state, it says more than `stopped`
+    const state = this.states.get(sessionId);
+    const tracked = !!state && canTransition(state, 'stopping');
+    if (tracked) {
+      this.transition(sessionId, 'stopping', 'manual');
+    }
+
+    await this.teardownSession(sessionId);
+
+    if (tracked) {
+      this.transition(sessionId, 'stopped', 'manual');
+    }
+  }
+
+  /**
+   * Close the socket and store of a session, keeping its reconnect policy state
+   */
+  private async teardownSession(sessionId: string): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (!session) {
       return;
@@ -635,7 +1075,7 @@ class SessionManager {
 
     logger.info({ sessionId }, 'Stopping session');
 
-    this.stoppingSessions.add(sessionId);
+    session.stopping = true;
 
     const pendingPersist = this.storePersistTimeouts.get(sessionId);
     if (pendingPersist) {
@@ -643,6 +1083,18 @@ class SessionManager {
       this.storePersistTimeouts.delete(sessionId);
     }
 
+    const retentionTimer = this.retentionTimers.get(sessionId);
+    if (retentionTimer) {
+      clearInterval(retentionTimer);
+      this.retentionTimers.delete(sessionId);
+    }
+
+    const pendingRetention = this.retentionTimeouts.get(sessionId);
+    if (pendingRetention) {
+      clearTimeout(pendingRetention);
+      this.retentionTimeouts.delete(sessionId);
+    }
+
     this.persistStore(sessionId);
 
     try {
@@ -651,11 +1103,8 @@ class SessionManager {
       logger.warn({ sessionId, error }, 'Error ending socket');
     }
 
+    this.closeStore(sessionId);
     this.sessions.delete(sessionId);
-
-    setTimeout(() => {
-      this.stoppingSessions.delete(sessionId);
-    }, 5000);
   }
 
   /**
@@ -666,10 +1115,16 @@ class SessionManager {
 
     await this.stopSession(sessionId);
 
+    await authStateStore.removeSession(sessionId);
+    logger.info({ sessionId, backend: authStateStore.backend }, 'Auth state deleted');
+
+    sessionRegistry.remove(sessionId);
+    this.lastActivity.delete(sessionId);
+
     const sessionPath = getSessionPath(sessionId);
     if (fs.existsSync(sessionPath)) {
       fs.rmSync(sessionPath, { recursive: true, force: true });
-      logger.info({ sessionId, path: sessionPath }, 'Auth files deleted');
+      logger.info({ sessionId, path: sessionPath }, 'Session files deleted');
     }
   }
 
@@ -705,10 +1160,11 @@ class SessionManager {
     try {
       const cleanNumber = phoneNumber.replace(/\D/g, '');
       session.phoneNumber = cleanNumber;
-      session.status = 'pairing';
+      this.transition(sessionId, 'pairing');
 
       const code = await session.socket.requestPairingCode(cleanNumber);
       session.pairingCode = code;
+      this.emitSessionEvent(sessionId, { type: 'pairing_code', code });
 
       logger.info({ sessionId, phoneNumber: cleanNumber }, 'Pairing code requested');
       return code;
@@ -729,24 +1185,25 @@ class SessionManager {
 
     const chatsByJid = new Map<string, ChatData>();
 
-    for (const chat of session.store.chats.all()) {
+    for (const chat of session.store.getChats()) {
       if (!chat.id || chat.id === 'status@broadcast') {
         continue;
       }
 
-      chatsByJid.set(chat.id, this.mapStoredChatToApi(sessionId, chat.id, chat, session.store.groupMetadata[chat.id]));
+      chatsByJid.set(chat.id, this.mapStoredChatToApi(sessionId, chat.id, chat, session.store.getGroupMetadata(chat.id)));
     }
 
-    for (const [jid, metadata] of Object.entries(session.store.groupMetadata)) {
-      if (jid === 'status@broadcast') {
+    for (const metadata of session.store.listGroupMetadata()) {
+      const jid = metadata.id;
+      if (!jid || jid === 'status@broadcast') {
         continue;
       }
 
       const current = chatsByJid.get(jid);
-      chatsByJid.set(jid, this.mapStoredChatToApi(sessionId, jid, current ? this.getStoredChat(session, jid) : undefined, metadata));
+      chatsByJid.set(jid, this.mapStoredChatToApi(sessionId, jid, current ? session.store.getChat(jid) : undefined, metadata));
     }
 
-    for (const jid of Object.keys(session.store.messages)) {
+    for (const jid of session.store.listMessageChatJids()) {
       if (jid === 'status@broadcast' || chatsByJid.has(jid)) {
         continue;
       }
@@ -758,7 +1215,7 @@ class SessionManager {
       const groups = await session.socket.groupFetchAllParticipating();
       for (const [jid, metadata] of Object.entries(groups)) {
         if (!chatsByJid.has(jid)) {
-          chatsByJid.set(jid, this.mapStoredChatToApi(sessionId, jid, this.getStoredChat(session, jid), metadata));
+          chatsByJid.set(jid, this.mapStoredChatToApi(sessionId, jid, session.store.getChat(jid), metadata));
         }
       }
     } catch (error) {
@@ -780,13 +1237,13 @@ class SessionManager {
     const jid = toBaileysJid(chatId);
 
     try {
-      const storedChat = this.getStoredChat(session, jid);
+      const storedChat = session.store.getChat(jid);
 
       if (isGroupJid(jid)) {
-        let metadata = session.store.groupMetadata[jid];
+        let metadata = session.store.getGroupMetadata(jid);
         if (!metadata) {
           metadata = await session.socket.groupMetadata(jid);
-          session.store.groupMetadata[jid] = metadata;
+          session.store.setGroupMetadata(jid, metadata);
           this.scheduleStorePersist(sessionId);
         }
 
@@ -812,7 +1269,8 @@ class SessionManager {
     const blockedSet = await this.getBlockedSet(session);
     const contacts = new Map<string, ContactData>();
 
-    for (const [jid, contact] of Object.entries(session.store.contacts)) {
+    for (const contact of session.store.getContacts()) {
+      const jid = contact.id;
       if (!jid || isGroupJid(jid) || jid === 'status@broadcast') {
         continue;
       }
@@ -820,21 +1278,21 @@ class SessionManager {
       contacts.set(jid, this.mapStoredContactToApi(jid, contact, blockedSet));
     }
 
-    for (const chat of session.store.chats.all()) {
+    for (const chat of session.store.getChats()) {
       const jid = chat.id;
       if (!jid || isGroupJid(jid) || jid === 'status@broadcast' || contacts.has(jid)) {
         continue;
       }
 
-      contacts.set(jid, this.mapStoredContactToApi(jid, session.store.contacts[jid], blockedSet));
+      contacts.set(jid, this.mapStoredContactToApi(jid, session.store.getContact(jid), blockedSet));
     }
 
-    for (const jid of Object.keys(session.store.messages)) {
+    for (const jid of session.store.listMessageChatJids()) {
       if (!jid || isGroupJid(jid) || jid === 'status@broadcast' || contacts.has(jid)) {
         continue;
       }
 
-      contacts.set(jid, this.mapStoredContactToApi(jid, session.store.contacts[jid], blockedSet));
+      contacts.set(jid, this.mapStoredContactToApi(jid, session.store.getContact(jid), blockedSet));
     }
 
     return [...contacts.values()].sort((a, b) => a.number.localeCompare(b.number));
@@ -853,7 +1311,7 @@ class SessionManager {
 
     try {
       const blockedSet = await this.getBlockedSet(session);
-      const contact = session.store.contacts[jid];
+      const contact = session.store.getContact(jid);
 
       if (!contact && !isGroupJid(jid)) {
         const [result] = (await session.socket.onWhatsApp(getPhoneNumber(jid))) || [];
@@ -916,8 +1374,8 @@ class SessionManager {
     const jid = toBaileysJid(groupId);
 
     try {
-      const metadata = session.store.groupMetadata[jid] || (await session.socket.groupMetadata(jid));
-      session.store.groupMetadata[jid] = metadata;
+      const metadata = session.store.getGroupMetadata(jid) || (await session.socket.groupMetadata(jid));
+      session.store.setGroupMetadata(jid, metadata);
       this.scheduleStorePersist(sessionId);
 
       return {
@@ -956,7 +1414,7 @@ class SessionManager {
     }
 
     const contactJid = toBaileysJid(contactId);
-    const metadataMap = { ...session.store.groupMetadata };
+    const metadataMap = Object.fromEntries(session.store.listGroupMetadata().map((metadata) => [metadata.id, metadata]));
 
     try {
       const allGroups = await session.socket.groupFetchAllParticipating();
@@ -991,7 +1449,7 @@ class SessionManager {
       return [];
     }
 
-    const labels = session.store.getLabels().findAll();
+    const labels = session.store.getLabels();
 
     return labels
       .map((label) => ({
@@ -1003,31 +1461,111 @@ class SessionManager {
   }
 
   /**
-   * Auto-start existing sessions
+   * Start a hibernated session again and wait until it is connected.
+   * Resolves false if it does not connect within SESSION_WAKE_TIMEOUT (or ends up logged out / failed).
    */
-  async autoStartSessions(): Promise<void> {
-    if (!config.autoStartSessions) {
+  async wakeSession(sessionId: string): Promise<boolean> {
+    if (this.isConnected(sessionId)) {
+      return true;
+    }
+
+    // concurrent requests for the same session share one wake-up
+    let waking = this.wakingSessions.get(sessionId);
+    if (!waking) {
+      waking = this.wake(sessionId).finally(() => this.wakingSessions.delete(sessionId));
+      this.wakingSessions.set(sessionId, waking);
+    }
+
+    return waking;
+  }
+
+  /**
+   * Periodically hibernate sessions without activity for SESSION_HIBERNATE_AFTER
+   */
+  startHibernationMonitor(): void {
+    if (config.sessionHibernateAfter <= 0 || this.hibernationTimer) {
       return;
     }
 
-    logger.info('Auto-starting existing sessions');
+    logger.info({ hibernateAfterMs: config.sessionHibernateAfter }, 'Idle session hibernation enabled');
 
-    if (!fs.existsSync(config.sessionsPath)) {
+    this.hibernationTimer = setInterval(() => {
+      this.hibernateIdleSessions().catch((error) => logger.error({ error }, 'Failed to hibernate idle sessions'));
+    }, Math.min(HIBERNATION_CHECK_INTERVAL_MS, config.sessionHibernateAfter));
+    this.hibernationTimer.unref();
+  }
+
+  /**
+   * Stop hibernating idle sessions (on shutdown)
+   */
+  stopHibernationMonitor(): void {
+    if (this.hibernationTimer) {
+      clearInterval(this.hibernationTimer);
+      this.hibernationTimer = null;
+    }
+  }
+
+  /**
+   * Write a session's store and credentials now instead of waiting for the debounced persist
+   */
+  async flushSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    const pendingPersist = this.storePersistTimeouts.get(sessionId);
+    if (pendingPersist) {
+      clearTimeout(pendingPersist);
+      this.storePersistTimeouts.delete(sessionId);
+    }
+
+    this.persistStore(sessionId);
+
+    try {
+      await session.saveCreds();
+    } catch (error) {
+      logger.warn({ sessionId, error }, 'Failed to save session credentials');
+    }
+  }
+
+  /**
+   * Stop the socket of an idle session (flushing its store), keeping it registered as `hibernated`
+   */
+  async hibernateSession(sessionId: string): Promise<void> {
+    if (!this.isConnected(sessionId)) {
       return;
     }
 
-    const entries = fs.readdirSync(config.sessionsPath, { withFileTypes: true });
+    logger.info({ sessionId }, 'Hibernating idle session');
 
-    for (const entry of entries) {
-      if (entry.isDirectory() && entry.name.startsWith('session-')) {
-        const sessionId = entry.name.replace('session-', '');
-        logger.info({ sessionId }, 'Auto-starting session');
+    await this.teardownSession(sessionId);
+    this.transition(sessionId, 'hibernated', 'idle');
+  }
 
-        try {
-          await this.startSession(sessionId);
-        } catch (error) {
-          logger.error({ sessionId, error }, 'Failed to auto-start session');
-        }
+  /**
+   * Auto-start existing sessions
+   */
+  async autoStartSessions(): Promise<void> {
+    if (!config.autoStartSessions) {
+      return;
+    }
+
+    const storedSessionIds = new Set(await this.listStoredSessionIds());
+    const sessionIds = sessionRegistry
+      .list()
+      .filter((record) => record.autostart && storedSessionIds.has(record.sessionId))
+      .map((record) => record.sessionId);
+
+    logger.info({ count: sessionIds.length }, 'Auto-starting registered sessions');
+
+    for (const sessionId of sessionIds) {
+      logger.info({ sessionId }, 'Auto-starting session');
+
+      try {
+        await this.startSession(sessionId);
+      } catch (error) {
+        logger.error({ sessionId, error }, 'Failed to auto-start session');
       }
     }
   }
@@ -1038,24 +1576,49 @@ class SessionManager {
       return;
     }
 
-    for (const messages of Object.values(session.store.messages)) {
-      for (const message of messages.array) {
+    for (const chatJid of session.store.listMessageChatJids()) {
+      for (const message of session.store.getMessages(chatJid)) {
         this.registerMessageKey(sessionId, message.key);
       }
     }
   }
 
   private registerMessageKey(sessionId: string, key?: WAMessageKey | null): void {
-    if (!key?.id) {
+    const session = this.sessions.get(sessionId);
+    if (!session || !key?.id) {
       return;
     }
 
-    const session = this.sessions.get(sessionId);
-    if (!session) {
+    for (const alias of this.getMessageKeyAliases(key)) {
+      session.messageKeyIndex.set(alias, key);
+    }
+  }
+
+  /**
+   * Drop the index entries of a message removed from the store
+   */
+  private unregisterMessageKey(session: BaileysSession, key: WAMessageKey): void {
+    if (!key.id) {
       return;
     }
 
+    for (const alias of this.getMessageKeyAliases(key)) {
+      const indexed = session.messageKeyIndex.get(alias);
+      if (indexed?.id === key.id) {
+        session.messageKeyIndex.delete(alias);
+      }
+    }
+  }
+
+  /**
+   * Every ID a message can be looked up by (bare, wwebjs serialized and `<fromMe>_<jid>_<id>` forms)
+   */
+  private getMessageKeyAliases(key: WAMessageKey): Set<string> {
     const keyAliases = new Set<string>();
+    if (!key.id) {
+      return keyAliases;
+    }
+
     keyAliases.add(key.id);
 
     const remotes = [
@@ -1063,11 +1626,6 @@ class SessionManager {
       (key as WAMessageKey & { remoteJidAlt?: string }).remoteJidAlt,
     ].filter(Boolean) as string[];
 
-    if (remotes.length === 0) {
-      session.messageKeyIndex.set(key.id, key);
-      return;
-    }
-
     for (const remoteJid of remotes) {
       keyAliases.add(`${remoteJid}_${key.id}`);
 
@@ -1082,9 +1640,7 @@ class SessionManager {
       keyAliases.add(`false_${remoteJid}_${key.id}`);
     }
 
-    for (const alias of keyAliases) {
-      session.messageKeyIndex.set(alias, key);
-    }
+    return keyAliases;
   }
 
   private persistStore(sessionId: string): void {
@@ -1094,13 +1650,237 @@ class SessionManager {
     }
 
     try {
-      fs.mkdirSync(path.dirname(session.storePath), { recursive: true });
-      session.store.writeToFile(session.storePath);
+      session.store.persist();
     } catch (error) {
       logger.warn({ sessionId, error }, 'Failed to persist session store');
     }
   }
 
+  private closeStore(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    try {
+      session.store.close();
+    } catch (error) {
+      logger.warn({ sessionId, error }, 'Failed to close session store');
+    }
+  }
+
+  /**
+   * Move a session to a new lifecycle state: validated against the state machine, recorded in the
+   * session history and announced with a `change_state` event. Invalid transitions are logged and ignored.
+   */
+  private transition(sessionId: string, to: SessionStatus, reason: string | null = null, statusCode?: number): void {
+    const from = this.states.get(sessionId) ?? 'stopped';
+    if (from === to) {
+      return;
+    }
+
+    if (!canTransition(from, to)) {
+      logger.warn({ sessionId, from, to, reason }, 'Ignoring invalid session state transition');
+      return;
+    }
+
+    this.states.set(sessionId, to);
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.status = to;
+    }
+
+    logger.debug({ sessionId, from, to, reason }, 'Session state changed');
+    sessionHistory.append(sessionId, {
+      at: new Date().toISOString(),
+      from,
+      to,
+      reason,
+      statusCode: statusCode ?? null,
+    });
+
+    if (to === 'connected') {
+      this.touch(sessionId);
+    }
+
+    this.emitSessionEvent(sessionId, { type: 'state', status: to, reason });
+
+    webhookService
+      .sendStateChange(sessionId, to, { previous: from, reason, statusCode: statusCode ?? null })
+      .catch((error) => logger.warn({ sessionId, error }, 'Failed to send state change webhook'));
+  }
+
+  private async wake(sessionId: string): Promise<boolean> {
+    logger.info({ sessionId }, 'Waking hibernated session');
+    this.touch(sessionId);
+
+    const connected = this.waitForConnection(sessionId, config.sessionWakeTimeout);
+    try {
+      await this.startSession(sessionId);
+    } catch (error) {
+      logger.error({ sessionId, error }, 'Failed to wake hibernated session');
+      return false;
+    }
+
+    const result = await connected;
+    if (!result) {
+      logger.warn({ sessionId, state: this.states.get(sessionId) }, 'Hibernated session did not reconnect in time');
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve true once the session is connected, false on timeout or when it settles in another state
+   */
+  private waitForConnection(sessionId: string, timeoutMs: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const finish = (connected: boolean) => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(connected);
+      };
+
+      const unsubscribe = this.subscribe(sessionId, (event) => {
+        if (event.type !== 'state') {
+          return;
+        }
+
+        if (event.status === 'connected') {
+          finish(true);
+        } else if (SETTLED_STATES.includes(event.status)) {
+          finish(false);
+        }
+      });
+
+      const timer = setTimeout(() => finish(false), timeoutMs);
+    });
+  }
+
+  private emitSessionEvent(sessionId: string, event: SessionLifecycleEvent): void {
+    for (const listener of [...(this.sessionListeners.get(sessionId) || [])]) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn({ sessionId, error }, 'Session event listener failed');
+      }
+    }
+  }
+
+  private async hibernateIdleSessions(): Promise<void> {
+    const idleSince = Date.now() - config.sessionHibernateAfter;
+
+    for (const sessionId of this.getAllSessionIds()) {
+      if (
+        this.isConnected(sessionId) &&
+        !this.inFlightRequests.has(sessionId) &&
+        (this.lastActivity.get(sessionId) ?? 0) < idleSince
+      ) {
+        await this.hibernateSession(sessionId);
+      }
+    }
+  }
+
+  private getReconnectPolicy(sessionId: string): ReconnectPolicy {
+    let policy = this.reconnectPolicies.get(sessionId);
+    if (!policy) {
+      policy = new ReconnectPolicy();
+      this.reconnectPolicies.set(sessionId, policy);
+    }
+
+    return policy;
+  }
+
+  private scheduleReconnect(sessionId: string, decision: ReconnectDecision): void {
+    const policy = this.getReconnectPolicy(sessionId);
+    const state = policy.getState();
+
+    const log = state.mode === 'cooldown' ? logger.warn.bind(logger) : logger.info.bind(logger);
+    log(
+      { sessionId, reason: decision.reason, attempt: state.attempt, mode: state.mode, delayMs: decision.delayMs },
+      'Scheduling reconnection'
+    );
+
+    policy.schedule(decision, () => {
+      this.openSession(sessionId).catch((err: Error) => {
+        logger.error({ sessionId, error: err.message }, 'Reconnection failed');
+
+        const next = policy.onDisconnect(undefined, 'startFailed');
+        if (next.action === 'reconnect') {
+          this.scheduleReconnect(sessionId, next);
+        } else {
+          this.transition(sessionId, 'failed', next.reason);
+        }
+      });
+    });
+  }
+
+  /**
+   * Reason sent in the `disconnected` webhook: snake_case for reasons that stop reconnecting on purpose
+   * (e.g. connection_replaced), `connection_lost` when retries ran out, as before
+   */
+  private toWebhookReason(reason: string): string {
+    if (!['connectionReplaced', 'multideviceMismatch', 'forbidden', 'badSession'].includes(reason)) {
+      return 'connection_lost';
+    }
+
+    return reason.replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase();
+  }
+
+  /**
+   * Retention policy of a session; read from the registry so changes apply without a restart
+   */
+  private getRetentionPolicy(sessionId: string, session: BaileysSession): Required<StoreRetentionPolicy> {
+    return resolveRetentionPolicy(sessionRegistry.get(sessionId)?.options.retention ?? session.options.retention);
+  }
+
+  /**
+   * Drop stored messages outside the session's retention policy, along with their key index entries
+   */
+  applyRetention(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    const policy = this.getRetentionPolicy(sessionId, session);
+    if (!hasRetentionLimits(policy)) {
+      return;
+    }
+
+    try {
+      const { removed, keys } = session.store.prune(policy);
+      if (removed > 0) {
+        for (const key of keys) {
+          this.unregisterMessageKey(session, key);
+        }
+
+        session.prunedMessages += removed;
+        session.lastPrunedAt = Date.now();
+        logger.debug({ sessionId, removed, keyIndex: session.messageKeyIndex.size }, 'Pruned stored messages');
+        this.scheduleStorePersist(sessionId);
+      }
+    } catch (error) {
+      logger.warn({ sessionId, error }, 'Failed to apply store retention');
+    }
+  }
+
+  /**
+   * Enforce retention shortly after new messages, so count limits hold between the periodic runs
+   */
+  private scheduleRetention(sessionId: string): void {
+    if (this.retentionTimeouts.has(sessionId)) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      this.retentionTimeouts.delete(sessionId);
+      this.applyRetention(sessionId);
+    }, RETENTION_DEBOUNCE_MS);
+
+    this.retentionTimeouts.set(sessionId, timeout);
+  }
+
   private scheduleStorePersist(sessionId: string): void {
     const existingTimeout = this.storePersistTimeouts.get(sessionId);
     if (existingTimeout) {
@@ -1147,8 +1927,8 @@ class SessionManager {
     const name =
       groupMetadata?.subject ||
       chat?.name ||
-      session?.store.contacts[jid]?.name ||
-      session?.store.contacts[jid]?.notify ||
+      session?.store.getContact(jid)?.name ||
+      session?.store.getContact(jid)?.notify ||
       getPhoneNumber(jid);
 
     const chatExt = chat as
@@ -1213,31 +1993,8 @@ class SessionManager {
       return undefined;
     }
 
-    const messages = session.store.messages[chatJid]?.array;
-    if (!messages || messages.length === 0) {
-      return undefined;
-    }
-
-    let latest = messages[0];
-    let latestTimestamp = this.toTimestamp(latest.messageTimestamp);
-
-    for (const message of messages) {
-      const timestamp = this.toTimestamp(message.messageTimestamp);
-      if (timestamp > latestTimestamp) {
-        latest = message;
-        latestTimestamp = timestamp;
-      }
-    }
-
-    return this.formatMessage(latest, sessionId);
-  }
-
-  private getStoredChat(session: BaileysSession, jid: string): proto.IConversation | undefined {
-    try {
-      return session.store.chats.get(jid);
-    } catch {
-      return undefined;
-    }
+    const latest = session.store.getLatestMessage(chatJid);
+    return latest ? this.formatMessage(latest, sessionId) : undefined;
   }
 
   private async getBlockedSet(session: BaileysSession): Promise<Set<string>> {
@@ -0,0 +1,157 @@
+import fs from 'fs';
+
+import config from '../config';
+import logger from '../logger';
+import encryptionService from './EncryptionService';
+import { writeFileAtomic } from './store/storeUtils';
+import { DEFAULT_SESSION_OPTIONS, mergeSessionOptions } from '../utils/sessionOptions';
+import type { SessionRecord, SessionRecordUpdate } from '../types';
+
+/**
+ * Persisted list of known sessions and their metadata (owner, tags, autostart, ...).
+ * Kept in a single JSON file, encrypted like the rest of the session data when a master key is set.
+ */
+class SessionRegistry {
+  private records: Map<string, SessionRecord> | null = null;
+  private filePath: string;
+
+  constructor() {
+    this.filePath = config.sessionRegistryPath;
+  }
+
+  list(): SessionRecord[] {
+    return [...this.load().values()].sort((a, b) => a.sessionId.localeCompare(b.sessionId));
+  }
+
+  get(sessionId: string): SessionRecord | undefined {
+    return this.load().get(sessionId);
+  }
+
+  has(sessionId: string): boolean {
+    return this.load().has(sessionId);
+  }
+
+  /**
+   * Get the record for a session, creating a default one if it does not exist yet
+   */
+  ensure(sessionId: string): SessionRecord {
+    const existing = this.get(sessionId);
+    if (existing) {
+      return existing;
+    }
+
+    return this.upsert(sessionId, {});
+  }
+
+  /**
+   * Create a record or apply a partial update to it
+   */
+  upsert(sessionId: string, update: SessionRecordUpdate): SessionRecord {
+    const records = this.load();
+    const now = new Date().toISOString();
+    const current = records.get(sessionId) || {
+      sessionId,
+      displayName: null,
+      tags: [],
+      owner: null,
+      phoneNumber: null,
+      metadata: {},
+      autostart: true,
+      options: DEFAULT_SESSION_OPTIONS,
+      createdAt: now,
+      updatedAt: now,
+      lastConnectedAt: null,
+    };
+
+    const { options, ...fields } = update;
+    const record: SessionRecord = {
+      ...current,
+      ...Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)),
+      options: mergeSessionOptions(current.options, options),
+      sessionId,
+      updatedAt: now,
+    };
+
+    records.set(sessionId, record);
+    this.save();
+    return record;
+  }
+
+  markConnected(sessionId: string, phoneNumber?: string | null): void {
+    const record = this.ensure(sessionId);
+    record.lastConnectedAt = new Date().toISOString();
+    if (phoneNumber) {
+      record.phoneNumber = phoneNumber;
+    }
+
+    this.save();
+  }
+
+  remove(sessionId: string): boolean {
+    const removed = this.load().delete(sessionId);
+    if (removed) {
+      this.save();
+    }
+
+    return removed;
+  }
+
+  /**
+   * Add records for sessions that have stored auth state but are not registered yet
+   * (deployments that predate the registry, or sessions imported through a shared auth backend)
+   */
+  adopt(sessionIds: string[]): string[] {
+    const adopted = sessionIds.filter((sessionId) => !this.has(sessionId));
+    for (const sessionId of adopted) {
+      this.upsert(sessionId, {});
+    }
+
+    if (adopted.length > 0) {
+      logger.info({ sessionIds: adopted }, 'Registered existing sessions');
+    }
+
+    return adopted;
+  }
+
+  /**
+   * Rewrite the registry file with the current encryption key
+   */
+  reencrypt(): void {
+    this.load();
+    this.save();
+  }
+
+  private load(): Map<string, SessionRecord> {
+    if (this.records) {
+      return this.records;
+    }
+
+    const records = new Map<string, SessionRecord>();
+    if (fs.existsSync(this.filePath)) {
+      // Errors are not caught: a registry we cannot read must never be replaced by an empty one
+      const raw = encryptionService.decryptBuffer(fs.readFileSync(this.filePath)).toString('utf-8');
+
+      let parsed: { sessions?: SessionRecord[] };
+      try {
+        parsed = JSON.parse(raw);
+      } catch (error) {
+        throw new Error(`Session registry is corrupt (${this.filePath}): ${error instanceof Error ? error.message : error}`);
+      }
+
+      for (const record of parsed.sessions || []) {
+        records.set(record.sessionId, { ...record, options: mergeSessionOptions(record.options) });
+      }
+    }
+
+    this.records = records;
+    return records;
+  }
+
+  private save(): void {
+    const data = Buffer.from(JSON.stringify({ sessions: this.list() }, null, 2));
+    writeFileAtomic(this.filePath, encryptionService.encryptBuffer(data));
+  }
+}
+
+export const sessionRegistry = new SessionRegistry();
+export default sessionRegistry;
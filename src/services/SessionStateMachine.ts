@@ -0,0 +1,44 @@
+import type { SessionStatus } from '../types';
+
+/**
+ * Allowed session lifecycle transitions.
+ *
+ * stopped -> connecting -> qr / pairing -> connected
+ * any active state -> reconnecting (connection lost, retry scheduled) -> connecting
+ * any active state -> stopping -> stopped (manual stop)
+ * any active state -> logged_out (unlinked from the phone) / failed (reconnect policy gave up)
+ * connected -> hibernated (idle, socket closed) -> connecting (woken up by an API call)
+ */
+const TRANSITIONS: Record<SessionStatus, readonly SessionStatus[]> = {
+  stopped: ['connecting'],
+  connecting: ['qr', 'pairing', 'connected', 'reconnecting', 'stopping', 'logged_out', 'failed'],
+  qr: ['connecting', 'pairing', 'connected', 'reconnecting', 'stopping', 'logged_out', 'failed'],
+  pairing: ['connecting', 'connected', 'reconnecting', 'stopping', 'logged_out', 'failed'],
+  connected: ['reconnecting', 'stopping', 'logged_out', 'failed', 'hibernated'],
+  reconnecting: ['connecting', 'stopping', 'logged_out', 'failed'],
+  stopping: ['stopped'],
+  logged_out: ['connecting'],
+  failed: ['connecting', 'stopping'],
+  hibernated: ['connecting', 'stopping'],
+};
+
+// wwebjs-compatible state names used by GET /session/status and the change_state webhook
+const WWEBJS_STATES: Partial<Record<SessionStatus, string>> = {
+  connecting: 'INITIALIZING',
+  qr: 'QR_RECEIVED',
+  logged_out: 'UNPAIRED',
+};
+
+export const SESSION_STATES = Object.keys(TRANSITIONS) as SessionStatus[];
+
+export function canTransition(from: SessionStatus, to: SessionStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export function toWwebjsState(status: SessionStatus | null): string {
+  if (status === null) {
+    return 'STOPPED';
+  }
+
+  return WWEBJS_STATES[status] || status.toUpperCase();
+}
@@ -0,0 +1,203 @@
+import type { Server as HttpServer } from 'http';
+
+import config from '../config';
+import logger from '../logger';
+import eventBus from './EventBus';
+import sessionManager from './SessionManager';
+import webSocketService from './WebSocketService';
+import webhookQueue from './WebhookQueue';
+import authStateStore from './authState';
+import type { DrainProgress, ServerPhase, ServerReadiness } from '../types';
+
+// How often the drain re-checks in-flight work (and logs its progress)
+const DRAIN_POLL_INTERVAL_MS = 250;
+const DRAIN_LOG_INTERVAL_MS = 2000;
+
+/**
+ * Readiness of the server and the shutdown drain: on SIGINT/SIGTERM new requests are refused,
+ * in-flight API calls, events still on the event bus and webhook requests get until SHUTDOWN_TIMEOUT to finish, then stores and
+ * credentials are flushed and the sockets closed.
+ */
+class ShutdownService {
+  private phase: ServerPhase = 'starting';
+  private inFlightRequests = 0;
+  private drainStartedAt = 0;
+  private drainDeadline = 0;
+  private draining: Promise<void> | null = null;
+
+  markReady(): void {
+    if (this.phase === 'starting') {
+      this.phase = 'ready';
+    }
+  }
+
+  isDraining(): boolean {
+    return this.phase === 'draining' || this.phase === 'stopped';
+  }
+
+  /**
+   * Count an API request as in flight; the returned callback releases it (safe to call more than once)
+   */
+  trackRequest(): () => void {
+    this.inFlightRequests += 1;
+
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.inFlightRequests -= 1;
+      }
+    };
+  }
+
+  getReadiness(): ServerReadiness {
+    return {
+      ready: this.phase === 'ready',
+      phase: this.phase,
+      drain: this.drainStartedAt ? this.getProgress() : null,
+    };
+  }
+
+  /**
+   * Drain and stop the server; calling it again while draining returns the running drain
+   */
+  shutdown(server: HttpServer | null, signal: string): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.drain(server, signal);
+    }
+
+    return this.draining;
+  }
+
+  private async drain(server: HttpServer | null, signal: string): Promise<void> {
+    this.phase = 'draining';
+    this.drainStartedAt = Date.now();
+    this.drainDeadline = this.drainStartedAt + config.shutdownTimeout;
+
+    logger.info({ signal, timeoutMs: config.shutdownTimeout, ...this.getProgress() }, 'Draining before shutdown');
+
+    webSocketService.stopAccepting();
+    sessionManager.stopHibernationMonitor();
+
+    const drained = await this.waitUntil(
+      () => this.inFlightRequests === 0 && eventBus.getPendingCount() === 0 && webhookQueue.getInFlightCount() === 0,
+      'Waiting for in-flight requests, events and webhooks'
+    );
+    if (!drained) {
+      logger.warn(this.getProgress(), 'Drain deadline reached, stopping sessions with work still in flight');
+    }
+
+    const sessionIds = sessionManager.getAllSessionIds();
+    await Promise.all(sessionIds.map((sessionId) => sessionManager.flushSession(sessionId)));
+    logger.info({ sessions: sessionIds.length }, 'Flushed session stores and credentials');
+
+    for (const sessionId of sessionIds) {
+      try {
+        await sessionManager.stopSession(sessionId);
+      } catch (error) {
+        logger.warn({ sessionId, error }, 'Failed to stop session during shutdown');
+      }
+    }
+
+    // stopping sessions sends state-change webhooks of its own
+    await this.waitUntil(
+      () => eventBus.getPendingCount() === 0 && webhookQueue.getInFlightCount() === 0,
+      'Waiting for final events and webhooks'
+    );
+
+    // events published until now reach the webhook queue before it closes, later ones are dropped
+    if (!(await this.beforeDeadline(eventBus.close()))) {
+      logger.warn(this.getProgress(), 'Drain deadline reached, dropping events still on the event bus');
+    }
+
+    // events still queued are delivered after the next start
+    webhookQueue.close();
+    webSocketService.close();
+    await authStateStore.close();
+    await this.closeServer(server);
+
+    this.phase = 'stopped';
+    logger.info(
+      { durationMs: Date.now() - this.drainStartedAt, ...this.getProgress() },
+      'Shutdown complete'
+    );
+  }
+
+  /**
+   * Poll `condition` until it holds or the drain deadline passes, logging progress meanwhile
+   */
+  private async waitUntil(condition: () => boolean, message: string): Promise<boolean> {
+    let lastLog = 0;
+
+    while (!condition()) {
+      if (Date.now() >= this.drainDeadline) {
+        return false;
+      }
+
+      if (Date.now() - lastLog >= DRAIN_LOG_INTERVAL_MS) {
+        lastLog = Date.now();
+        logger.info(this.getProgress(), message);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, DRAIN_POLL_INTERVAL_MS));
+    }
+
+    return true;
+  }
+
+  /**
+   * Wait for `promise` until the drain deadline passes; returns whether it settled in time
+   */
+  private async beforeDeadline(promise: Promise<unknown>): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<false>((resolve) => {
+      timer = setTimeout(() => resolve(false), Math.max(this.drainDeadline - Date.now(), 0));
+    });
+
+    try {
+      return await Promise.race([promise.then(() => true), deadline]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Stop the HTTP server; connections still open at the drain deadline are cut
+   */
+  private async closeServer(server: HttpServer | null): Promise<void> {
+    if (!server) {
+      return;
+    }
+
+    const closed = new Promise<void>((resolve) => {
+      server.close((error) => {
+        if (error) {
+          logger.warn({ error }, 'Failed to close HTTP server');
+        }
+        resolve();
+      });
+    });
+    // requests are drained by now, idle keep-alive connections would only hold close() open
+    server.closeIdleConnections();
+
+    if (!(await this.beforeDeadline(closed))) {
+      logger.warn('Drain deadline reached, closing remaining HTTP connections');
+      server.closeAllConnections();
+      await closed;
+    }
+  }
+
+  private getProgress(): DrainProgress {
+    return {
+      startedAt: new Date(this.drainStartedAt).toISOString(),
+      deadline: new Date(this.drainDeadline).toISOString(),
+      inFlightRequests: this.inFlightRequests,
+      pendingWebhooks: webhookQueue.getInFlightCount(),
+      pendingEvents: eventBus.getPendingCount(),
+      sessions: sessionManager.getAllSessionIds().length,
+    };
+  }
+}
+
+export const shutdownService = new ShutdownService();
+export default shutdownService;
@@ -0,0 +1,76 @@
+import fs from 'fs';
+
+import logger from '../logger';
+import { getStorePath } from './store';
+import { getSnapshotPath, isSnapshotId, listSnapshots, restoreSnapshot, verifyStoreFile } from './store/storeSnapshots';
+import sessionManager from './SessionManager';
+import type { StoreSnapshotInfo } from '../types';
+
+/**
+ * Error raised when a snapshot cannot be restored; carries the HTTP status to answer with
+ */
+export class StoreSnapshotError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'StoreSnapshotError';
+  }
+}
+
+/**
+ * Rotating store snapshots of a session (taken every STORE_SNAPSHOT_INTERVAL while it runs) and manual restore
+ */
+class StoreSnapshotService {
+  list(sessionId: string): StoreSnapshotInfo[] {
+    return listSnapshots(getStorePath(sessionId));
+  }
+
+  /**
+   * Replace a session's store with a snapshot. A running session is only touched with `force`:
+   * it is stopped, restored and started again.
+   */
+  async restore(
+    sessionId: string,
+    snapshotId: string,
+    options: { force?: boolean } = {}
+  ): Promise<{ snapshot: StoreSnapshotInfo; restarted: boolean }> {
+    const storePath = getStorePath(sessionId);
+    const snapshot = isSnapshotId(snapshotId) ? this.list(sessionId).find((entry) => entry.id === snapshotId) : undefined;
+    if (!snapshot || !fs.existsSync(getSnapshotPath(storePath, snapshot.id))) {
+      throw new StoreSnapshotError(`Snapshot not found: ${snapshotId}`, 404, 'snapshot_not_found');
+    }
+
+    const invalid = verifyStoreFile(getSnapshotPath(storePath, snapshot.id));
+    if (invalid) {
+      throw new StoreSnapshotError(`Snapshot ${snapshot.id} is not usable: ${invalid}`, 422, 'snapshot_invalid');
+    }
+
+    const running = sessionManager.hasSession(sessionId);
+    if (running) {
+      if (!options.force) {
+        throw new StoreSnapshotError(
+          `Session is running: ${sessionId}. Stop it first or restore with force=true`,
+          409,
+          'session_running'
+        );
+      }
+
+      await sessionManager.stopSession(sessionId);
+    }
+
+    restoreSnapshot(storePath, snapshot.id);
+    logger.info({ sessionId, snapshot: snapshot.id }, 'Session store restored from snapshot');
+
+    if (running) {
+      await sessionManager.startSession(sessionId);
+    }
+
+    return { snapshot, restarted: running };
+  }
+}
+
+export const storeSnapshotService = new StoreSnapshotService();
+export default storeSnapshotService;
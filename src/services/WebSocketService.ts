@@ -3,6 +3,7 @@ import { WebSocketServer, WebSocket } from 'ws';
 
 import config from '../config';
 import logger from '../logger';
+import eventBus from './EventBus';
 
 interface EventPayload {
   sessionId: string;
@@ -19,6 +20,12 @@ interface ClientContext {
 class WebSocketService {
   private wss: WebSocketServer | null = null;
   private clients: Set<ClientContext> = new Set();
+  private accepting = true;
+
+  constructor() {
+    // clients get events whether or not the server is listening yet; without clients this is a no-op
+    eventBus.subscribe('websocket', (event) => this.broadcast(event.sessionId, event.dataType, event.data, event.publishedAt));
+  }
 
   initialize(server: HttpServer): void {
     if (this.wss) {
@@ -31,6 +38,11 @@ class WebSocketService {
     });
 
     this.wss.on('connection', (socket: WebSocket, req: IncomingMessage) => {
+      if (!this.accepting) {
+        socket.close(1001, 'Server shutting down');
+        return;
+      }
+
       if (!this.isAuthorized(req)) {
         socket.close(1008, 'Unauthorized');
         return;
@@ -75,12 +87,12 @@ class WebSocketService {
     logger.info('WebSocket server ready at /ws');
   }
 
-  broadcast(sessionId: string, dataType: string, data: unknown): void {
+  broadcast(sessionId: string, dataType: string, data: unknown, emittedAt = Date.now()): void {
     const payload: EventPayload = {
       sessionId,
       dataType,
       data,
-      timestamp: new Date().toISOString(),
+      timestamp: new Date(emittedAt).toISOString(),
     };
 
     const encoded = JSON.stringify(payload);
@@ -102,6 +114,13 @@ class WebSocketService {
     }
   }
 
+  /**
+   * Refuse new connections while the server drains; connected clients keep receiving events
+   */
+  stopAccepting(): void {
+    this.accepting = false;
+  }
+
   close(): void {
     if (!this.wss) {
       return;
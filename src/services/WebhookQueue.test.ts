@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import config from '../config';
+import webhookQueue from './WebhookQueue';
+import webhookSubscriptions, { DEFAULT_SUBSCRIPTION_ID } from './WebhookSubscriptions';
+import type { WebhookSubscription } from '../types';
+
+const RETRY_BASE_DELAY_MS = 50;
+
+interface Received {
+  event: string;
+  at: number;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for webhook deliveries');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('WebhookQueue', () => {
+  const originalConfig = { ...config };
+  let queuePath: string;
+  let server: ReturnType<typeof Bun.serve>;
+  let subscription: WebhookSubscription;
+  let received: Received[] = [];
+  // status the receiver answers an event with, 200 when not listed; a function is called per attempt
+  let answers: Record<string, number | ((attempt: number) => number)> = {};
+
+  const enqueue = (event: string) =>
+    webhookQueue.enqueue(subscription, { sessionId: 'queue-test', dataType: 'message', data: { event } });
+  const deliveredEvents = () => received.map((request) => request.event);
+
+  beforeAll(() => {
+    queuePath = fs.mkdtempSync(path.join(os.tmpdir(), 'webhook-queue-'));
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const { event } = (await request.json()).data as { event: string };
+        received.push({ event, at: Date.now() });
+
+        const answer = answers[event] ?? 200;
+        const attempt = received.filter((request) => request.event === event).length;
+        return new Response('ok', { status: typeof answer === 'function' ? answer(attempt) : answer });
+      },
+    });
+
+    Object.assign(config, {
+      baseWebhookUrl: `http://127.0.0.1:${server.port}/hook`,
+      webhookFormat: 'wwebjs',
+      webhookSecret: '',
+      webhookPreviousSecret: '',
+      webhookQueuePath: path.join(queuePath, 'queue.sqlite'),
+      webhookMaxAttempts: 3,
+      webhookRetryBaseDelay: RETRY_BASE_DELAY_MS,
+      webhookRetryMaxDelay: RETRY_BASE_DELAY_MS * 4,
+      webhookTimeout: 2000,
+    });
+    subscription = webhookSubscriptions.get(DEFAULT_SUBSCRIPTION_ID)!;
+    webhookQueue.start();
+  });
+
+  beforeEach(() => {
+    received = [];
+    answers = {};
+  });
+
+  afterAll(() => {
+    webhookQueue.close();
+    server.stop(true);
+    Object.assign(config, originalConfig);
+    fs.rmSync(queuePath, { recursive: true, force: true });
+  });
+
+  test('delivers the events of a subscription in the order they were queued', async () => {
+    const events = ['a', 'b', 'c', 'd', 'e'];
+    events.forEach(enqueue);
+
+    await waitFor(() => received.length === events.length);
+    expect(deliveredEvents()).toEqual(events);
+    expect(webhookQueue.getStats().pending).toBe(0);
+  });
+
+  test('a failing event is retried with backoff and holds back the events behind it', async () => {
+    answers.first = (attempt) => (attempt < 3 ? 503 : 200);
+    enqueue('first');
+    enqueue('second');
+
+    await waitFor(() => deliveredEvents().includes('second'));
+    expect(deliveredEvents()).toEqual(['first', 'first', 'first', 'second']);
+
+    const [initial, retry, lastRetry] = received.map((request) => request.at);
+    expect(retry - initial).toBeGreaterThanOrEqual(RETRY_BASE_DELAY_MS - 5);
+    expect(lastRetry - retry).toBeGreaterThanOrEqual(RETRY_BASE_DELAY_MS * 2 - 5);
+  });
+
+  test('events are dead-lettered after WEBHOOK_MAX_ATTEMPTS, and at once on a final 4xx answer', async () => {
+    answers.unavailable = 500;
+    answers.rejected = 400;
+    const unavailableId = enqueue('unavailable');
+    const rejectedId = enqueue('rejected');
+
+    await waitFor(() => webhookQueue.getStats().dead === 2);
+    expect(deliveredEvents()).toEqual(['unavailable', 'unavailable', 'unavailable', 'rejected']);
+
+    const deadLetters = webhookQueue.listDeadLetters({ subscriptionId: DEFAULT_SUBSCRIPTION_ID });
+    expect(deadLetters.find((letter) => letter.id === unavailableId)?.attempts).toBe(3);
+    expect(deadLetters.find((letter) => letter.id === rejectedId)?.attempts).toBe(1);
+
+    webhookQueue.purgeDeadLetters();
+  });
+
+  test('redriven events are delivered before the events queued after them', async () => {
+    answers.redriven = (attempt) => (attempt === 1 ? 410 : 200);
+    const redrivenId = enqueue('redriven');
+    await waitFor(() => webhookQueue.getStats().dead === 1);
+
+    // queued while the first event is dead-lettered, held until the redrive
+    webhookQueue.stop();
+    enqueue('later');
+    expect(webhookQueue.redrive({ ids: [redrivenId] })).toBe(1);
+    webhookQueue.start();
+
+    await waitFor(() => deliveredEvents().includes('later'));
+    expect(deliveredEvents()).toEqual(['redriven', 'redriven', 'later']);
+    expect(webhookQueue.getStats()).toMatchObject({ pending: 0, dead: 0 });
+  });
+});
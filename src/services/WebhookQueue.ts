@@ -0,0 +1,783 @@
+import axios from 'axios';
+import { Database } from 'bun:sqlite';
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import config from '../config';
+import logger from '../logger';
+import encryptionService from './EncryptionService';
+import webhookSubscriptions, { DEFAULT_SUBSCRIPTION_ID } from './WebhookSubscriptions';
+import { renderWebhookPayload } from '../utils/webhookFormats';
+import { signWebhook } from '../utils/webhookSignature';
+import type {
+  WebhookDeadLetter,
+  WebhookDeadLetterFilter,
+  WebhookEndpointQueueStats,
+  WebhookPayload,
+  WebhookAttemptResult,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryFilter,
+  WebhookQueueStats,
+  WebhookSubscription,
+} from '../types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS deliveries (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    subscription_id TEXT NOT NULL DEFAULT '${DEFAULT_SUBSCRIPTION_ID}',
+    url TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    data_type TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at INTEGER NOT NULL,
+    dead_at INTEGER
+  );
+  CREATE TABLE IF NOT EXISTS attempts (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    event_id TEXT NOT NULL,
+    subscription_id TEXT NOT NULL,
+    url TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    data_type TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    attempt INTEGER NOT NULL,
+    test INTEGER NOT NULL DEFAULT 0,
+    success INTEGER NOT NULL,
+    status_code INTEGER,
+    latency_ms INTEGER NOT NULL,
+    response_body TEXT,
+    error TEXT,
+    attempted_at INTEGER NOT NULL
+  );
+`;
+
+const INDEXES = `
+  CREATE INDEX IF NOT EXISTS idx_deliveries_queue ON deliveries (status, subscription_id, seq);
+  CREATE INDEX IF NOT EXISTS idx_deliveries_session ON deliveries (session_id, status);
+  CREATE INDEX IF NOT EXISTS idx_attempts_time ON attempts (attempted_at);
+  CREATE INDEX IF NOT EXISTS idx_attempts_event ON attempts (event_id);
+`;
+
+// Client errors worth retrying; any other 4xx answer is final and dead-letters the event right away
+const RETRYABLE_CLIENT_STATUSES = new Set([408, 425, 429]);
+
+// Characters of the endpoint's answer kept in the delivery log
+const RESPONSE_BODY_LIMIT = 2048;
+const LOG_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Error raised when a logged delivery cannot be replayed; carries the HTTP status to answer with
+ */
+export class WebhookDeliveryError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'WebhookDeliveryError';
+  }
+}
+
+interface DeliveryRow {
+  seq: number;
+  id: string;
+  subscription_id: string;
+  /** URL of the subscription when the event was queued */
+  url: string;
+  session_id: string;
+  data_type: string;
+  payload: string;
+  status: 'pending' | 'dead';
+  attempts: number;
+  next_attempt_at: number;
+  last_error: string | null;
+  created_at: number;
+  dead_at: number | null;
+}
+
+interface AttemptRow {
+  id: string;
+  event_id: string;
+  subscription_id: string;
+  url: string;
+  session_id: string;
+  data_type: string;
+  payload: string;
+  attempt: number;
+  test: number;
+  success: number;
+  status_code: number | null;
+  latency_ms: number;
+  response_body: string | null;
+  error: string | null;
+  attempted_at: number;
+}
+
+function truncateBody(data: unknown): string | null {
+  if (data === undefined || data === null || data === '') {
+    return null;
+  }
+
+  const text = typeof data === 'string' ? data : JSON.stringify(data);
+  return text.length > RESPONSE_BODY_LIMIT ? `${text.slice(0, RESPONSE_BODY_LIMIT)}…` : text;
+}
+
+function toIso(epochMs: number | null): string | null {
+  return epochMs ? new Date(epochMs).toISOString() : null;
+}
+
+/**
+ * Persistent outbound webhook queue (SQLite, WEBHOOK_QUEUE_PATH). Events are delivered to each subscription
+ * one at a time in the order they were queued; a failing event is retried with exponential backoff and
+ * holds back the ones behind it until it succeeds or is dead-lettered after WEBHOOK_MAX_ATTEMPTS.
+ * Subscriptions do not hold each other back. Pending events survive restarts.
+ *
+ * Every attempt is also recorded in a delivery log (status, latency, start of the answer) kept for
+ * WEBHOOK_LOG_RETENTION_DAYS / WEBHOOK_LOG_MAX_ENTRIES, from which events can be replayed.
+ */
+class WebhookQueue {
+  private db: Database | null = null;
+  private running = false;
+  // closed by shutdown for good, the database is never reopened
+  private closed = false;
+  private timer: NodeJS.Timeout | null = null;
+  private pumpScheduled = false;
+  private pruneTimer: NodeJS.Timeout | null = null;
+  // subscriptions with a request waiting for an answer
+  private inFlight: Set<string> = new Set();
+
+  /**
+   * Start delivering queued events (including the ones left over from a previous run)
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    const { pending, dead } = this.getStats();
+    logger.info({ path: config.webhookQueuePath, pending, dead }, 'Webhook queue started');
+
+    this.pruneLog();
+    this.pruneTimer = setInterval(() => this.pruneLog(), LOG_PRUNE_INTERVAL_MS);
+    this.pruneTimer.unref();
+
+    this.pump();
+  }
+
+  /**
+   * Stop starting new deliveries; requests already sent still complete
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  close(): void {
+    this.stop();
+    this.closed = true;
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Queue an event for a subscription; returns its event id
+   */
+  enqueue(subscription: WebhookSubscription, payload: WebhookPayload): string {
+    const id = randomUUID();
+    this.getDb()
+      .query<unknown, [string, string, string, string, string, string, number]>(
+        `INSERT INTO deliveries (id, subscription_id, url, session_id, data_type, payload, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        id,
+        subscription.id,
+        subscription.url,
+        payload.sessionId,
+        payload.dataType,
+        encryptionService.encryptString(JSON.stringify(payload)),
+        Date.now()
+      );
+
+    // a subscription waiting for an answer picks the event up once it is answered
+    if (!this.inFlight.has(subscription.id)) {
+      this.schedulePump();
+    }
+    return id;
+  }
+
+  /**
+   * Events of a session not delivered yet (queued, retrying or being posted)
+   */
+  getBacklog(sessionId: string): number {
+    return this.getDb()
+      .query<{ count: number }, [string]>(
+        "SELECT COUNT(*) AS count FROM deliveries WHERE session_id = ? AND status = 'pending'"
+      )
+      .get(sessionId)!.count;
+  }
+
+  /**
+   * Requests waiting for an endpoint to answer
+   */
+  getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  getStats(): WebhookQueueStats {
+    const counts = this.getDb()
+      .query<{ subscription_id: string; url: string; pending: number; dead: number; oldest: number | null }, []>(
+        `SELECT subscription_id, MAX(url) AS url,
+          SUM(status = 'pending') AS pending,
+          SUM(status = 'dead') AS dead,
+          MIN(CASE WHEN status = 'pending' THEN created_at END) AS oldest
+        FROM deliveries GROUP BY subscription_id ORDER BY subscription_id`
+      )
+      .all();
+    const heads = new Map(this.getHeads().map((row) => [row.subscription_id, row]));
+
+    const endpoints: WebhookEndpointQueueStats[] = counts.map((row) => {
+      const head = heads.get(row.subscription_id);
+      return {
+        subscriptionId: row.subscription_id,
+        url: webhookSubscriptions.get(row.subscription_id)?.url ?? row.url,
+        pending: row.pending,
+        dead: row.dead,
+        inFlight: this.inFlight.has(row.subscription_id),
+        oldestPendingAt: toIso(row.oldest),
+        nextAttemptAt: head && head.next_attempt_at > Date.now() ? toIso(head.next_attempt_at) : null,
+        attempts: head?.attempts ?? 0,
+        lastError: head?.last_error ?? null,
+      };
+    });
+
+    return {
+      pending: endpoints.reduce((total, endpoint) => total + endpoint.pending, 0),
+      inFlight: this.inFlight.size,
+      dead: endpoints.reduce((total, endpoint) => total + endpoint.dead, 0),
+      endpoints,
+    };
+  }
+
+  /**
+   * Dead-lettered events, most recent first
+   */
+  listDeadLetters(options: { sessionId?: string; subscriptionId?: string; limit?: number } = {}): WebhookDeadLetter[] {
+    const { clause, params } = this.buildDeadLetterFilter(options);
+    const rows = this.getDb()
+      .query<DeliveryRow, Array<string | number>>(
+        `SELECT * FROM deliveries WHERE status = 'dead'${clause} ORDER BY dead_at DESC, seq DESC LIMIT ?`
+      )
+      .all(...params, options.limit ?? 100);
+
+    return rows.map((row) => ({
+      id: row.id,
+      subscriptionId: row.subscription_id,
+      url: row.url,
+      sessionId: row.session_id,
+      dataType: row.data_type,
+      attempts: row.attempts,
+      lastError: row.last_error,
+      createdAt: new Date(row.created_at).toISOString(),
+      deadAt: new Date(row.dead_at ?? row.created_at).toISOString(),
+      payload: JSON.parse(encryptionService.decryptString(row.payload)) as WebhookPayload,
+    }));
+  }
+
+  /**
+   * Queue dead-lettered events again with a fresh attempt budget. They keep their place in the
+   * subscription's order, so they are delivered before events queued after them.
+   */
+  redrive(filter: WebhookDeadLetterFilter = {}): number {
+    const { clause, params } = this.buildDeadLetterFilter(filter);
+    const changes = this.getDb()
+      .query<unknown, string[]>(
+        `UPDATE deliveries SET status = 'pending', attempts = 0, next_attempt_at = 0, last_error = NULL, dead_at = NULL
+        WHERE status = 'dead'${clause}`
+      )
+      .run(...params).changes;
+
+    if (changes > 0) {
+      logger.info({ count: changes, ...filter }, 'Re-driving dead-lettered webhooks');
+      this.pump();
+    }
+
+    return changes;
+  }
+
+  /**
+   * Delete dead-lettered events for good
+   */
+  purgeDeadLetters(filter: WebhookDeadLetterFilter = {}): number {
+    const { clause, params } = this.buildDeadLetterFilter(filter);
+    return this.getDb()
+      .query<unknown, string[]>(`DELETE FROM deliveries WHERE status = 'dead'${clause}`)
+      .run(...params).changes;
+  }
+
+  /**
+   * Drop every queued and dead-lettered event of a deleted subscription
+   */
+  purgeSubscription(subscriptionId: string): number {
+    return this.getDb()
+      .query<unknown, [string]>('DELETE FROM deliveries WHERE subscription_id = ?')
+      .run(subscriptionId).changes;
+  }
+
+  /**
+   * Logged delivery attempts, most recent first
+   */
+  listDeliveries(filter: WebhookDeliveryFilter = {}): WebhookDeliveryAttempt[] {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    for (const [column, value] of [
+      ['subscription_id', filter.subscriptionId],
+      ['session_id', filter.sessionId],
+      ['event_id', filter.eventId],
+      ['data_type', filter.dataType],
+    ] as const) {
+      if (value) {
+        conditions.push(`${column} = ?`);
+        params.push(value);
+      }
+    }
+    if (filter.success !== undefined) {
+      conditions.push('success = ?');
+      params.push(filter.success ? 1 : 0);
+    }
+    if (filter.since !== undefined) {
+      conditions.push('attempted_at >= ?');
+      params.push(filter.since);
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    return this.getDb()
+      .query<AttemptRow, Array<string | number>>(`SELECT * FROM attempts${where} ORDER BY seq DESC LIMIT ?`)
+      .all(...params, filter.limit ?? 100)
+      .map((row) => ({
+        id: row.id,
+        eventId: row.event_id,
+        subscriptionId: row.subscription_id,
+        url: row.url,
+        sessionId: row.session_id,
+        dataType: row.data_type,
+        attempt: row.attempt,
+        test: row.test === 1,
+        success: row.success === 1,
+        statusCode: row.status_code,
+        latencyMs: row.latency_ms,
+        responseBody: row.response_body,
+        error: row.error,
+        attemptedAt: new Date(row.attempted_at).toISOString(),
+      }));
+  }
+
+  /**
+   * Queue the event of a logged attempt again for its subscription, as a new event behind the ones
+   * already queued. Returns the new event id.
+   */
+  replay(attemptId: string): { eventId: string; subscriptionId: string } {
+    const row = this.getDb().query<AttemptRow, [string]>('SELECT * FROM attempts WHERE id = ?').get(attemptId);
+    if (!row) {
+      throw new WebhookDeliveryError(`Webhook delivery not found: ${attemptId}`, 404, 'delivery_not_found');
+    }
+
+    const subscription = webhookSubscriptions.get(row.subscription_id);
+    if (!subscription) {
+      throw new WebhookDeliveryError(
+        `Webhook subscription no longer exists: ${row.subscription_id}`,
+        409,
+        'subscription_not_found'
+      );
+    }
+
+    const payload = JSON.parse(encryptionService.decryptString(row.payload)) as WebhookPayload;
+    const eventId = this.enqueue(subscription, payload);
+    logger.info({ attemptId, originalEventId: row.event_id, eventId, subscriptionId: subscription.id }, 'Replaying webhook');
+
+    return { eventId, subscriptionId: subscription.id };
+  }
+
+  /**
+   * Post an event to a subscription right away, bypassing the queue, and return the endpoint's answer
+   */
+  async sendTest(
+    subscription: WebhookSubscription,
+    payload: WebhookPayload
+  ): Promise<WebhookAttemptResult & { eventId: string }> {
+    const eventId = randomUUID();
+    const result = await this.post(subscription, eventId, Date.now(), payload);
+
+    this.logAttempt(
+      eventId,
+      subscription,
+      {
+        session_id: payload.sessionId,
+        data_type: payload.dataType,
+        payload: encryptionService.encryptString(JSON.stringify(payload)),
+      },
+      1,
+      result,
+      true
+    );
+
+    return { eventId, ...result };
+  }
+
+  /**
+   * Rewrite queued and logged payloads with the current encryption key
+   */
+  reencrypt(): number {
+    const db = this.getDb();
+    const update = db.query<unknown, [string, number]>('UPDATE deliveries SET payload = ? WHERE seq = ?');
+
+    const updateAttempt = db.query<unknown, [string, number]>('UPDATE attempts SET payload = ? WHERE seq = ?');
+    let rewritten = 0;
+
+    db.transaction(() => {
+      for (const [table, statement] of [['deliveries', update], ['attempts', updateAttempt]] as const) {
+        for (const row of db.query<{ seq: number; payload: string }, []>(`SELECT seq, payload FROM ${table}`).all()) {
+          if (encryptionService.needsRotation(row.payload)) {
+            statement.run(encryptionService.encryptString(encryptionService.decryptString(row.payload)), row.seq);
+            rewritten += 1;
+          }
+        }
+      }
+    })();
+
+    return rewritten;
+  }
+
+  private logAttempt(
+    eventId: string,
+    subscription: WebhookSubscription,
+    event: Pick<DeliveryRow, 'session_id' | 'data_type' | 'payload'>,
+    attempt: number,
+    result: WebhookAttemptResult,
+    test: boolean
+  ): void {
+    if (config.webhookLogMaxEntries === 0) {
+      return;
+    }
+
+    this.getDb()
+      .query<
+        unknown,
+        [string, string, string, string, string, string, string, number, number, number, number | null, number, string | null, string | null, number]
+      >(
+        `INSERT INTO attempts (id, event_id, subscription_id, url, session_id, data_type, payload, attempt, test, success,
+          status_code, latency_ms, response_body, error, attempted_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        randomUUID(),
+        eventId,
+        subscription.id,
+        subscription.url,
+        event.session_id,
+        event.data_type,
+        event.payload,
+        attempt,
+        test ? 1 : 0,
+        result.success ? 1 : 0,
+        result.statusCode,
+        result.latencyMs,
+        result.responseBody,
+        result.error,
+        Date.now()
+      );
+  }
+
+  /**
+   * Drop log entries older than WEBHOOK_LOG_RETENTION_DAYS and beyond WEBHOOK_LOG_MAX_ENTRIES
+   */
+  private pruneLog(): void {
+    const db = this.getDb();
+    let removed = 0;
+
+    if (config.webhookLogRetentionDays > 0) {
+      const cutoff = Date.now() - config.webhookLogRetentionDays * 24 * 60 * 60 * 1000;
+      removed += db.query<unknown, [number]>('DELETE FROM attempts WHERE attempted_at < ?').run(cutoff).changes;
+    }
+
+    removed += db
+      .query<unknown, [number]>(
+        'DELETE FROM attempts WHERE seq <= (SELECT seq FROM attempts ORDER BY seq DESC LIMIT 1 OFFSET ?)'
+      )
+      .run(config.webhookLogMaxEntries).changes;
+
+    if (removed > 0) {
+      logger.debug({ removed }, 'Pruned webhook delivery log');
+    }
+  }
+
+  private getDb(): Database {
+    if (this.closed) {
+      throw new Error('Webhook queue is closed');
+    }
+
+    if (!this.db) {
+      fs.mkdirSync(path.dirname(config.webhookQueuePath), { recursive: true });
+      this.db = new Database(config.webhookQueuePath, { create: true });
+      this.db.exec('PRAGMA journal_mode = WAL;');
+      this.db.exec('PRAGMA synchronous = NORMAL;');
+      this.db.exec(SCHEMA);
+      this.migrateSchema(this.db);
+      this.db.exec(INDEXES);
+    }
+
+    return this.db;
+  }
+
+  private migrateSchema(db: Database): void {
+    const columns = db.query<{ name: string }, []>('PRAGMA table_info(deliveries)').all();
+    if (!columns.some((column) => column.name === 'subscription_id')) {
+      // queues written before subscriptions existed only held BASE_WEBHOOK_URL deliveries
+      db.exec(`ALTER TABLE deliveries ADD COLUMN subscription_id TEXT NOT NULL DEFAULT '${DEFAULT_SUBSCRIPTION_ID}';`);
+      db.exec('DROP INDEX IF EXISTS idx_deliveries_queue;');
+    }
+  }
+
+  /**
+   * Oldest pending event of every subscription
+   */
+  private getHeads(): DeliveryRow[] {
+    return this.getDb()
+      .query<DeliveryRow, []>(
+        `SELECT deliveries.* FROM deliveries
+        JOIN (SELECT MIN(seq) AS seq FROM deliveries WHERE status = 'pending' GROUP BY subscription_id) heads
+          ON deliveries.seq = heads.seq`
+      )
+      .all();
+  }
+
+  /**
+   * Pump once for a burst of queued events instead of querying the heads for each of them
+   */
+  private schedulePump(): void {
+    if (this.pumpScheduled) {
+      return;
+    }
+
+    this.pumpScheduled = true;
+    setImmediate(() => {
+      this.pumpScheduled = false;
+      this.pump();
+    });
+  }
+
+  /**
+   * Post the due head of every idle subscription and wake up again when the next retry is due
+   */
+  private pump(): void {
+    if (!this.running) {
+      return;
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    let nextWake: number | null = null;
+
+    for (const head of this.getHeads()) {
+      if (this.inFlight.has(head.subscription_id)) {
+        continue;
+      }
+
+      if (head.next_attempt_at <= now) {
+        void this.deliver(head);
+      } else if (nextWake === null || head.next_attempt_at < nextWake) {
+        nextWake = head.next_attempt_at;
+      }
+    }
+
+    if (nextWake !== null) {
+      this.timer = setTimeout(() => this.pump(), nextWake - now);
+      this.timer.unref();
+    }
+  }
+
+  private async deliver(row: DeliveryRow): Promise<void> {
+    const subscription = webhookSubscriptions.get(row.subscription_id);
+    if (!subscription) {
+      // e.g. BASE_WEBHOOK_URL was removed while events were still queued for it
+      const count = this.getDb()
+        .query<unknown, [string, number, string]>(
+          "UPDATE deliveries SET status = 'dead', last_error = ?, dead_at = ? WHERE subscription_id = ? AND status = 'pending'"
+        )
+        .run(`Webhook subscription no longer exists: ${row.subscription_id}`, Date.now(), row.subscription_id).changes;
+      logger.error({ subscriptionId: row.subscription_id, count }, 'Webhook subscription gone, queued events dead-lettered');
+      this.pump();
+      return;
+    }
+
+    this.inFlight.add(row.subscription_id);
+    const attempt = row.attempts + 1;
+
+    try {
+      logger.debug(
+        { sessionId: row.session_id, dataType: row.data_type, subscriptionId: subscription.id, url: subscription.url, attempt },
+        'Sending webhook'
+      );
+
+      const payload = JSON.parse(encryptionService.decryptString(row.payload)) as WebhookPayload;
+      const result = await this.post(subscription, row.id, row.created_at, payload);
+      if (this.closed) {
+        // the answer came after shutdown closed the queue: the event is still queued and posted again after the next start
+        logger.warn(
+          { sessionId: row.session_id, subscriptionId: subscription.id, eventId: row.id },
+          'Webhook answered after the queue closed'
+        );
+        return;
+      }
+
+      this.logAttempt(row.id, subscription, row, attempt, result, false);
+
+      if (result.success) {
+        this.getDb().query<unknown, [number]>('DELETE FROM deliveries WHERE seq = ?').run(row.seq);
+        logger.info(
+          { sessionId: row.session_id, dataType: row.data_type, subscriptionId: subscription.id, attempt },
+          'Webhook delivered successfully'
+        );
+      } else {
+        this.recordFailure(row, subscription.url, attempt, result);
+      }
+    } catch (error) {
+      // the payload could not be read (e.g. missing encryption key)
+      this.recordFailure(row, subscription.url, attempt, {
+        success: false,
+        statusCode: null,
+        latencyMs: 0,
+        responseBody: null,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      this.inFlight.delete(row.subscription_id);
+      this.pump();
+    }
+  }
+
+  /**
+   * Post a signed event in the subscription's payload format; never throws, failures are described by the result
+   */
+  private async post(
+    subscription: WebhookSubscription,
+    eventId: string,
+    emittedAt: number,
+    payload: WebhookPayload
+  ): Promise<WebhookAttemptResult> {
+    const startedAt = Date.now();
+
+    try {
+      const { body, headers } = renderWebhookPayload(subscription.format, { id: eventId, time: emittedAt, payload });
+
+      // the body is sent as a string so the signature covers the exact bytes the endpoint receives
+      const response = await axios.post(subscription.url, body, {
+        headers: {
+          ...headers,
+          ...signWebhook(webhookSubscriptions.getSigningSecrets(subscription), eventId, body),
+        },
+        timeout: config.webhookTimeout,
+        transformRequest: (data: string) => data,
+        responseType: 'text',
+        transformResponse: (data: unknown) => data,
+      });
+
+      return {
+        success: true,
+        statusCode: response.status,
+        latencyMs: Date.now() - startedAt,
+        responseBody: truncateBody(response.data),
+        error: null,
+      };
+    } catch (error) {
+      const response = axios.isAxiosError(error) ? error.response : undefined;
+      return {
+        success: false,
+        statusCode: response?.status ?? null,
+        latencyMs: Date.now() - startedAt,
+        responseBody: truncateBody(response?.data),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  private recordFailure(row: DeliveryRow, url: string, attempt: number, result: WebhookAttemptResult): void {
+    const status = result.statusCode;
+    const errorMessage = result.error || 'Unknown error';
+    const final = status !== null && status >= 400 && status < 500 && !RETRYABLE_CLIENT_STATUSES.has(status);
+    const context = {
+      sessionId: row.session_id,
+      dataType: row.data_type,
+      subscriptionId: row.subscription_id,
+      url,
+      attempt,
+      statusCode: status,
+      error: errorMessage,
+    };
+
+    if (final || attempt >= config.webhookMaxAttempts) {
+      this.markDead(row, attempt, errorMessage);
+      logger.error(context, final ? 'Webhook rejected by endpoint, dead-lettered' : 'Webhook dead-lettered after max attempts');
+      return;
+    }
+
+    const delay = Math.min(config.webhookRetryBaseDelay * 2 ** (attempt - 1), config.webhookRetryMaxDelay);
+    this.getDb()
+      .query<unknown, [number, string, number, number]>(
+        'UPDATE deliveries SET attempts = ?, last_error = ?, next_attempt_at = ? WHERE seq = ?'
+      )
+      .run(attempt, errorMessage, Date.now() + delay, row.seq);
+    logger.warn({ ...context, retryInMs: delay }, 'Failed to deliver webhook, will retry');
+  }
+
+  private markDead(row: DeliveryRow, attempts: number, lastError: string): void {
+    this.getDb()
+      .query<unknown, [number, string, number, number]>(
+        "UPDATE deliveries SET status = 'dead', attempts = ?, last_error = ?, dead_at = ? WHERE seq = ?"
+      )
+      .run(attempts, lastError, Date.now(), row.seq);
+  }
+
+  private buildDeadLetterFilter(filter: WebhookDeadLetterFilter): { clause: string; params: string[] } {
+    if (filter.ids) {
+      return { clause: ` AND id IN (${filter.ids.map(() => '?').join(', ') || 'NULL'})`, params: filter.ids };
+    }
+
+    let clause = '';
+    const params: string[] = [];
+    if (filter.sessionId) {
+      clause += ' AND session_id = ?';
+      params.push(filter.sessionId);
+    }
+    if (filter.subscriptionId) {
+      clause += ' AND subscription_id = ?';
+      params.push(filter.subscriptionId);
+    }
+
+    return { clause, params };
+  }
+}
+
+export const webhookQueue = new WebhookQueue();
+export default webhookQueue;
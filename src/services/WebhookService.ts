@@ -1,20 +1,20 @@
-import axios from 'axios';
 import config from '../config';
 import logger from '../logger';
-import webSocketService from './WebSocketService';
-import type { WebhookPayload } from '../types';
+import eventBus from './EventBus';
+import webhookQueue from './WebhookQueue';
+import webhookSubscriptions from './WebhookSubscriptions';
+import { toWwebjsState } from './SessionStateMachine';
+import type { BusEvent, PollVoteData, SessionStatus, WebhookPayload } from '../types';
 
 class WebhookService {
-  private baseUrl: string;
-  private apiKey: string;
   private enabled: boolean;
   private disabledCallbacks: Set<string>;
 
   constructor() {
-    this.baseUrl = config.baseWebhookUrl;
-    this.apiKey = config.apiKey;
     this.enabled = config.enableWebhook;
     this.disabledCallbacks = new Set(config.disabledCallbacks);
+
+    eventBus.subscribe('webhooks', (event) => this.enqueue(event));
   }
 
   /**
@@ -25,7 +25,8 @@ class WebhookService {
   }
 
   /**
-   * Send webhook to the configured URL
+   * Publish an event to the event bus, which hands it to websocket listeners and to every matching
+   * webhook subscription; only waits when the bus backlog is full
    */
   async send(sessionId: string, dataType: string, data: unknown): Promise<void> {
     if (!this.isCallbackEnabled(dataType)) {
@@ -33,44 +34,14 @@ class WebhookService {
       return;
     }
 
-    // Push to websocket listeners regardless of webhook configuration.
-    webSocketService.broadcast(sessionId, dataType, data);
-
-    if (!this.enabled) {
-      logger.debug({ sessionId, dataType }, 'Webhook delivery disabled (ENABLE_WEBHOOK=false)');
-      return;
-    }
-
-    if (!this.baseUrl) {
-      logger.debug({ sessionId, dataType }, 'No webhook URL configured, skipping HTTP webhook');
-      return;
-    }
-
-    const payload: WebhookPayload = {
-      sessionId,
-      dataType,
-      data,
-    };
+    await eventBus.publish(sessionId, dataType, data);
+  }
 
-    try {
-      logger.debug({ sessionId, dataType, url: this.baseUrl }, 'Sending webhook');
-
-      await axios.post(this.baseUrl, payload, {
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': this.apiKey,
-        },
-        timeout: 30000,
-      });
-
-      logger.info({ sessionId, dataType }, 'Webhook delivered successfully');
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.error(
-        { sessionId, dataType, error: errorMessage, url: this.baseUrl },
-        'Failed to deliver webhook'
-      );
-    }
+  /**
+   * Number of webhook events of a session not delivered yet (queued, retrying or being posted)
+   */
+  getBacklog(sessionId: string): number {
+    return webhookQueue.getBacklog(sessionId);
   }
 
   /**
@@ -136,6 +107,27 @@ class WebhookService {
     await this.send(sessionId, 'message_revoke_everyone', { message, revokedMsg });
   }
 
+  /**
+   * Send message edited webhook
+   */
+  async sendMessageEdit(sessionId: string, message: unknown, newBody: string, prevBody: string | null): Promise<void> {
+    await this.send(sessionId, 'message_edit', { message, newBody, prevBody });
+  }
+
+  /**
+   * Send message deleted for me webhook
+   */
+  async sendMessageRevokeMe(sessionId: string, message: unknown): Promise<void> {
+    await this.send(sessionId, 'message_revoke_me', message);
+  }
+
+  /**
+   * Send poll vote webhook
+   */
+  async sendVoteUpdate(sessionId: string, vote: PollVoteData): Promise<void> {
+    await this.send(sessionId, 'vote_update', vote);
+  }
+
   /**
    * Send message reaction webhook
    */
@@ -172,10 +164,20 @@ class WebhookService {
   }
 
   /**
-   * Send state change webhook
+   * Send state change webhook (`state` is the wwebjs-style name, `status` the lifecycle state)
    */
-  async sendStateChange(sessionId: string, state: string): Promise<void> {
-    await this.send(sessionId, 'change_state', { state });
+  async sendStateChange(
+    sessionId: string,
+    status: SessionStatus,
+    details: { previous: SessionStatus; reason: string | null; statusCode: number | null }
+  ): Promise<void> {
+    await this.send(sessionId, 'change_state', {
+      state: toWwebjsState(status),
+      status,
+      previousStatus: details.previous,
+      reason: details.reason,
+      statusCode: details.statusCode,
+    });
   }
 
   /**
@@ -226,6 +228,33 @@ class WebhookService {
   async sendRemoteSessionSaved(sessionId: string): Promise<void> {
     await this.send(sessionId, 'remote_session_saved', {});
   }
+
+  /**
+   * Event bus sink: queue an event for delivery to every matching webhook subscription
+   */
+  private enqueue({ sessionId, dataType, data }: BusEvent): void {
+    if (!this.enabled) {
+      logger.debug({ sessionId, dataType }, 'Webhook delivery disabled (ENABLE_WEBHOOK=false)');
+      return;
+    }
+
+    const subscriptions = webhookSubscriptions.match(sessionId, dataType, data);
+    if (subscriptions.length === 0) {
+      logger.debug({ sessionId, dataType }, 'No webhook subscription matches, skipping HTTP webhook');
+      return;
+    }
+
+    const payload: WebhookPayload = {
+      sessionId,
+      dataType,
+      data,
+    };
+
+    // each subscription has its own queue, a failing endpoint does not hold back the others
+    for (const subscription of subscriptions) {
+      webhookQueue.enqueue(subscription, payload);
+    }
+  }
 }
 
 export const webhookService = new WebhookService();
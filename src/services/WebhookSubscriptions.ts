@@ -0,0 +1,344 @@
+import { randomBytes, randomUUID } from 'crypto';
+import fs from 'fs';
+
+import config from '../config';
+import logger from '../logger';
+import encryptionService from './EncryptionService';
+import { writeFileAtomic } from './store/storeUtils';
+import { getEventContext, type EventContext } from '../utils/eventContext';
+import { isGroupJid, toWwebjsJid } from '../utils/jidHelper';
+import type {
+  WebhookSubscription,
+  WebhookSubscriptionFilters,
+  WebhookSubscriptionUpdate,
+  WebhookSubscriptionView,
+} from '../types';
+
+// Id of the subscription configured by BASE_WEBHOOK_URL / WEBHOOK_SECRET
+export const DEFAULT_SUBSCRIPTION_ID = 'default';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'qr',
+  'ready',
+  'authenticated',
+  'auth_failure',
+  'disconnected',
+  'message',
+  'message_create',
+  'message_ack',
+  'message_revoke_everyone',
+  'message_revoke_me',
+  'message_edit',
+  'message_reaction',
+  'vote_update',
+  'group_join',
+  'group_leave',
+  'group_update',
+  'call',
+  'change_state',
+  'loading_screen',
+  'contact_changed',
+  'chat_removed',
+  'chat_archived',
+  'unread_count',
+  'media_uploaded',
+  'remote_session_saved',
+] as const;
+
+const EMPTY_FILTERS: WebhookSubscriptionFilters = {
+  chatAllowlist: [],
+  chatDenylist: [],
+  groupsOnly: false,
+  excludeFromMe: false,
+  messageTypes: [],
+};
+
+/**
+ * Error raised for subscription operations the API must refuse; carries the HTTP status to answer with
+ */
+export class WebhookSubscriptionError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'WebhookSubscriptionError';
+  }
+}
+
+/** A subscription with its session selector compiled, as matched against every published event */
+interface CompiledSubscription {
+  subscription: WebhookSubscription;
+  /** null selects every session */
+  sessions: RegExp | null;
+}
+
+/**
+ * Compile session id patterns (`*` matches any run of characters) into a single regex
+ */
+function compileSessionSelector(patterns: string[]): RegExp | null {
+  if (patterns.length === 0) {
+    return null;
+  }
+
+  const alternatives = patterns.map((pattern) => pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*'));
+  return new RegExp(`^(?:${alternatives.join('|')})$`);
+}
+
+function matchesFilters(filters: WebhookSubscriptionFilters, context: EventContext): boolean {
+  if (context.chatId) {
+    const chatId = toWwebjsJid(context.chatId);
+    if (filters.chatAllowlist.length > 0 && !filters.chatAllowlist.includes(chatId)) {
+      return false;
+    }
+    if (filters.chatDenylist.includes(chatId)) {
+      return false;
+    }
+    if (filters.groupsOnly && !isGroupJid(chatId)) {
+      return false;
+    }
+  }
+
+  if (filters.excludeFromMe && context.fromMe) {
+    return false;
+  }
+
+  if (context.messageType && filters.messageTypes.length > 0 && !filters.messageTypes.includes(context.messageType)) {
+    return false;
+  }
+
+  return true;
+}
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * Persisted webhook subscriptions: each has its own URL, signing secrets, payload format, session selector,
+ * event types and content filters, and receives every matching event through its own delivery queue.
+ * Kept in a single JSON file, encrypted like the session registry. BASE_WEBHOOK_URL is exposed as the
+ * built-in `default` subscription, configured by environment only.
+ */
+class WebhookSubscriptions {
+  private subscriptions: Map<string, WebhookSubscription> | null = null;
+  // sorted like list(), rebuilt after the next save()
+  private compiled: CompiledSubscription[] | null = null;
+  private filePath: string;
+
+  constructor() {
+    this.filePath = config.webhookSubscriptionsPath;
+  }
+
+  /**
+   * All subscriptions, the built-in one first
+   */
+  list(): WebhookSubscription[] {
+    return this.getCompiled().map(({ subscription }) => subscription);
+  }
+
+  get(id: string): WebhookSubscription | undefined {
+    return id === DEFAULT_SUBSCRIPTION_ID ? this.getBuiltIn() : this.load().get(id);
+  }
+
+  /**
+   * Enabled subscriptions that want an event of `sessionId`
+   */
+  match(sessionId: string, dataType: string, data: unknown): WebhookSubscription[] {
+    const context = getEventContext(dataType, data);
+
+    return this.getCompiled()
+      .filter(
+        ({ subscription, sessions }) =>
+          subscription.enabled &&
+          (!sessions || sessions.test(sessionId)) &&
+          (subscription.dataTypes.length === 0 || subscription.dataTypes.includes(dataType)) &&
+          matchesFilters(subscription.filters, context)
+      )
+      .map(({ subscription }) => subscription);
+  }
+
+  /**
+   * Active signing secrets of a subscription, current first
+   */
+  getSigningSecrets(subscription: WebhookSubscription): string[] {
+    return [subscription.secret, subscription.previousSecret].filter((secret): secret is string => !!secret);
+  }
+
+  /**
+   * Create a subscription; without an explicit `secret` (null = unsigned) one is generated
+   */
+  create(input: WebhookSubscriptionUpdate & { url: string }): WebhookSubscription {
+    const now = new Date().toISOString();
+    const subscription = this.apply(
+      {
+        id: randomUUID(),
+        url: input.url,
+        description: null,
+        enabled: true,
+        sessions: [],
+        dataTypes: [],
+        filters: EMPTY_FILTERS,
+        format: 'wwebjs',
+        secret: input.secret === undefined ? generateSecret() : null,
+        previousSecret: null,
+        createdAt: now,
+        updatedAt: now,
+      },
+      input
+    );
+
+    this.load().set(subscription.id, subscription);
+    this.save();
+    logger.info({ subscriptionId: subscription.id, url: subscription.url }, 'Webhook subscription created');
+    return subscription;
+  }
+
+  update(id: string, update: WebhookSubscriptionUpdate): WebhookSubscription {
+    const subscription = this.apply(this.getStored(id), update);
+    subscription.updatedAt = new Date().toISOString();
+
+    this.load().set(id, subscription);
+    this.save();
+    return subscription;
+  }
+
+  /**
+   * Start a secret rotation: a new secret becomes current and the old one keeps being signed with
+   * until `previousSecret` is cleared
+   */
+  rotateSecret(id: string): WebhookSubscription {
+    const current = this.getStored(id);
+    return this.update(id, { secret: generateSecret(), previousSecret: current.secret });
+  }
+
+  remove(id: string): void {
+    this.getStored(id);
+    this.load().delete(id);
+    this.save();
+    logger.info({ subscriptionId: id }, 'Webhook subscription deleted');
+  }
+
+  toView(subscription: WebhookSubscription): WebhookSubscriptionView {
+    const { secret, previousSecret, ...fields } = subscription;
+    return {
+      ...fields,
+      builtIn: subscription.id === DEFAULT_SUBSCRIPTION_ID,
+      signed: !!secret,
+      rotating: !!previousSecret,
+    };
+  }
+
+  /**
+   * Rewrite the subscriptions file with the current encryption key
+   */
+  reencrypt(): void {
+    this.load();
+    this.save();
+  }
+
+  private getCompiled(): CompiledSubscription[] {
+    if (!this.compiled) {
+      const stored = [...this.load().values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      const builtIn = this.getBuiltIn();
+
+      this.compiled = (builtIn ? [builtIn, ...stored] : stored).map((subscription) => ({
+        subscription,
+        sessions: compileSessionSelector(subscription.sessions),
+      }));
+    }
+
+    return this.compiled;
+  }
+
+  private getBuiltIn(): WebhookSubscription | undefined {
+    if (!config.baseWebhookUrl) {
+      return undefined;
+    }
+
+    return {
+      id: DEFAULT_SUBSCRIPTION_ID,
+      url: config.baseWebhookUrl,
+      description: 'BASE_WEBHOOK_URL',
+      enabled: true,
+      sessions: [],
+      dataTypes: [],
+      filters: EMPTY_FILTERS,
+      format: config.webhookFormat,
+      secret: config.webhookSecret || null,
+      previousSecret: config.webhookPreviousSecret || null,
+      createdAt: new Date(0).toISOString(),
+      updatedAt: new Date(0).toISOString(),
+    };
+  }
+
+  /**
+   * A subscription the API may change
+   */
+  private getStored(id: string): WebhookSubscription {
+    if (id === DEFAULT_SUBSCRIPTION_ID) {
+      throw new WebhookSubscriptionError(
+        'The default subscription is configured by BASE_WEBHOOK_URL and WEBHOOK_SECRET',
+        409,
+        'subscription_read_only'
+      );
+    }
+
+    const subscription = this.load().get(id);
+    if (!subscription) {
+      throw new WebhookSubscriptionError(`Webhook subscription not found: ${id}`, 404, 'subscription_not_found');
+    }
+
+    return subscription;
+  }
+
+  private apply(current: WebhookSubscription, update: WebhookSubscriptionUpdate): WebhookSubscription {
+    const { filters, ...fields } = update;
+    return {
+      ...current,
+      ...Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)),
+      filters: { ...current.filters, ...filters },
+    };
+  }
+
+  private load(): Map<string, WebhookSubscription> {
+    if (this.subscriptions) {
+      return this.subscriptions;
+    }
+
+    const subscriptions = new Map<string, WebhookSubscription>();
+    if (fs.existsSync(this.filePath)) {
+      // Errors are not caught: subscriptions we cannot read must never be replaced by an empty list
+      const raw = encryptionService.decryptBuffer(fs.readFileSync(this.filePath)).toString('utf-8');
+
+      let parsed: { subscriptions?: WebhookSubscription[] };
+      try {
+        parsed = JSON.parse(raw);
+      } catch (error) {
+        throw new Error(`Webhook subscriptions are corrupt (${this.filePath}): ${error instanceof Error ? error.message : error}`);
+      }
+
+      for (const subscription of parsed.subscriptions || []) {
+        subscriptions.set(subscription.id, {
+          ...subscription,
+          filters: { ...EMPTY_FILTERS, ...subscription.filters },
+          // subscriptions created before payload formats existed keep the original envelope
+          format: subscription.format ?? 'wwebjs',
+        });
+      }
+    }
+
+    this.subscriptions = subscriptions;
+    return subscriptions;
+  }
+
+  private save(): void {
+    this.compiled = null;
+    const data = Buffer.from(JSON.stringify({ subscriptions: [...this.load().values()] }, null, 2));
+    writeFileAtomic(this.filePath, encryptionService.encryptBuffer(data));
+  }
+}
+
+export const webhookSubscriptions = new WebhookSubscriptions();
+export default webhookSubscriptions;
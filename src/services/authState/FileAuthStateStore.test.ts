@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import config, { getSessionPath } from '../../config';
+import { FileAuthStateStore } from './FileAuthStateStore';
+
+const ENTRIES: Record<string, string> = {
+  creds: JSON.stringify({ registrationId: 1 }),
+  'pre-key-1': JSON.stringify({ keyId: 1 }),
+  'session-15551234567.0': JSON.stringify({ session: 'a' }),
+  'sender-key-120363012345678901@g.us::15551234567::0': JSON.stringify({ senderKey: 'b' }),
+  'sender-key-15551234567-1600000000@g.us::15559876543::12': JSON.stringify({ senderKey: 'c' }),
+  'sender-key-memory-120363012345678901@g.us': JSON.stringify({ '15551234567:0@s.whatsapp.net': true }),
+  'app-state-sync-key-AAAA/BBB=': JSON.stringify({ keyData: 'd' }),
+};
+
+describe('FileAuthStateStore', () => {
+  const originalSessionsPath = config.sessionsPath;
+  let sessionsPath: string;
+
+  beforeAll(() => {
+    sessionsPath = fs.mkdtempSync(path.join(os.tmpdir(), 'file-auth-state-'));
+    config.sessionsPath = sessionsPath;
+  });
+
+  afterAll(() => {
+    config.sessionsPath = originalSessionsPath;
+    fs.rmSync(sessionsPath, { recursive: true, force: true });
+  });
+
+  test('exports the keys it imported, sender keys included', async () => {
+    const store = new FileAuthStateStore();
+    await store.importSession('roundtrip', ENTRIES);
+
+    expect(await store.exportSession('roundtrip')).toEqual(ENTRIES);
+  });
+
+  test('writes the file names of useMultiFileAuthState', async () => {
+    const store = new FileAuthStateStore();
+    await store.importSession('layout', ENTRIES);
+
+    const files = fs.readdirSync(getSessionPath('layout'));
+    expect(files).toContain('sender-key-120363012345678901@g.us--15551234567--0.json');
+    expect(files).toContain('app-state-sync-key-AAAA__BBB=.json');
+  });
+
+  test('importing replaces the previous auth state', async () => {
+    const store = new FileAuthStateStore();
+    await store.importSession('replace', { ...ENTRIES, 'pre-key-2': JSON.stringify({ keyId: 2 }) });
+    await store.importSession('replace', ENTRIES);
+
+    expect(await store.exportSession('replace')).toEqual(ENTRIES);
+  });
+});
@@ -0,0 +1,146 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+
+import config, { getSessionPath } from '../../config';
+import { CREDS_KEY, isAuthStateKey, makeKeyValueAuthState, type AuthStateKeyValue } from './keyValueAuthState';
+import type { AuthStateStore, SessionAuthState } from '../../types';
+
+const SESSION_DIR_PREFIX = 'session-';
+
+/**
+ * Stores creds and signal keys as one JSON file per key under `session-<id>`.
+ * On-disk layout is identical to Baileys' useMultiFileAuthState.
+ */
+export class FileAuthStateStore implements AuthStateStore {
+  readonly backend = 'file' as const;
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  async useAuthState(sessionId: string): Promise<SessionAuthState> {
+    const folder = getSessionPath(sessionId);
+    await fsp.mkdir(folder, { recursive: true });
+
+    return makeKeyValueAuthState(this.createStorage(folder));
+  }
+
+  async listSessionIds(): Promise<string[]> {
+    if (!fs.existsSync(config.sessionsPath)) {
+      return [];
+    }
+
+    const entries = await fsp.readdir(config.sessionsPath, { withFileTypes: true });
+
+    return entries
+      .filter((entry) => entry.isDirectory() && entry.name.startsWith(SESSION_DIR_PREFIX))
+      .filter((entry) => fs.existsSync(path.join(config.sessionsPath, entry.name, this.toFileName(CREDS_KEY))))
+      .map((entry) => entry.name.slice(SESSION_DIR_PREFIX.length));
+  }
+
+  async hasSession(sessionId: string): Promise<boolean> {
+    return fs.existsSync(path.join(getSessionPath(sessionId), this.toFileName(CREDS_KEY)));
+  }
+
+  async removeSession(sessionId: string): Promise<void> {
+    await fsp.rm(getSessionPath(sessionId), { recursive: true, force: true });
+  }
+
+  async readEntry(sessionId: string, key: string): Promise<string | null> {
+    return this.createStorage(getSessionPath(sessionId)).read(key);
+  }
+
+  async exportSession(sessionId: string): Promise<Record<string, string>> {
+    const folder = getSessionPath(sessionId);
+    if (!fs.existsSync(folder)) {
+      return {};
+    }
+
+    const storage = this.createStorage(folder);
+    const entries: Record<string, string> = {};
+
+    for (const fileName of await fsp.readdir(folder)) {
+      if (!fileName.endsWith('.json')) {
+        continue;
+      }
+
+      const key = this.toKey(fileName);
+      if (!isAuthStateKey(key)) {
+        continue;
+      }
+
+      const value = await storage.read(key);
+      if (value !== null) {
+        entries[key] = value;
+      }
+    }
+
+    return entries;
+  }
+
+  async importSession(sessionId: string, entries: Record<string, string>): Promise<void> {
+    const folder = getSessionPath(sessionId);
+    await fsp.mkdir(folder, { recursive: true });
+
+    for (const fileName of await fsp.readdir(folder)) {
+      if (fileName.endsWith('.json') && isAuthStateKey(this.toKey(fileName))) {
+        await fsp.unlink(path.join(folder, fileName)).catch(() => undefined);
+      }
+    }
+
+    const storage = this.createStorage(folder);
+    await Promise.all(Object.entries(entries).map(([key, value]) => storage.write(key, value)));
+  }
+
+  async close(): Promise<void> {
+    // nothing to release
+  }
+
+  private createStorage(folder: string): AuthStateKeyValue {
+    return {
+      read: (key) => {
+        const filePath = path.join(folder, this.toFileName(key));
+        return this.withLock(filePath, () => fsp.readFile(filePath, 'utf-8').catch(() => null));
+      },
+      write: (key, value) => {
+        const filePath = path.join(folder, this.toFileName(key));
+        return this.withLock(filePath, () => fsp.writeFile(filePath, value));
+      },
+      remove: (key) => {
+        const filePath = path.join(folder, this.toFileName(key));
+        return this.withLock(filePath, () => fsp.unlink(filePath).catch(() => undefined));
+      },
+    };
+  }
+
+  private toFileName(key: string): string {
+    return `${key.replace(/\//g, '__').replace(/:/g, '-')}.json`;
+  }
+
+  /**
+   * Key stored in a file, the reverse of toFileName. The only `:` in keys are the `::` separators of
+   * sender key names (`<group>::<user>::<device>`), so `--` maps back to `::` while the single `-` of
+   * key types and group JIDs stays as is.
+   */
+  private toKey(fileName: string): string {
+    return fileName.slice(0, -'.json'.length).replace(/--/g, '::').replace(/__/g, '/');
+  }
+
+  /**
+   * Serialise reads/writes per file, concurrent writes to the same key would otherwise interleave
+   */
+  private withLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(filePath) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    const tail = next.catch(() => undefined);
+
+    this.locks.set(filePath, tail);
+    void tail.then(() => {
+      if (this.locks.get(filePath) === tail) {
+        this.locks.delete(filePath);
+      }
+    });
+
+    return next;
+  }
+}
+
+export default FileAuthStateStore;
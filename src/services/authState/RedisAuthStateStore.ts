@@ -0,0 +1,86 @@
+import { RedisClient } from 'bun';
+
+import { CREDS_KEY, makeKeyValueAuthState } from './keyValueAuthState';
+import type { AuthStateStore, SessionAuthState } from '../../types';
+
+/**
+ * Stores creds and signal keys in a Redis-compatible server (Redis, Valkey, KeyDB, ...).
+ * Each session is one hash `<prefix>:session:<id>`; `<prefix>:sessions` indexes sessions with creds.
+ */
+export class RedisAuthStateStore implements AuthStateStore {
+  readonly backend = 'redis' as const;
+  private client: RedisClient;
+  private prefix: string;
+
+  constructor(url: string, prefix: string) {
+    this.client = url ? new RedisClient(url) : new RedisClient();
+    this.prefix = prefix;
+  }
+
+  async useAuthState(sessionId: string): Promise<SessionAuthState> {
+    const hashKey = this.sessionKey(sessionId);
+
+    return makeKeyValueAuthState({
+      read: (key) => this.client.hget(hashKey, key),
+      write: async (key, value) => {
+        await this.client.hset(hashKey, { [key]: value });
+        if (key === CREDS_KEY) {
+          await this.client.sadd(this.indexKey(), sessionId);
+        }
+      },
+      remove: async (key) => {
+        await this.client.hdel(hashKey, key);
+      },
+    });
+  }
+
+  async listSessionIds(): Promise<string[]> {
+    const sessionIds = await this.client.smembers(this.indexKey());
+    return sessionIds.sort();
+  }
+
+  async hasSession(sessionId: string): Promise<boolean> {
+    return this.client.sismember(this.indexKey(), sessionId);
+  }
+
+  async removeSession(sessionId: string): Promise<void> {
+    await this.client.del(this.sessionKey(sessionId));
+    await this.client.srem(this.indexKey(), sessionId);
+  }
+
+  async readEntry(sessionId: string, key: string): Promise<string | null> {
+    return this.client.hget(this.sessionKey(sessionId), key);
+  }
+
+  async exportSession(sessionId: string): Promise<Record<string, string>> {
+    return (await this.client.hgetall(this.sessionKey(sessionId))) || {};
+  }
+
+  async importSession(sessionId: string, entries: Record<string, string>): Promise<void> {
+    await this.client.del(this.sessionKey(sessionId));
+
+    if (Object.keys(entries).length > 0) {
+      await this.client.hset(this.sessionKey(sessionId), entries);
+    }
+
+    if (entries[CREDS_KEY]) {
+      await this.client.sadd(this.indexKey(), sessionId);
+    } else {
+      await this.client.srem(this.indexKey(), sessionId);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.client.close();
+  }
+
+  private sessionKey(sessionId: string): string {
+    return `${this.prefix}:session:${sessionId}`;
+  }
+
+  private indexKey(): string {
+    return `${this.prefix}:sessions`;
+  }
+}
+
+export default RedisAuthStateStore;
@@ -0,0 +1,105 @@
+import { Database } from 'bun:sqlite';
+import fs from 'fs';
+import path from 'path';
+
+import { CREDS_KEY, makeKeyValueAuthState } from './keyValueAuthState';
+import type { AuthStateStore, SessionAuthState } from '../../types';
+
+/**
+ * Stores creds and signal keys for every session in a single SQLite file.
+ */
+export class SqliteAuthStateStore implements AuthStateStore {
+  readonly backend = 'sqlite' as const;
+  private db: Database;
+
+  constructor(filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    this.db = new Database(filePath, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL;');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS auth_state (
+        session_id TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        PRIMARY KEY (session_id, key)
+      ) WITHOUT ROWID;
+    `);
+  }
+
+  async useAuthState(sessionId: string): Promise<SessionAuthState> {
+    const selectStmt = this.db.query<{ value: string }, [string, string]>(
+      'SELECT value FROM auth_state WHERE session_id = ? AND key = ?'
+    );
+    const upsertStmt = this.db.query<unknown, [string, string, string]>(
+      'INSERT INTO auth_state (session_id, key, value) VALUES (?, ?, ?) ' +
+        'ON CONFLICT (session_id, key) DO UPDATE SET value = excluded.value'
+    );
+    const deleteStmt = this.db.query<unknown, [string, string]>(
+      'DELETE FROM auth_state WHERE session_id = ? AND key = ?'
+    );
+
+    return makeKeyValueAuthState({
+      read: async (key) => selectStmt.get(sessionId, key)?.value ?? null,
+      write: async (key, value) => {
+        upsertStmt.run(sessionId, key, value);
+      },
+      remove: async (key) => {
+        deleteStmt.run(sessionId, key);
+      },
+    });
+  }
+
+  async listSessionIds(): Promise<string[]> {
+    return this.db
+      .query<{ session_id: string }, [string]>('SELECT session_id FROM auth_state WHERE key = ? ORDER BY session_id')
+      .all(CREDS_KEY)
+      .map((row) => row.session_id);
+  }
+
+  async hasSession(sessionId: string): Promise<boolean> {
+    return !!this.db
+      .query<{ found: number }, [string, string]>('SELECT 1 AS found FROM auth_state WHERE session_id = ? AND key = ?')
+      .get(sessionId, CREDS_KEY);
+  }
+
+  async removeSession(sessionId: string): Promise<void> {
+    this.db.query<unknown, [string]>('DELETE FROM auth_state WHERE session_id = ?').run(sessionId);
+  }
+
+  async readEntry(sessionId: string, key: string): Promise<string | null> {
+    return (
+      this.db
+        .query<{ value: string }, [string, string]>('SELECT value FROM auth_state WHERE session_id = ? AND key = ?')
+        .get(sessionId, key)?.value ?? null
+    );
+  }
+
+  async exportSession(sessionId: string): Promise<Record<string, string>> {
+    const rows = this.db
+      .query<{ key: string; value: string }, [string]>('SELECT key, value FROM auth_state WHERE session_id = ?')
+      .all(sessionId);
+
+    return Object.fromEntries(rows.map((row) => [row.key, row.value]));
+  }
+
+  async importSession(sessionId: string, entries: Record<string, string>): Promise<void> {
+    const deleteStmt = this.db.query<unknown, [string]>('DELETE FROM auth_state WHERE session_id = ?');
+    const insertStmt = this.db.query<unknown, [string, string, string]>(
+      'INSERT INTO auth_state (session_id, key, value) VALUES (?, ?, ?)'
+    );
+
+    this.db.transaction(() => {
+      deleteStmt.run(sessionId);
+      for (const [key, value] of Object.entries(entries)) {
+        insertStmt.run(sessionId, key, value);
+      }
+    })();
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+export default SqliteAuthStateStore;
@@ -0,0 +1,26 @@
+import config from '../../config';
+import logger from '../../logger';
+import { FileAuthStateStore } from './FileAuthStateStore';
+import { SqliteAuthStateStore } from './SqliteAuthStateStore';
+import { RedisAuthStateStore } from './RedisAuthStateStore';
+import type { AuthStateStore } from '../../types';
+
+/**
+ * Create the auth-state store selected by AUTH_STATE_BACKEND
+ */
+export function createAuthStateStore(): AuthStateStore {
+  switch (config.authStateBackend) {
+    case 'sqlite':
+      logger.info({ path: config.authStateSqlitePath }, 'Using SQLite auth-state backend');
+      return new SqliteAuthStateStore(config.authStateSqlitePath);
+    case 'redis':
+      logger.info({ prefix: config.authStateRedisPrefix }, 'Using Redis auth-state backend');
+      return new RedisAuthStateStore(config.authStateRedisUrl, config.authStateRedisPrefix);
+    case 'file':
+    default:
+      return new FileAuthStateStore();
+  }
+}
+
+export const authStateStore = createAuthStateStore();
+export default authStateStore;
@@ -0,0 +1,106 @@
+import {
+  BufferJSON,
+  initAuthCreds,
+  proto,
+  type AuthenticationCreds,
+  type SignalDataTypeMap,
+} from '@whiskeysockets/baileys';
+
+import encryptionService from '../EncryptionService';
+import type { SessionAuthState } from '../../types';
+
+/**
+ * Minimal string key/value contract each auth-state backend implements.
+ * Keys are `creds` or `<signal-category>-<id>`; values are BufferJSON-encoded and, when a master key is
+ * configured, encrypted by EncryptionService.
+ */
+export interface AuthStateKeyValue {
+  read(key: string): Promise<string | null>;
+  write(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+export const CREDS_KEY = 'creds';
+
+const SIGNAL_KEY_TYPES: ReadonlyArray<keyof SignalDataTypeMap> = [
+  'pre-key',
+  'session',
+  'sender-key',
+  'sender-key-memory',
+  'app-state-sync-key',
+  'app-state-sync-version',
+];
+
+/**
+ * Whether a key belongs to the auth state (creds or a signal key), as opposed to other per-session data
+ */
+export function isAuthStateKey(key: string): boolean {
+  return key === CREDS_KEY || SIGNAL_KEY_TYPES.some((type) => key.startsWith(`${type}-`));
+}
+
+/**
+ * Build a Baileys auth state (creds + signal key store) on top of a key/value backend.
+ * Mirrors the behaviour of useMultiFileAuthState so all backends are interchangeable.
+ */
+export async function makeKeyValueAuthState(storage: AuthStateKeyValue): Promise<SessionAuthState> {
+  const readValue = async <T>(key: string): Promise<T | null> => {
+    const raw = await storage.read(key);
+    if (!raw) {
+      return null;
+    }
+
+    // Decryption errors (missing or wrong key) must surface, falling back to fresh creds would unlink the session
+    const decrypted = encryptionService.decryptString(raw);
+
+    try {
+      return JSON.parse(decrypted, BufferJSON.reviver) as T;
+    } catch {
+      return null;
+    }
+  };
+
+  const writeValue = (key: string, value: unknown): Promise<void> =>
+    storage.write(key, encryptionService.encryptString(JSON.stringify(value, BufferJSON.replacer)));
+
+  const creds = (await readValue<AuthenticationCreds>(CREDS_KEY)) || initAuthCreds();
+
+  return {
+    state: {
+      creds,
+      keys: {
+        get: async <T extends keyof SignalDataTypeMap>(type: T, ids: string[]) => {
+          const data: { [id: string]: SignalDataTypeMap[T] } = {};
+
+          await Promise.all(
+            ids.map(async (id) => {
+              let value = await readValue<SignalDataTypeMap[T]>(`${type}-${id}`);
+              if (type === 'app-state-sync-key' && value) {
+                value = proto.Message.AppStateSyncKeyData.fromObject(value) as unknown as SignalDataTypeMap[T];
+              }
+
+              if (value) {
+                data[id] = value;
+              }
+            })
+          );
+
+          return data;
+        },
+        set: async (data) => {
+          const tasks: Promise<void>[] = [];
+
+          for (const category of Object.keys(data) as Array<keyof SignalDataTypeMap>) {
+            const entries = data[category] || {};
+            for (const [id, value] of Object.entries(entries)) {
+              const key = `${category}-${id}`;
+              tasks.push(value ? writeValue(key, value) : storage.remove(key));
+            }
+          }
+
+          await Promise.all(tasks);
+        },
+      },
+    },
+    saveCreds: () => writeValue(CREDS_KEY, creds),
+  };
+}
@@ -0,0 +1,410 @@
+import {
+  jidNormalizedUser,
+  makeInMemoryStore,
+  updateMessageWithPollUpdate,
+  type BaileysEventEmitter,
+  type BaileysEventMap,
+  type Chat,
+  type Contact,
+  type GroupMetadata as WAGroupMetadata,
+  type WAMessageKey,
+  type proto,
+} from '@whiskeysockets/baileys';
+import type { Label } from '@whiskeysockets/baileys/lib/Types/Label';
+import fs from 'fs';
+import path from 'path';
+import pino from 'pino';
+
+import config from '../../config';
+import logger from '../../logger';
+import encryptionService from '../EncryptionService';
+import {
+  applyEdit,
+  encodeStoreJson,
+  getEditedContent,
+  isMediaMessage,
+  isRevokeUpdate,
+  markRevoked,
+  readStoreJson,
+  toTimestamp,
+  writeFileAtomic,
+} from './storeUtils';
+import { isMissingKey, listSnapshots, recoverFromSnapshot, reencryptSnapshots, writeSnapshot } from './storeSnapshots';
+import type {
+  SessionStore,
+  SessionStoreStats,
+  StoredMessageEdit,
+  StoreMessageUsage,
+  StorePruneResult,
+  StoreRetentionPolicy,
+  StoreSnapshot,
+  StoreSnapshotInfo,
+} from '../../types';
+
+/** Edit history by chat, then message ID */
+type EditHistory = Record<string, Record<string, StoredMessageEdit[]>>;
+
+/**
+ * The socket's events without revoke, edit and poll vote updates, for makeInMemoryStore: it would overwrite
+ * the content of the message (and the timestamp, for edits) or the votes cast so far instead of keeping them
+ */
+function withoutContentUpdates(ev: BaileysEventEmitter): BaileysEventEmitter {
+  return {
+    ...ev,
+    on: (event, listener) => {
+      if (event !== 'messages.update') {
+        ev.on(event, listener);
+        return;
+      }
+
+      const onUpdates = listener as (updates: BaileysEventMap['messages.update']) => void;
+      ev.on('messages.update', (updates) => {
+        const kept = updates.filter(
+          ({ update }) => !isRevokeUpdate(update) && !getEditedContent(update) && !update.pollUpdates
+        );
+        if (kept.length > 0) {
+          onUpdates(kept);
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Baileys' makeInMemoryStore, snapshotted to `store.json` (encrypted when a master key is set) on persist()
+ */
+export class InMemorySessionStore implements SessionStore {
+  readonly backend = 'memory' as const;
+  private store: ReturnType<typeof makeInMemoryStore>;
+  private sessionId: string;
+  private storePath: string;
+  private lastSnapshotAt: number;
+  private editHistory: EditHistory = {};
+
+  constructor(sessionId: string, storePath: string) {
+    this.store = makeInMemoryStore({ logger: pino({ level: 'silent' }) });
+    this.sessionId = sessionId;
+    this.storePath = storePath;
+
+    if (fs.existsSync(storePath)) {
+      this.load();
+    }
+
+    const latestSnapshot = listSnapshots(storePath)[0];
+    this.lastSnapshotAt = latestSnapshot ? Date.parse(latestSnapshot.createdAt) : 0;
+  }
+
+  bind(ev: BaileysEventEmitter): void {
+    this.store.bind(withoutContentUpdates(ev));
+
+    ev.on('messages.update', (updates) => {
+      for (const { key, update } of updates) {
+        const jid = jidNormalizedUser(key.remoteJid || undefined);
+        const stored = key.id ? this.getMessage(jid, key.id) : undefined;
+        if (!stored) {
+          continue;
+        }
+
+        // a revoked message is kept, flagged, instead of losing its content
+        if (isRevokeUpdate(update)) {
+          markRevoked(stored);
+          continue;
+        }
+
+        // an edit replaces the content, the version it replaces goes to the edit history
+        const edited = getEditedContent(update);
+        if (edited) {
+          const previous = applyEdit(stored, edited, toTimestamp(update.messageTimestamp) || Math.floor(Date.now() / 1000));
+          const chatHistory = (this.editHistory[jid] ??= {});
+          (chatHistory[key.id!] ??= []).push(previous);
+          continue;
+        }
+
+        // decrypted poll votes replace the previous vote of the same voter
+        for (const pollUpdate of update.pollUpdates || []) {
+          updateMessageWithPollUpdate(stored, pollUpdate);
+        }
+      }
+    });
+
+    ev.on('messages.delete', (item) => {
+      if ('all' in item) {
+        delete this.editHistory[item.jid];
+        return;
+      }
+
+      for (const key of item.keys) {
+        if (key.remoteJid && key.id) {
+          delete this.editHistory[key.remoteJid]?.[key.id];
+        }
+      }
+    });
+  }
+
+  getMessage(chatJid: string, messageId: string): proto.IWebMessageInfo | undefined {
+    return this.store.messages[chatJid]?.get(messageId);
+  }
+
+  findMessageById(messageId: string): proto.IWebMessageInfo | undefined {
+    for (const [remoteJid, messages] of Object.entries(this.store.messages)) {
+      const found = messages.get(messageId);
+      if (found?.key) {
+        return { ...found, key: { ...found.key, remoteJid: found.key.remoteJid || remoteJid } };
+      }
+    }
+
+    return undefined;
+  }
+
+  getMessages(chatJid: string): proto.IWebMessageInfo[] {
+    const entries = this.store.messages[chatJid]?.array || [];
+    return [...entries].sort((a, b) => toTimestamp(b.messageTimestamp) - toTimestamp(a.messageTimestamp));
+  }
+
+  getLatestMessage(chatJid: string): proto.IWebMessageInfo | undefined {
+    const messages = this.store.messages[chatJid]?.array;
+    if (!messages || messages.length === 0) {
+      return undefined;
+    }
+
+    let latest = messages[0];
+    let latestTimestamp = toTimestamp(latest.messageTimestamp);
+
+    for (const message of messages) {
+      const timestamp = toTimestamp(message.messageTimestamp);
+      if (timestamp > latestTimestamp) {
+        latest = message;
+        latestTimestamp = timestamp;
+      }
+    }
+
+    return latest;
+  }
+
+  getMessageReceipts(key: WAMessageKey): proto.IUserReceipt[] {
+    if (!key.remoteJid || !key.id) {
+      return [];
+    }
+
+    return this.getMessage(key.remoteJid, key.id)?.userReceipt || [];
+  }
+
+  getEditHistory(chatJid: string, messageId: string): StoredMessageEdit[] {
+    return this.editHistory[chatJid]?.[messageId] || [];
+  }
+
+  listMessageChatJids(): string[] {
+    return Object.keys(this.store.messages);
+  }
+
+  getChats(): Chat[] {
+    return this.store.chats.all();
+  }
+
+  getChat(jid: string): Chat | undefined {
+    try {
+      return this.store.chats.get(jid);
+    } catch {
+      return undefined;
+    }
+  }
+
+  getContacts(): Contact[] {
+    return Object.values(this.store.contacts);
+  }
+
+  getContact(jid: string): Contact | undefined {
+    return this.store.contacts[jid];
+  }
+
+  getGroupMetadata(jid: string): WAGroupMetadata | undefined {
+    return this.store.groupMetadata[jid];
+  }
+
+  setGroupMetadata(jid: string, metadata: WAGroupMetadata): void {
+    this.store.groupMetadata[jid] = metadata;
+  }
+
+  listGroupMetadata(): WAGroupMetadata[] {
+    return Object.values(this.store.groupMetadata);
+  }
+
+  getLabels(): Label[] {
+    return this.store.getLabels().findAll();
+  }
+
+  getLabel(labelId: string): Label | undefined {
+    return this.store.getLabels().findById(labelId);
+  }
+
+  getChatLabelIds(chatJid: string): string[] {
+    return this.store.getChatLabels(chatJid).map((association) => association.labelId);
+  }
+
+  persist(): void {
+    const data = encodeStoreJson(this.toJSON());
+    writeFileAtomic(this.storePath, data);
+
+    if (config.storeSnapshotCount > 0 && Date.now() - this.lastSnapshotAt >= config.storeSnapshotInterval) {
+      try {
+        this.lastSnapshotAt = Date.now();
+        writeSnapshot(this.storePath, data);
+      } catch (error) {
+        logger.warn({ sessionId: this.sessionId, error }, 'Failed to write store snapshot');
+      }
+    }
+  }
+
+  saveSnapshot(): StoreSnapshotInfo {
+    this.lastSnapshotAt = Date.now();
+    return writeSnapshot(this.storePath, encodeStoreJson(this.toJSON()));
+  }
+
+  getStats(limit: number): SessionStoreStats {
+    const messageCounts = Object.entries(this.store.messages).map(([chatId, messages]) => ({
+      chatId,
+      messages: messages.array.length,
+    }));
+
+    return {
+      chats: this.store.chats.length,
+      contacts: Object.keys(this.store.contacts).length,
+      groups: Object.keys(this.store.groupMetadata).length,
+      labels: this.getLabels().length,
+      messages: messageCounts.reduce((total, chat) => total + chat.messages, 0),
+      largestChats: messageCounts.sort((a, b) => b.messages - a.messages).slice(0, limit),
+      sizeBytes: Buffer.byteLength(JSON.stringify(this.toJSON())),
+    };
+  }
+
+  getMessageUsage(): StoreMessageUsage {
+    const chats = Object.values(this.store.messages);
+    let messages = 0;
+    let oldestTimestamp: number | null = null;
+
+    for (const chat of chats) {
+      messages += chat.array.length;
+      for (const message of chat.array) {
+        const timestamp = toTimestamp(message.messageTimestamp);
+        if (timestamp && (oldestTimestamp === null || timestamp < oldestTimestamp)) {
+          oldestTimestamp = timestamp;
+        }
+      }
+    }
+
+    return { messages, chats: chats.filter((chat) => chat.array.length > 0).length, oldestTimestamp };
+  }
+
+  prune(policy: StoreRetentionPolicy): StorePruneResult {
+    const now = Math.floor(Date.now() / 1000);
+    const cutoff = policy.maxAgeDays ? now - policy.maxAgeDays * 86400 : 0;
+    const mediaCutoff = policy.mediaMaxAgeDays ? now - policy.mediaMaxAgeDays * 86400 : 0;
+    const byNewest = (a: proto.IWebMessageInfo, b: proto.IWebMessageInfo) =>
+      toTimestamp(b.messageTimestamp) - toTimestamp(a.messageTimestamp);
+
+    let kept: proto.IWebMessageInfo[] = [];
+    for (const messages of Object.values(this.store.messages)) {
+      kept.push(
+        ...[...messages.array]
+          .sort(byNewest)
+          .filter((message) => {
+            const timestamp = toTimestamp(message.messageTimestamp);
+            if (!timestamp) {
+              return true;
+            }
+
+            return (
+              (!cutoff || timestamp >= cutoff) &&
+              (!mediaCutoff || timestamp >= mediaCutoff || !isMediaMessage(message))
+            );
+          })
+          .slice(0, policy.maxMessagesPerChat || undefined)
+      );
+    }
+
+    if (policy.maxMessagesPerSession && kept.length > policy.maxMessagesPerSession) {
+      kept = kept.sort(byNewest).slice(0, policy.maxMessagesPerSession);
+    }
+
+    const keep = new Set(kept);
+    const keys: WAMessageKey[] = [];
+
+    for (const [remoteJid, messages] of Object.entries(this.store.messages)) {
+      if (messages.array.every((message) => keep.has(message))) {
+        continue;
+      }
+
+      for (const message of messages.array) {
+        if (!keep.has(message) && message.key) {
+          keys.push({ ...message.key, remoteJid: message.key.remoteJid || remoteJid });
+        }
+      }
+      messages.filter((message) => keep.has(message));
+    }
+
+    for (const { remoteJid, id } of keys) {
+      delete this.editHistory[remoteJid!]?.[id!];
+    }
+
+    return { removed: keys.length, keys };
+  }
+
+  snapshot(): StoreSnapshot {
+    return { file: path.basename(this.storePath), data: Buffer.from(JSON.stringify(this.toJSON())) };
+  }
+
+  reencrypt(): number {
+    this.persist();
+    reencryptSnapshots(this.sessionId, this.storePath, (data) =>
+      encryptionService.encryptBuffer(encryptionService.decryptBuffer(data))
+    );
+    return 1;
+  }
+
+  close(): void {
+    // nothing to release
+  }
+
+  /**
+   * The Baileys store with the edit history, which it does not know about
+   */
+  private toJSON(): ReturnType<ReturnType<typeof makeInMemoryStore>['toJSON']> & { editHistory: EditHistory } {
+    return { ...this.store.toJSON(), editHistory: this.editHistory };
+  }
+
+  private fromJSON(json: string): void {
+    const parsed = JSON.parse(json);
+    this.store.fromJSON(parsed);
+    this.editHistory = parsed.editHistory || {};
+  }
+
+  /**
+   * Load store.json; a corrupt (e.g. truncated) file is replaced by the newest valid snapshot.
+   * Files encrypted with a key that is not configured are left alone and fail loudly instead.
+   */
+  private load(): void {
+    try {
+      this.fromJSON(readStoreJson(this.storePath));
+      return;
+    } catch (error) {
+      if (isMissingKey(this.storePath)) {
+        throw error;
+      }
+
+      const reason = error instanceof Error ? error.message : String(error);
+      if (!recoverFromSnapshot(this.sessionId, this.storePath, reason)) {
+        this.store = makeInMemoryStore({ logger: pino({ level: 'silent' }) });
+        return;
+      }
+    }
+
+    try {
+      this.store = makeInMemoryStore({ logger: pino({ level: 'silent' }) });
+      this.fromJSON(readStoreJson(this.storePath));
+    } catch (error) {
+      logger.warn({ sessionId: this.sessionId, error }, 'Failed to load session store file');
+    }
+  }
+}
+
+export default InMemorySessionStore;
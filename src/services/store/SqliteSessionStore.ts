@@ -0,0 +1,869 @@
+import { Database } from 'bun:sqlite';
+import {
+  jidNormalizedUser,
+  makeInMemoryStore,
+  proto,
+  updateMessageWithPollUpdate,
+  updateMessageWithReaction,
+  updateMessageWithReceipt,
+  type BaileysEventEmitter,
+  type Chat,
+  type Contact,
+  type GroupMetadata as WAGroupMetadata,
+  type WAMessageKey,
+} from '@whiskeysockets/baileys';
+import type { Label } from '@whiskeysockets/baileys/lib/Types/Label';
+import fs from 'fs';
+import path from 'path';
+import pino from 'pino';
+
+import logger from '../../logger';
+import encryptionService from '../EncryptionService';
+import config from '../../config';
+import {
+  decodeMessage,
+  decodeValue,
+  encodeValue,
+  ENCODED_TABLES,
+  applyEdit,
+  getEditedContent,
+  isMediaMessage,
+  isRevokeUpdate,
+  markRevoked,
+  readStoreJson,
+  toTimestamp,
+} from './storeUtils';
+import { listSnapshots, recoverFromSnapshot, reencryptSnapshots, writeSnapshot } from './storeSnapshots';
+import type {
+  SessionStore,
+  SessionStoreStats,
+  StoredMessageEdit,
+  StoreMessageUsage,
+  StorePruneResult,
+  StoreRetentionPolicy,
+  StoreSnapshot,
+  StoreSnapshotInfo,
+} from '../../types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS messages (
+    chat_jid TEXT NOT NULL,
+    id TEXT NOT NULL,
+    from_me INTEGER NOT NULL DEFAULT 0,
+    timestamp INTEGER NOT NULL DEFAULT 0,
+    media INTEGER,
+    data TEXT NOT NULL,
+    PRIMARY KEY (chat_jid, id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_messages_id ON messages (id);
+  CREATE INDEX IF NOT EXISTS idx_messages_chat_timestamp ON messages (chat_jid, timestamp DESC);
+  CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages (timestamp);
+
+  CREATE TABLE IF NOT EXISTS message_edits (
+    chat_jid TEXT NOT NULL,
+    id TEXT NOT NULL,
+    edited_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_message_edits_message ON message_edits (chat_jid, id);
+
+  CREATE TABLE IF NOT EXISTS chats (
+    jid TEXT PRIMARY KEY,
+    timestamp INTEGER NOT NULL DEFAULT 0,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS contacts (
+    jid TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS group_metadata (
+    jid TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS labels (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS label_associations (
+    label_id TEXT NOT NULL,
+    chat_jid TEXT NOT NULL,
+    message_id TEXT NOT NULL DEFAULT '',
+    PRIMARY KEY (label_id, chat_jid, message_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_label_associations_chat ON label_associations (chat_jid);
+`;
+
+/**
+ * Pass the `data` column of every row through `rewrite`, which returns null to keep a value.
+ * Returns the number of rows rewritten.
+ */
+function rewriteRows(db: Database, rewrite: (value: string) => string | null): number {
+  let rewritten = 0;
+
+  db.transaction(() => {
+    for (const table of ENCODED_TABLES) {
+      const update = db.query<unknown, [string, number]>(`UPDATE ${table} SET data = ? WHERE rowid = ?`);
+      const rows = db.query<{ rowid: number; data: string }, []>(`SELECT rowid, data FROM ${table}`).all();
+
+      for (const row of rows) {
+        const value = rewrite(row.data);
+        if (value !== null) {
+          update.run(value, row.rowid);
+          rewritten += 1;
+        }
+      }
+    }
+  })();
+
+  return rewritten;
+}
+
+/**
+ * Copy of a serialized store database with every stored value passed through `rewrite`,
+ * e.g. to decrypt a store for an archive or encrypt an imported one with this host's key
+ */
+export function rewriteStoreData(data: Buffer, rewrite: (value: string) => string): Buffer {
+  const image = Buffer.from(data);
+  // header bytes 18-19 = 1: a rollback-journal database, a WAL one cannot be opened in memory
+  image[18] = 1;
+  image[19] = 1;
+
+  const db = Database.deserialize(image);
+  try {
+    rewriteRows(db, rewrite);
+    // drop freed pages that still hold the previous values
+    db.exec('VACUUM;');
+    return Buffer.from(db.serialize());
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Durable per-session store backed by a local SQLite file.
+ * Every event is written through immediately, lookups are indexed by chat, message ID and timestamp.
+ */
+export class SqliteSessionStore implements SessionStore {
+  readonly backend = 'sqlite' as const;
+  private db: Database;
+  private sessionId: string;
+  private dbPath: string;
+  private lastSnapshotAt: number;
+
+  constructor(sessionId: string, dbPath: string, legacyJsonPath?: string) {
+    this.sessionId = sessionId;
+    this.dbPath = dbPath;
+
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    this.db = this.open();
+    this.db.exec('PRAGMA journal_mode = WAL;');
+    this.db.exec('PRAGMA synchronous = NORMAL;');
+    this.db.exec(SCHEMA);
+    this.migrateSchema();
+
+    if (legacyJsonPath && fs.existsSync(legacyJsonPath)) {
+      this.migrateFromJson(legacyJsonPath);
+    }
+
+    const latestSnapshot = listSnapshots(dbPath)[0];
+    this.lastSnapshotAt = latestSnapshot ? Date.parse(latestSnapshot.createdAt) : 0;
+  }
+
+  bind(ev: BaileysEventEmitter): void {
+    ev.on('messaging-history.set', ({ chats, contacts, messages, isLatest, syncType }) => {
+      if (syncType === proto.HistorySync.HistorySyncType.ON_DEMAND) {
+        return;
+      }
+
+      this.db.transaction(() => {
+        if (isLatest) {
+          this.db.exec('DELETE FROM chats; DELETE FROM messages; DELETE FROM message_edits;');
+        }
+
+        for (const chat of chats) {
+          this.insertChatIfAbsent(chat);
+        }
+
+        for (const contact of contacts) {
+          this.upsertContact(contact);
+        }
+
+        for (const message of messages) {
+          this.saveMessage(message);
+        }
+      })();
+    });
+
+    ev.on('messages.upsert', ({ messages, type }) => {
+      if (type !== 'append' && type !== 'notify') {
+        return;
+      }
+
+      const newChats: Chat[] = [];
+
+      this.db.transaction(() => {
+        for (const message of messages) {
+          const jid = jidNormalizedUser(message.key.remoteJid || undefined);
+          this.saveMessage(message, jid);
+
+          if (type === 'notify' && !this.getChat(jid)) {
+            newChats.push({
+              id: jid,
+              conversationTimestamp: toTimestamp(message.messageTimestamp),
+              unreadCount: 1,
+            });
+          }
+        }
+      })();
+
+      if (newChats.length > 0) {
+        ev.emit('chats.upsert', newChats);
+      }
+    });
+
+    ev.on('messages.update', (updates) => {
+      this.db.transaction(() => {
+        for (const { key, update } of updates) {
+          const jid = jidNormalizedUser(key.remoteJid || undefined);
+          const stored = key.id ? this.getMessage(jid, key.id) : undefined;
+          if (!stored) {
+            continue;
+          }
+
+          // a revoked message is kept, flagged, instead of losing its content
+          if (isRevokeUpdate(update)) {
+            this.saveMessage(markRevoked(stored), jid);
+            continue;
+          }
+
+          // an edit replaces the content, the version it replaces goes to the edit history
+          const edited = getEditedContent(update);
+          if (edited) {
+            const previous = applyEdit(stored, edited, toTimestamp(update.messageTimestamp) || Math.floor(Date.now() / 1000));
+            this.db
+              .query('INSERT INTO message_edits (chat_jid, id, edited_at, data) VALUES (?, ?, ?, ?)')
+              .run(jid, key.id!, previous.editedAt, encodeValue(previous));
+            this.saveMessage(stored, jid);
+            continue;
+          }
+
+          // decrypted poll votes replace the previous vote of the same voter
+          if (update.pollUpdates) {
+            for (const pollUpdate of update.pollUpdates) {
+              updateMessageWithPollUpdate(stored, pollUpdate);
+            }
+            this.saveMessage(stored, jid);
+            continue;
+          }
+
+          const patch = { ...update };
+          if (patch.status && stored.status && patch.status <= stored.status) {
+            delete patch.status;
+          }
+
+          this.saveMessage(Object.assign(stored, patch), jid);
+        }
+      })();
+    });
+
+    ev.on('messages.delete', (item) => {
+      if ('all' in item) {
+        this.db.query('DELETE FROM messages WHERE chat_jid = ?').run(item.jid);
+        this.db.query('DELETE FROM message_edits WHERE chat_jid = ?').run(item.jid);
+        return;
+      }
+
+      const deleteStmt = this.db.query('DELETE FROM messages WHERE chat_jid = ? AND id = ?');
+      const deleteEditsStmt = this.db.query('DELETE FROM message_edits WHERE chat_jid = ? AND id = ?');
+      this.db.transaction(() => {
+        for (const key of item.keys) {
+          if (key.remoteJid && key.id) {
+            deleteStmt.run(key.remoteJid, key.id);
+            deleteEditsStmt.run(key.remoteJid, key.id);
+          }
+        }
+      })();
+    });
+
+    ev.on('message-receipt.update', (updates) => {
+      this.db.transaction(() => {
+        for (const { key, receipt } of updates) {
+          const stored = key.remoteJid && key.id ? this.getMessage(key.remoteJid, key.id) : undefined;
+          if (stored) {
+            updateMessageWithReceipt(stored, receipt);
+            this.saveMessage(stored, key.remoteJid!);
+          }
+        }
+      })();
+    });
+
+    ev.on('messages.reaction', (reactions) => {
+      this.db.transaction(() => {
+        for (const { key, reaction } of reactions) {
+          const stored = key.remoteJid && key.id ? this.getMessage(key.remoteJid, key.id) : undefined;
+          if (stored) {
+            updateMessageWithReaction(stored, reaction);
+            this.saveMessage(stored, key.remoteJid!);
+          }
+        }
+      })();
+    });
+
+    ev.on('chats.upsert', (chats) => {
+      this.db.transaction(() => {
+        for (const chat of chats) {
+          this.saveChat(chat);
+        }
+      })();
+    });
+
+    ev.on('chats.update', (updates) => {
+      this.db.transaction(() => {
+        for (const update of updates) {
+          const chat = update.id ? this.getChat(update.id) : undefined;
+          if (!chat) {
+            continue;
+          }
+
+          const patch = { ...update };
+          if (typeof patch.unreadCount === 'number' && patch.unreadCount > 0) {
+            patch.unreadCount = (chat.unreadCount || 0) + patch.unreadCount;
+          }
+
+          this.saveChat(Object.assign(chat, patch) as Chat);
+        }
+      })();
+    });
+
+    ev.on('chats.delete', (deletions) => {
+      const deleteStmt = this.db.query('DELETE FROM chats WHERE jid = ?');
+      this.db.transaction(() => {
+        for (const jid of deletions) {
+          deleteStmt.run(jid);
+        }
+      })();
+    });
+
+    ev.on('contacts.upsert', (contacts) => {
+      this.db.transaction(() => {
+        for (const contact of contacts) {
+          this.upsertContact(contact);
+        }
+      })();
+    });
+
+    ev.on('contacts.update', (updates) => {
+      this.db.transaction(() => {
+        for (const update of updates) {
+          const contact = update.id ? this.getContact(update.id) : undefined;
+          if (!contact) {
+            continue;
+          }
+
+          const { imgUrl, ...rest } = update;
+          const merged: Contact = { ...contact, ...rest, id: contact.id };
+          if (imgUrl === 'removed') {
+            delete merged.imgUrl;
+          } else if (imgUrl && imgUrl !== 'changed') {
+            merged.imgUrl = imgUrl;
+          }
+
+          this.saveContact(merged);
+        }
+      })();
+    });
+
+    ev.on('groups.update', (updates) => {
+      this.db.transaction(() => {
+        for (const update of updates) {
+          const metadata = update.id ? this.getGroupMetadata(update.id) : undefined;
+          if (metadata) {
+            this.setGroupMetadata(metadata.id, { ...metadata, ...update, id: metadata.id });
+          }
+        }
+      })();
+    });
+
+    ev.on('group-participants.update', ({ id, participants, action }) => {
+      const metadata = this.getGroupMetadata(id);
+      if (!metadata) {
+        return;
+      }
+
+      switch (action) {
+        case 'add':
+          metadata.participants.push(...participants.map((participant) => ({ id: participant, admin: null })));
+          break;
+        case 'promote':
+        case 'demote':
+          for (const participant of metadata.participants) {
+            if (participants.includes(participant.id)) {
+              participant.admin = action === 'promote' ? 'admin' : null;
+            }
+          }
+          break;
+        case 'remove':
+          metadata.participants = metadata.participants.filter((participant) => !participants.includes(participant.id));
+          break;
+      }
+
+      this.setGroupMetadata(id, metadata);
+    });
+
+    ev.on('labels.edit', (label) => {
+      if (label.deleted) {
+        this.db.query('DELETE FROM labels WHERE id = ?').run(label.id);
+        return;
+      }
+
+      const existing = this.getLabel(label.id);
+      this.db
+        .query('INSERT OR REPLACE INTO labels (id, data) VALUES (?, ?)')
+        .run(label.id, encodeValue({ ...existing, ...label }));
+    });
+
+    ev.on('labels.association', ({ type, association }) => {
+      const messageId = 'messageId' in association ? association.messageId : '';
+      if (type === 'add') {
+        this.db
+          .query('INSERT OR IGNORE INTO label_associations (label_id, chat_jid, message_id) VALUES (?, ?, ?)')
+          .run(association.labelId, association.chatId, messageId);
+      } else if (type === 'remove') {
+        this.db
+          .query('DELETE FROM label_associations WHERE label_id = ? AND chat_jid = ? AND message_id = ?')
+          .run(association.labelId, association.chatId, messageId);
+      }
+    });
+  }
+
+  getMessage(chatJid: string, messageId: string): proto.IWebMessageInfo | undefined {
+    const row = this.db
+      .query<{ data: string }, [string, string]>('SELECT data FROM messages WHERE chat_jid = ? AND id = ?')
+      .get(chatJid, messageId);
+
+    return row ? decodeMessage(row.data) : undefined;
+  }
+
+  findMessageById(messageId: string): proto.IWebMessageInfo | undefined {
+    const row = this.db
+      .query<{ chat_jid: string; data: string }, [string]>(
+        'SELECT chat_jid, data FROM messages WHERE id = ? ORDER BY timestamp DESC LIMIT 1'
+      )
+      .get(messageId);
+
+    if (!row) {
+      return undefined;
+    }
+
+    const message = decodeMessage(row.data);
+    message.key = { ...message.key, remoteJid: message.key?.remoteJid || row.chat_jid };
+    return message;
+  }
+
+  getMessages(chatJid: string): proto.IWebMessageInfo[] {
+    return this.db
+      .query<{ data: string }, [string]>('SELECT data FROM messages WHERE chat_jid = ? ORDER BY timestamp DESC')
+      .all(chatJid)
+      .map((row) => decodeMessage(row.data));
+  }
+
+  getLatestMessage(chatJid: string): proto.IWebMessageInfo | undefined {
+    const row = this.db
+      .query<{ data: string }, [string]>(
+        'SELECT data FROM messages WHERE chat_jid = ? ORDER BY timestamp DESC LIMIT 1'
+      )
+      .get(chatJid);
+
+    return row ? decodeMessage(row.data) : undefined;
+  }
+
+  getMessageReceipts(key: WAMessageKey): proto.IUserReceipt[] {
+    if (!key.remoteJid || !key.id) {
+      return [];
+    }
+
+    return this.getMessage(key.remoteJid, key.id)?.userReceipt || [];
+  }
+
+  getEditHistory(chatJid: string, messageId: string): StoredMessageEdit[] {
+    return this.db
+      .query<{ data: string }, [string, string]>(
+        'SELECT data FROM message_edits WHERE chat_jid = ? AND id = ? ORDER BY edited_at, rowid'
+      )
+      .all(chatJid, messageId)
+      .map((row) => decodeValue<StoredMessageEdit>(row.data));
+  }
+
+  listMessageChatJids(): string[] {
+    return this.db
+      .query<{ chat_jid: string }, []>('SELECT DISTINCT chat_jid FROM messages')
+      .all()
+      .map((row) => row.chat_jid);
+  }
+
+  getChats(): Chat[] {
+    return this.db
+      .query<{ data: string }, []>('SELECT data FROM chats ORDER BY timestamp DESC')
+      .all()
+      .map((row) => decodeValue<Chat>(row.data));
+  }
+
+  getChat(jid: string): Chat | undefined {
+    const row = this.db.query<{ data: string }, [string]>('SELECT data FROM chats WHERE jid = ?').get(jid);
+    return row ? decodeValue<Chat>(row.data) : undefined;
+  }
+
+  getContacts(): Contact[] {
+    return this.db
+      .query<{ data: string }, []>('SELECT data FROM contacts')
+      .all()
+      .map((row) => decodeValue<Contact>(row.data));
+  }
+
+  getContact(jid: string): Contact | undefined {
+    const row = this.db.query<{ data: string }, [string]>('SELECT data FROM contacts WHERE jid = ?').get(jid);
+    return row ? decodeValue<Contact>(row.data) : undefined;
+  }
+
+  getGroupMetadata(jid: string): WAGroupMetadata | undefined {
+    const row = this.db
+      .query<{ data: string }, [string]>('SELECT data FROM group_metadata WHERE jid = ?')
+      .get(jid);
+    return row ? decodeValue<WAGroupMetadata>(row.data) : undefined;
+  }
+
+  setGroupMetadata(jid: string, metadata: WAGroupMetadata): void {
+    this.db.query('INSERT OR REPLACE INTO group_metadata (jid, data) VALUES (?, ?)').run(jid, encodeValue(metadata));
+  }
+
+  listGroupMetadata(): WAGroupMetadata[] {
+    return this.db
+      .query<{ data: string }, []>('SELECT data FROM group_metadata')
+      .all()
+      .map((row) => decodeValue<WAGroupMetadata>(row.data));
+  }
+
+  getLabels(): Label[] {
+    return this.db
+      .query<{ data: string }, []>('SELECT data FROM labels')
+      .all()
+      .map((row) => decodeValue<Label>(row.data));
+  }
+
+  getLabel(labelId: string): Label | undefined {
+    const row = this.db.query<{ data: string }, [string]>('SELECT data FROM labels WHERE id = ?').get(labelId);
+    return row ? decodeValue<Label>(row.data) : undefined;
+  }
+
+  getChatLabelIds(chatJid: string): string[] {
+    return this.db
+      .query<{ label_id: string }, [string]>(
+        "SELECT label_id FROM label_associations WHERE chat_jid = ? AND message_id = ''"
+      )
+      .all(chatJid)
+      .map((row) => row.label_id);
+  }
+
+  persist(): void {
+    // writes go straight to SQLite, only snapshots are taken here
+    if (config.storeSnapshotCount > 0 && Date.now() - this.lastSnapshotAt >= config.storeSnapshotInterval) {
+      try {
+        this.saveSnapshot();
+      } catch (error) {
+        logger.warn({ sessionId: this.sessionId, error }, 'Failed to write store snapshot');
+      }
+    }
+  }
+
+  saveSnapshot(): StoreSnapshotInfo {
+    const data = this.db.serialize();
+    // header bytes 18-19 = 1: a rollback-journal database that opens without its -wal/-shm files
+    data[18] = 1;
+    data[19] = 1;
+
+    this.lastSnapshotAt = Date.now();
+    return writeSnapshot(this.dbPath, data);
+  }
+
+  getStats(limit: number): SessionStoreStats {
+    const count = (table: string) => this.db.query<{ count: number }, []>(`SELECT COUNT(*) AS count FROM ${table}`).get()!.count;
+    const pragma = (name: string) => this.db.query<Record<string, number>, []>(`PRAGMA ${name}`).get()![name];
+
+    return {
+      chats: count('chats'),
+      contacts: count('contacts'),
+      groups: count('group_metadata'),
+      labels: count('labels'),
+      messages: count('messages'),
+      largestChats: this.db
+        .query<{ chatId: string; messages: number }, [number]>(
+          'SELECT chat_jid AS chatId, COUNT(*) AS messages FROM messages GROUP BY chat_jid ORDER BY messages DESC LIMIT ?'
+        )
+        .all(limit),
+      sizeBytes: pragma('page_count') * pragma('page_size'),
+    };
+  }
+
+  snapshot(): StoreSnapshot {
+    return {
+      file: path.basename(this.dbPath),
+      data: rewriteStoreData(this.db.serialize(), (value) => encryptionService.decryptString(value)),
+    };
+  }
+
+  getMessageUsage(): StoreMessageUsage {
+    const row = this.db
+      .query<{ messages: number; chats: number; oldest: number | null }, []>(
+        'SELECT COUNT(*) AS messages, COUNT(DISTINCT chat_jid) AS chats, MIN(NULLIF(timestamp, 0)) AS oldest FROM messages'
+      )
+      .get()!;
+
+    return { messages: row.messages, chats: row.chats, oldestTimestamp: row.oldest };
+  }
+
+  prune(policy: StoreRetentionPolicy): StorePruneResult {
+    type RemovedRow = { chat_jid: string; id: string; from_me: number };
+    const removedRows: RemovedRow[] = [];
+    const now = Math.floor(Date.now() / 1000);
+
+    this.db.transaction(() => {
+      if (policy.maxAgeDays) {
+        removedRows.push(
+          ...this.db
+            .query<RemovedRow, [number]>(
+              'DELETE FROM messages WHERE timestamp > 0 AND timestamp < ? RETURNING chat_jid, id, from_me'
+            )
+            .all(now - policy.maxAgeDays * 86400)
+        );
+      }
+
+      if (policy.mediaMaxAgeDays) {
+        const cutoff = now - policy.mediaMaxAgeDays * 86400;
+        this.classifyMedia(cutoff);
+        removedRows.push(
+          ...this.db
+            .query<RemovedRow, [number]>(
+              'DELETE FROM messages WHERE media = 1 AND timestamp > 0 AND timestamp < ? RETURNING chat_jid, id, from_me'
+            )
+            .all(cutoff)
+        );
+      }
+
+      if (policy.maxMessagesPerChat) {
+        removedRows.push(
+          ...this.db
+            .query<RemovedRow, [number]>(
+              `DELETE FROM messages WHERE rowid IN (
+                SELECT rowid FROM (
+                  SELECT rowid, ROW_NUMBER() OVER (PARTITION BY chat_jid ORDER BY timestamp DESC) AS position
+                  FROM messages
+                ) WHERE position > ?
+              ) RETURNING chat_jid, id, from_me`
+            )
+            .all(policy.maxMessagesPerChat)
+        );
+      }
+
+      if (policy.maxMessagesPerSession) {
+        removedRows.push(
+          ...this.db
+            .query<RemovedRow, [number]>(
+              `DELETE FROM messages WHERE rowid IN (
+                SELECT rowid FROM messages ORDER BY timestamp DESC LIMIT -1 OFFSET ?
+              ) RETURNING chat_jid, id, from_me`
+            )
+            .all(policy.maxMessagesPerSession)
+        );
+      }
+
+      if (removedRows.length > 0) {
+        this.db.exec(
+          'DELETE FROM message_edits WHERE NOT EXISTS (SELECT 1 FROM messages WHERE messages.chat_jid = message_edits.chat_jid AND messages.id = message_edits.id);'
+        );
+      }
+    })();
+
+    return {
+      removed: removedRows.length,
+      keys: removedRows.map((row) => ({ remoteJid: row.chat_jid, id: row.id, fromMe: row.from_me === 1 })),
+    };
+  }
+
+  reencrypt(): number {
+    const rewritten = rewriteRows(this.db, (value) =>
+      encryptionService.needsRotation(value) ? encryptionService.encryptString(encryptionService.decryptString(value)) : null
+    );
+
+    if (rewritten > 0) {
+      // drop freed pages that still hold the previous ciphertext/plaintext
+      this.db.exec('VACUUM;');
+    }
+
+    reencryptSnapshots(this.sessionId, this.dbPath, (data) =>
+      rewriteStoreData(data, (value) => encryptionService.encryptString(encryptionService.decryptString(value)))
+    );
+
+    return rewritten;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private saveMessage(message: proto.IWebMessageInfo, chatJid?: string): void {
+    const jid = chatJid || message.key?.remoteJid;
+    const id = message.key?.id;
+    if (!jid || !id) {
+      return;
+    }
+
+    this.db
+      .query('INSERT OR REPLACE INTO messages (chat_jid, id, from_me, timestamp, media, data) VALUES (?, ?, ?, ?, ?, ?)')
+      .run(
+        jid,
+        id,
+        message.key?.fromMe ? 1 : 0,
+        toTimestamp(message.messageTimestamp),
+        isMediaMessage(message) ? 1 : 0,
+        encodeValue(message)
+      );
+  }
+
+  /**
+   * Open the database, checking its integrity first; a corrupt file is replaced by the newest valid snapshot
+   */
+  private open(): Database {
+    if (!fs.existsSync(this.dbPath)) {
+      return new Database(this.dbPath, { create: true });
+    }
+
+    let db: Database | null = null;
+    let problem: string | null = null;
+
+    try {
+      db = new Database(this.dbPath, { create: true });
+      const result = db.query<{ quick_check: string }, []>('PRAGMA quick_check').get();
+      if (result?.quick_check !== 'ok') {
+        problem = `integrity check failed: ${result?.quick_check ?? 'no result'}`;
+      }
+    } catch (error) {
+      problem = error instanceof Error ? error.message : String(error);
+    }
+
+    if (!problem && db) {
+      return db;
+    }
+
+    db?.close();
+    recoverFromSnapshot(this.sessionId, this.dbPath, problem || 'unknown error');
+    return new Database(this.dbPath, { create: true });
+  }
+
+  /**
+   * Add columns introduced after a store file was created
+   */
+  private migrateSchema(): void {
+    const columns = this.db.query<{ name: string }, []>('PRAGMA table_info(messages)').all();
+    if (!columns.some((column) => column.name === 'media')) {
+      // NULL = not classified yet, see classifyMedia()
+      this.db.exec('ALTER TABLE messages ADD COLUMN media INTEGER;');
+    }
+  }
+
+  /**
+   * Set the media flag of messages stored before it existed, for those older than `before` only
+   * (the ones a media retention limit is about to look at)
+   */
+  private classifyMedia(before: number): void {
+    const rows = this.db
+      .query<{ rowid: number; data: string }, [number]>(
+        'SELECT rowid, data FROM messages WHERE media IS NULL AND timestamp < ?'
+      )
+      .all(before);
+    const update = this.db.query<unknown, [number, number]>('UPDATE messages SET media = ? WHERE rowid = ?');
+
+    for (const row of rows) {
+      let media = 0;
+      try {
+        media = isMediaMessage(decodeMessage(row.data)) ? 1 : 0;
+      } catch (error) {
+        logger.debug({ sessionId: this.sessionId, error }, 'Failed to decode stored message');
+      }
+      update.run(media, row.rowid);
+    }
+  }
+
+  private saveChat(chat: Chat): void {
+    this.db
+      .query('INSERT OR REPLACE INTO chats (jid, timestamp, data) VALUES (?, ?, ?)')
+      .run(chat.id, toTimestamp(chat.conversationTimestamp), encodeValue(chat));
+  }
+
+  private insertChatIfAbsent(chat: Chat): void {
+    this.db
+      .query('INSERT OR IGNORE INTO chats (jid, timestamp, data) VALUES (?, ?, ?)')
+      .run(chat.id, toTimestamp(chat.conversationTimestamp), encodeValue(chat));
+  }
+
+  private saveContact(contact: Contact): void {
+    this.db.query('INSERT OR REPLACE INTO contacts (jid, data) VALUES (?, ?)').run(contact.id, encodeValue(contact));
+  }
+
+  private upsertContact(contact: Contact): void {
+    this.saveContact({ ...this.getContact(contact.id), ...contact });
+  }
+
+  /**
+   * One-time import of a legacy makeInMemoryStore `store.json`, renamed afterwards so it is not imported twice
+   */
+  private migrateFromJson(jsonPath: string): void {
+    const legacy = makeInMemoryStore({ logger: pino({ level: 'silent' }) });
+    const json = readStoreJson(jsonPath);
+
+    try {
+      legacy.fromJSON(JSON.parse(json));
+    } catch (error) {
+      logger.warn({ sessionId: this.sessionId, error }, 'Failed to read legacy store.json, skipping migration');
+      return;
+    }
+
+    let messageCount = 0;
+
+    this.db.transaction(() => {
+      for (const chat of legacy.chats.all()) {
+        this.insertChatIfAbsent(chat);
+      }
+
+      for (const contact of Object.values(legacy.contacts)) {
+        this.upsertContact(contact);
+      }
+
+      for (const [jid, messages] of Object.entries(legacy.messages)) {
+        for (const message of messages.array) {
+          this.saveMessage(message, jid);
+          messageCount += 1;
+        }
+      }
+
+      for (const label of legacy.getLabels().findAll()) {
+        this.db.query('INSERT OR REPLACE INTO labels (id, data) VALUES (?, ?)').run(label.id, encodeValue(label));
+      }
+
+      for (const association of legacy.labelAssociations.all()) {
+        const messageId = 'messageId' in association ? association.messageId : '';
+        this.db
+          .query('INSERT OR IGNORE INTO label_associations (label_id, chat_jid, message_id) VALUES (?, ?, ?)')
+          .run(association.labelId, association.chatId, messageId);
+      }
+    })();
+
+    fs.renameSync(jsonPath, `${jsonPath}.migrated`);
+    logger.info({ sessionId: this.sessionId, messages: messageCount }, 'Migrated store.json to SQLite store');
+  }
+}
+
+export default SqliteSessionStore;
@@ -0,0 +1,33 @@
+import path from 'path';
+
+import config, { getSessionPath } from '../../config';
+import { InMemorySessionStore } from './InMemorySessionStore';
+import { SqliteSessionStore } from './SqliteSessionStore';
+import type { SessionStore } from '../../types';
+
+export const STORE_JSON_FILE = 'store.json';
+export const STORE_SQLITE_FILE = 'store.sqlite';
+
+/**
+ * Path of the store file used by STORE_BACKEND for a session
+ */
+export function getStorePath(sessionId: string): string {
+  return path.join(getSessionPath(sessionId), config.storeBackend === 'memory' ? STORE_JSON_FILE : STORE_SQLITE_FILE);
+}
+
+/**
+ * Create the message/chat/contact store selected by STORE_BACKEND for a session
+ */
+export function createSessionStore(sessionId: string): SessionStore {
+  const jsonPath = path.join(getSessionPath(sessionId), STORE_JSON_FILE);
+
+  switch (config.storeBackend) {
+    case 'memory':
+      return new InMemorySessionStore(sessionId, jsonPath);
+    case 'sqlite':
+    default:
+      return new SqliteSessionStore(sessionId, getStorePath(sessionId), jsonPath);
+  }
+}
+
+export default createSessionStore;
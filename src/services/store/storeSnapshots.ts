@@ -0,0 +1,202 @@
+import { Database } from 'bun:sqlite';
+import fs from 'fs';
+import path from 'path';
+
+import config from '../../config';
+import logger from '../../logger';
+import encryptionService from '../EncryptionService';
+import { decodeValue, ENCODED_TABLES, readStoreJson, writeFileAtomic } from './storeUtils';
+import type { StoreSnapshotInfo } from '../../types';
+
+// Rotating snapshots live next to the store: session-<id>/snapshots/<store file>.<timestamp>
+const SNAPSHOTS_DIR = 'snapshots';
+const SNAPSHOT_ID_PATTERN = /^(store\.(?:json|sqlite))\.(\d{8}T\d{9}Z)$/;
+
+function getSnapshotsDir(storePath: string): string {
+  return path.join(path.dirname(storePath), SNAPSHOTS_DIR);
+}
+
+function parseSnapshotTime(stamp: string): string {
+  // 20250102T083000123Z -> 2025-01-02T08:30:00.123Z
+  return stamp.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z$/, '$1-$2-$3T$4:$5:$6.$7Z');
+}
+
+export function isSnapshotId(snapshotId: string): boolean {
+  return SNAPSHOT_ID_PATTERN.test(snapshotId);
+}
+
+/**
+ * Snapshots of a store file, newest first
+ */
+export function listSnapshots(storePath: string): StoreSnapshotInfo[] {
+  const dir = getSnapshotsDir(storePath);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const storeFile = path.basename(storePath);
+  const snapshots: StoreSnapshotInfo[] = [];
+
+  for (const name of fs.readdirSync(dir)) {
+    const match = SNAPSHOT_ID_PATTERN.exec(name);
+    if (!match || match[1] !== storeFile) {
+      continue;
+    }
+
+    snapshots.push({
+      id: name,
+      file: storeFile,
+      createdAt: parseSnapshotTime(match[2]),
+      sizeBytes: fs.statSync(path.join(dir, name)).size,
+    });
+  }
+
+  return snapshots.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+export function getSnapshotPath(storePath: string, snapshotId: string): string {
+  return path.join(getSnapshotsDir(storePath), snapshotId);
+}
+
+/**
+ * Write a snapshot of a store (`data` in the store's on-disk format) and drop the oldest ones
+ * beyond STORE_SNAPSHOT_COUNT
+ */
+export function writeSnapshot(storePath: string, data: Buffer): StoreSnapshotInfo {
+  const stamp = new Date().toISOString().replace(/[-:.]/g, '');
+  const id = `${path.basename(storePath)}.${stamp}`;
+  writeFileAtomic(getSnapshotPath(storePath, id), data);
+
+  for (const stale of listSnapshots(storePath).slice(Math.max(config.storeSnapshotCount, 1))) {
+    fs.rmSync(getSnapshotPath(storePath, stale.id), { force: true });
+  }
+
+  return listSnapshots(storePath).find((snapshot) => snapshot.id === id)!;
+}
+
+/**
+ * Rewrite the snapshots of a store with the current encryption key (`reencrypt` maps a snapshot's content
+ * to its re-encrypted form). Snapshots that cannot be decrypted any more are removed, a later recovery
+ * would only install a store it cannot read.
+ */
+export function reencryptSnapshots(sessionId: string, storePath: string, reencrypt: (data: Buffer) => Buffer): void {
+  for (const snapshot of listSnapshots(storePath)) {
+    const snapshotPath = getSnapshotPath(storePath, snapshot.id);
+
+    try {
+      writeFileAtomic(snapshotPath, reencrypt(fs.readFileSync(snapshotPath)));
+    } catch (error) {
+      logger.warn({ sessionId, snapshot: snapshot.id, error }, 'Removing store snapshot that cannot be re-encrypted');
+      fs.rmSync(snapshotPath, { force: true });
+    }
+  }
+}
+
+/**
+ * Check that a store file can be loaded: a decryptable, parseable JSON store or a SQLite database
+ * passing `PRAGMA quick_check` whose records decode with the configured keys. Returns the reason it
+ * cannot, or null.
+ */
+export function verifyStoreFile(filePath: string): string | null {
+  try {
+    if (path.basename(filePath).startsWith('store.sqlite')) {
+      const db = new Database(filePath, { readonly: true });
+      try {
+        const result = db.query<{ quick_check: string }, []>('PRAGMA quick_check').get();
+        if (result?.quick_check !== 'ok') {
+          return `integrity check failed: ${result?.quick_check ?? 'no result'}`;
+        }
+        if (!db.query("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'messages'").get()) {
+          return 'messages table is missing';
+        }
+        // quick_check passes on a database encrypted with a retired key, a record has to decode too
+        const tables = db
+          .query<{ name: string }, []>("SELECT name FROM sqlite_master WHERE type = 'table'")
+          .all()
+          .map((row) => row.name);
+        for (const table of ENCODED_TABLES.filter((name) => tables.includes(name))) {
+          const row = db.query<{ data: string }, []>(`SELECT data FROM ${table} LIMIT 1`).get();
+          if (row) {
+            decodeValue(row.data);
+          }
+        }
+      } finally {
+        db.close();
+      }
+
+      return null;
+    }
+
+    const parsed = JSON.parse(readStoreJson(filePath));
+    if (!parsed || typeof parsed !== 'object' || !('chats' in parsed)) {
+      return 'not a session store';
+    }
+
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Whether a store file is encrypted with a key that is not configured; such files are not corrupt
+ * and must never be replaced by a snapshot
+ */
+export function isMissingKey(filePath: string): boolean {
+  const header = Buffer.alloc(64);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const length = fs.readSync(fd, header, 0, header.length, 0);
+    const start = header.subarray(0, length);
+    return encryptionService.isEncryptedBuffer(start) && !encryptionService.canDecrypt(start);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Copy a snapshot over the store file. SQLite side files (-wal, -shm) of the replaced database are removed
+ * so they are not replayed onto the restored one.
+ */
+export function restoreSnapshot(storePath: string, snapshotId: string): void {
+  writeFileAtomic(storePath, fs.readFileSync(getSnapshotPath(storePath, snapshotId)));
+
+  for (const suffix of ['-wal', '-shm']) {
+    fs.rmSync(`${storePath}${suffix}`, { force: true });
+  }
+}
+
+/**
+ * Recover a store file that failed to load: keep it aside as `<file>.corrupt-<timestamp>` and restore
+ * the newest snapshot that passes verification. Returns the snapshot used, or null if none was valid.
+ */
+export function recoverFromSnapshot(sessionId: string, storePath: string, reason: string): StoreSnapshotInfo | null {
+  const stamp = new Date().toISOString().replace(/[-:.]/g, '');
+  const corruptPath = `${storePath}.corrupt-${stamp}`;
+
+  logger.error({ sessionId, file: storePath, reason }, 'Session store is corrupt, recovering from snapshots');
+
+  if (fs.existsSync(storePath)) {
+    fs.renameSync(storePath, corruptPath);
+  }
+  for (const suffix of ['-wal', '-shm']) {
+    if (fs.existsSync(`${storePath}${suffix}`)) {
+      fs.renameSync(`${storePath}${suffix}`, `${corruptPath}${suffix}`);
+    }
+  }
+
+  for (const snapshot of listSnapshots(storePath)) {
+    const invalid = verifyStoreFile(getSnapshotPath(storePath, snapshot.id));
+    if (invalid) {
+      logger.warn({ sessionId, snapshot: snapshot.id, reason: invalid }, 'Skipping invalid store snapshot');
+      continue;
+    }
+
+    restoreSnapshot(storePath, snapshot.id);
+    logger.warn({ sessionId, snapshot: snapshot.id, corruptFile: corruptPath }, 'Session store restored from snapshot');
+    return snapshot;
+  }
+
+  logger.error({ sessionId, corruptFile: corruptPath }, 'No valid store snapshot found, starting with an empty store');
+  return null;
+}
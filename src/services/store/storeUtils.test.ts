@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test';
+import type { proto } from '@whiskeysockets/baileys';
+
+import { applyEdit, getOriginalContent, markRevoked } from './storeUtils';
+import type { SessionStore, StoredMessageEdit } from '../../types';
+
+function makeStore(message: proto.IWebMessageInfo, edits: StoredMessageEdit[]): SessionStore {
+  return {
+    getMessage: () => message,
+    getEditHistory: () => edits,
+  } as unknown as SessionStore;
+}
+
+describe('applyEdit', () => {
+  test('keeps the media of an edited caption', () => {
+    const message: proto.IWebMessageInfo = {
+      key: { remoteJid: '15551234567@s.whatsapp.net', id: 'A' },
+      message: { imageMessage: { caption: 'old', url: 'https://example.com/a' } },
+    };
+
+    applyEdit(message, { imageMessage: { caption: 'new' } }, 100);
+
+    expect(message.message).toEqual({
+      editedMessage: { message: { imageMessage: { caption: 'new', url: 'https://example.com/a' } } },
+    });
+  });
+
+  test('the socket gets the original content back after edits', () => {
+    const original: proto.IMessage = {
+      ephemeralMessage: { message: { extendedTextMessage: { text: 'first' } } },
+      messageContextInfo: { messageSecret: new Uint8Array([1, 2, 3]) },
+    };
+    const message: proto.IWebMessageInfo = { key: { remoteJid: '15551234567@s.whatsapp.net', id: 'A' }, message: original };
+    const edits = [
+      applyEdit(message, { extendedTextMessage: { text: 'second' } }, 100),
+      applyEdit(message, { extendedTextMessage: { text: 'third' } }, 200),
+    ];
+
+    expect(edits[1].message).toEqual({ extendedTextMessage: { text: 'second' } });
+    expect(getOriginalContent(makeStore(message, edits), '15551234567@s.whatsapp.net', 'A')).toBe(original);
+  });
+
+  test('messages deleted for everyone are never sent again', () => {
+    const message: proto.IWebMessageInfo = { key: { id: 'A' }, message: { conversation: 'deleted' } };
+    const edits = [applyEdit(message, { conversation: 'edited, then deleted' }, 100)];
+    markRevoked(message);
+
+    expect(getOriginalContent(makeStore(message, edits), '15551234567@s.whatsapp.net', 'A')).toBeUndefined();
+  });
+
+  test('messages never edited are returned as stored', () => {
+    const message: proto.IWebMessageInfo = { key: { id: 'A' }, message: { conversation: 'hello' } };
+
+    expect(getOriginalContent(makeStore(message, []), '15551234567@s.whatsapp.net', 'A')).toBe(message.message!);
+  });
+});
@@ -0,0 +1,158 @@
+import { BufferJSON, getContentType, normalizeMessageContent, proto } from '@whiskeysockets/baileys';
+import fs from 'fs';
+import path from 'path';
+
+import encryptionService from '../EncryptionService';
+import type { SessionStore, StoredMessageEdit } from '../../types';
+
+const MEDIA_CONTENT_TYPES = new Set<string>([
+  'imageMessage',
+  'videoMessage',
+  'ptvMessage',
+  'audioMessage',
+  'documentMessage',
+  'stickerMessage',
+]);
+
+/**
+ * Whether a message carries media (targeted by the mediaMaxAgeDays retention limit)
+ */
+export function isMediaMessage(message: proto.IWebMessageInfo): boolean {
+  const type = getContentType(normalizeMessageContent(message.message));
+  return !!type && MEDIA_CONTENT_TYPES.has(type);
+}
+
+/**
+ * Whether a `messages.update` entry is a delete for everyone: Baileys clears `message` and sets a REVOKE stub
+ */
+export function isRevokeUpdate(update: Partial<proto.IWebMessageInfo>): boolean {
+  return update.messageStubType === proto.WebMessageInfo.StubType.REVOKE;
+}
+
+/**
+ * Flag a stored message as deleted for everyone, keeping its content
+ */
+export function markRevoked(message: proto.IWebMessageInfo): proto.IWebMessageInfo {
+  message.messageStubType = proto.WebMessageInfo.StubType.REVOKE;
+  message.revokeMessageTimestamp = Math.floor(Date.now() / 1000);
+  return message;
+}
+
+/**
+ * New content of a `messages.update` entry for an edit, which Baileys sends wrapped in `editedMessage`
+ */
+export function getEditedContent(update: Partial<proto.IWebMessageInfo>): proto.IMessage | undefined {
+  return update.message?.editedMessage?.message || undefined;
+}
+
+/**
+ * Apply an edit to a stored message, returning the version it replaces. The new content stays wrapped in
+ * `editedMessage`, as Baileys stores it, so the message reads as edited; fields the edit leaves out (such
+ * as the media of an edited caption) are kept from the previous version.
+ */
+export function applyEdit(message: proto.IWebMessageInfo, edited: proto.IMessage, editedAt: number): StoredMessageEdit {
+  const current = normalizeMessageContent(message.message) || {};
+  const type = getContentType(edited);
+  const merged =
+    type && type === getContentType(current) && typeof edited[type] === 'object'
+      ? { ...current, [type]: { ...(current[type] as object), ...(edited[type] as object) } }
+      : edited;
+
+  // the original is kept as received, see getOriginalContent()
+  const previous = message.message?.editedMessage ? current : message.message || {};
+  message.message = { editedMessage: { message: merged } };
+  return { message: previous, editedAt };
+}
+
+/**
+ * Content of a message as it was first sent: an edited message is stored with its current content, but
+ * retry requests (the socket's `getMessage`) must get the original back. A message deleted for everyone
+ * has none, its content is only kept for the API and must never be sent again.
+ */
+export function getOriginalContent(store: SessionStore, chatJid: string, messageId: string): proto.IMessage | undefined {
+  const message = store.getMessage(chatJid, messageId);
+  if (!message || isRevokeUpdate(message)) {
+    return undefined;
+  }
+
+  return store.getEditHistory(chatJid, messageId)[0]?.message || message.message || undefined;
+}
+
+export function toTimestamp(value: unknown): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  if (typeof value === 'bigint') {
+    return Number(value);
+  }
+
+  if (!value || typeof value !== 'object') {
+    return 0;
+  }
+
+  if ('toNumber' in value && typeof (value as { toNumber: () => number }).toNumber === 'function') {
+    return (value as { toNumber: () => number }).toNumber();
+  }
+
+  if ('low' in value && typeof (value as { low: number }).low === 'number') {
+    return (value as { low: number }).low;
+  }
+
+  return 0;
+}
+
+// Tables of a SQLite store whose `data` column holds values written by encodeValue()
+export const ENCODED_TABLES = ['messages', 'message_edits', 'chats', 'contacts', 'group_metadata', 'labels'];
+
+export function encodeValue(value: unknown): string {
+  return encryptionService.encryptString(JSON.stringify(value, BufferJSON.replacer));
+}
+
+export function decodeValue<T>(raw: string): T {
+  return JSON.parse(encryptionService.decryptString(raw), BufferJSON.reviver) as T;
+}
+
+/**
+ * Read a makeInMemoryStore JSON snapshot, decrypted if needed. Decryption errors are thrown as-is
+ * so a missing key is never mistaken for a corrupt (and then overwritten) file.
+ */
+export function readStoreJson(filePath: string): string {
+  return encryptionService.decryptBuffer(fs.readFileSync(filePath)).toString('utf-8');
+}
+
+/**
+ * Encode a makeInMemoryStore JSON snapshot as written to disk, encrypted when a master key is configured
+ */
+export function encodeStoreJson(value: unknown): Buffer {
+  return encryptionService.encryptBuffer(Buffer.from(JSON.stringify(value)));
+}
+
+/**
+ * Write a makeInMemoryStore JSON snapshot, encrypted when a master key is configured
+ */
+export function writeStoreJson(filePath: string, value: unknown): void {
+  writeFileAtomic(filePath, encodeStoreJson(value));
+}
+
+/**
+ * Write a file through a temporary file and rename, so a crash never leaves it truncated
+ */
+export function writeFileAtomic(filePath: string, data: Buffer): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  const tmpPath = `${filePath}.tmp`;
+  const fd = fs.openSync(tmpPath, 'w');
+  try {
+    fs.writeFileSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  fs.renameSync(tmpPath, filePath);
+}
+
+export function decodeMessage(raw: string): proto.IWebMessageInfo {
+  return proto.WebMessageInfo.fromObject(decodeValue<Record<string, unknown>>(raw));
+}
@@ -1,18 +1,430 @@
-import type { WASocket, proto, WAMessageKey, makeInMemoryStore } from '@whiskeysockets/baileys';
+import type {
+  WASocket,
+  proto,
+  WAMessageKey,
+  AuthenticationState,
+  BaileysEventEmitter,
+  Chat,
+  Contact,
+  GroupMetadata as WAGroupMetadata,
+} from '@whiskeysockets/baileys';
+import type { Label } from '@whiskeysockets/baileys/lib/Types/Label';
 
-export type SessionStatus = 'connecting' | 'qr' | 'connected' | 'disconnected' | 'pairing';
+export type SessionStatus =
+  | 'stopped'
+  | 'connecting'
+  | 'qr'
+  | 'pairing'
+  | 'connected'
+  | 'reconnecting'
+  | 'stopping'
+  | 'logged_out'
+  | 'failed'
+  | 'hibernated';
+
+export type BulkSessionAction = 'start' | 'stop' | 'restart' | 'terminate';
+
+export type BulkJobStatus = 'running' | 'completed' | 'cancelled';
+
+export interface BulkSessionResult {
+  sessionId: string;
+  /** skipped: not run because the job was cancelled first */
+  status: 'pending' | 'ok' | 'error' | 'skipped';
+  error?: string;
+}
+
+export interface BulkJob {
+  id: string;
+  action: BulkSessionAction;
+  status: BulkJobStatus;
+  total: number;
+  done: number;
+  createdAt: string;
+  finishedAt: string | null;
+  results: BulkSessionResult[];
+}
+
+export interface SessionProbeResult {
+  ok: boolean;
+  /** Round-trip time of a ping query to WhatsApp */
+  latencyMs: number | null;
+  error?: string;
+}
+
+export interface SessionDiagnostics {
+  sessionId: string;
+  status: SessionStatus;
+  socket: {
+    websocketOpen: boolean;
+    startedAt: string;
+    connectedAt: string | null;
+    uptimeSeconds: number | null;
+  };
+  messages: {
+    lastInboundAt: string | null;
+    lastOutboundAt: string | null;
+  };
+  reconnect: ReconnectPolicyState | null;
+  /** Transitions to `reconnecting` in the retained session history */
+  reconnects: { total: number; last24h: number };
+  lastDisconnect: { at: string; reason: string | null; statusCode: number | null } | null;
+  store: SessionStoreStats & {
+    backend: StoreBackend;
+    messageKeyIndex: number;
+    pendingPersist: boolean;
+  };
+  /** Events published but not handed to every sink yet */
+  events: { pending: number };
+  webhooks: { backlog: number };
+  memory: {
+    processRssBytes: number;
+    processHeapUsedBytes: number;
+    /** Rough estimate of what this session keeps in memory */
+    approximateSessionBytes: number;
+  };
+  probe?: SessionProbeResult;
+}
+
+/** waiting_code: socket not ready yet, code_issued: waiting for the code to be entered on the phone */
+export type PairingOnboardingStatus = 'waiting_code' | 'code_issued' | 'connected' | 'failed';
+
+export interface PairingOnboarding {
+  sessionId: string;
+  phoneNumber: string;
+  status: PairingOnboardingStatus;
+  code: string | null;
+  /** Codes requested so far; a new one is requested when the previous one expired */
+  attempts: number;
+  maxAttempts: number;
+  startedAt: string;
+  codeIssuedAt: string | null;
+  finishedAt: string | null;
+  error: string | null;
+}
+
+export type ServerPhase = 'starting' | 'ready' | 'draining' | 'stopped';
+
+export interface DrainProgress {
+  startedAt: string;
+  deadline: string;
+  /** API requests still being answered (Server-Sent Events streams are not counted) */
+  inFlightRequests: number;
+  /** Webhook requests still waiting for the endpoint to answer (queued events survive the restart) */
+  pendingWebhooks: number;
+  /** Events not handed to the webhook queue and websocket clients yet */
+  pendingEvents: number;
+  /** Sessions not stopped yet */
+  sessions: number;
+}
+
+export interface ServerReadiness {
+  ready: boolean;
+  phase: ServerPhase;
+  drain: DrainProgress | null;
+}
+
+/** In-process notifications about a session's login flow and lifecycle */
+export type SessionLifecycleEvent =
+  | { type: 'state'; status: SessionStatus; reason: string | null }
+  | { type: 'qr'; qr: string; expiresAt: number }
+  | { type: 'pairing_code'; code: string };
+
+/** One state transition in a session's persisted timeline */
+export interface SessionHistoryEntry {
+  at: string;
+  from: SessionStatus;
+  to: SessionStatus;
+  /** Why the transition happened, e.g. a disconnect reason (`timedOut`) or `manual` */
+  reason: string | null;
+  /** Disconnect status code reported by WhatsApp, for transitions caused by a closed connection */
+  statusCode: number | null;
+}
 
 export interface BaileysSession {
   socket: WASocket;
-  store: ReturnType<typeof makeInMemoryStore>;
-  storePath: string;
+  store: SessionStore;
   messageKeyIndex: Map<string, WAMessageKey>;
   qr: string | null;
+  /** Epoch ms after which Baileys replaces the current QR code */
+  qrExpiresAt: number | null;
   pairingCode: string | null;
   status: SessionStatus;
+  options: SessionOptions;
   saveCreds: () => Promise<void>;
-  reconnectAttempts: number;
   phoneNumber?: string;
+  /** Epoch ms, for diagnostics */
+  startedAt: number;
+  connectedAt: number | null;
+  lastInboundAt: number | null;
+  lastOutboundAt: number | null;
+  /** Messages removed by retention since the session started */
+  prunedMessages: number;
+  lastPrunedAt: number | null;
+  /** Set when the session is torn down on purpose, so the close of its socket is not reconnected */
+  stopping: boolean;
+}
+
+/** idle: connected or never disconnected, backoff: retrying with exponential delays, cooldown: slow retries, stopped: gave up */
+export type ReconnectMode = 'idle' | 'backoff' | 'cooldown' | 'stopped';
+
+export interface ReconnectPolicyState {
+  mode: ReconnectMode;
+  /** Failed reconnect attempts since the last successful connection */
+  attempt: number;
+  lastReason: string | null;
+  lastStatusCode: number | null;
+  lastDisconnectAt: string | null;
+  nextRetryAt: string | null;
+}
+
+export type HistorySyncMode = 'full' | 'recent' | 'none';
+
+export type BrowserPlatform = 'ubuntu' | 'macOS' | 'windows' | 'baileys' | 'appropriate';
+
+/** Limits applied to stored messages; null means unlimited, missing falls back to the RETENTION_* defaults */
+export interface StoreRetentionPolicy {
+  maxMessagesPerChat?: number | null;
+  maxAgeDays?: number | null;
+  /** Oldest messages across all chats are removed beyond this count */
+  maxMessagesPerSession?: number | null;
+  /** Media messages (image, video, audio, document, sticker) are removed after this many days */
+  mediaMaxAgeDays?: number | null;
+}
+
+/** Messages removed by a store prune */
+export interface StorePruneResult {
+  removed: number;
+  keys: WAMessageKey[];
+}
+
+/** Message counts of a session store, for retention */
+export interface StoreMessageUsage {
+  messages: number;
+  chats: number;
+  /** Timestamp (seconds) of the oldest stored message */
+  oldestTimestamp: number | null;
+}
+
+export interface SessionRetentionUsage {
+  messages: number;
+  chats: number;
+  oldestMessageAt: string | null;
+  messageKeyIndex: number;
+  /** Messages removed by retention since the session started */
+  pruned: number;
+  lastPrunedAt: string | null;
+}
+
+export interface SessionRetentionStatus {
+  /** Effective policy: the session's retention option on top of the RETENTION_* defaults */
+  policy: Required<StoreRetentionPolicy>;
+  usage: SessionRetentionUsage;
+}
+
+/** Per-session socket behaviour, persisted in the registry and reapplied on every (re)start */
+export interface SessionOptions {
+  /** full: whole history, recent: what WhatsApp sends by default, none: no history sync */
+  historySync: HistorySyncMode;
+  markOnlineOnConnect: boolean;
+  /** Device shown in Linked Devices; null keeps the Baileys default */
+  browser: { platform: BrowserPlatform; name: string } | null;
+  linkPreview: 'high' | 'standard';
+  retention: StoreRetentionPolicy;
+}
+
+export type SessionOptionsInput = Partial<SessionOptions>;
+
+export interface SessionRecord {
+  sessionId: string;
+  displayName: string | null;
+  tags: string[];
+  owner: string | null;
+  /** Phone number of the linked account, set on first connection if not given */
+  phoneNumber: string | null;
+  metadata: Record<string, unknown>;
+  /** Start this session on boot when AUTO_START_SESSIONS is enabled */
+  autostart: boolean;
+  options: SessionOptions;
+  createdAt: string;
+  updatedAt: string;
+  lastConnectedAt: string | null;
+}
+
+export type SessionRecordUpdate = Partial<
+  Pick<SessionRecord, 'displayName' | 'tags' | 'owner' | 'phoneNumber' | 'metadata' | 'autostart'>
+> & { options?: SessionOptionsInput };
+
+export interface SessionArchiveSummary {
+  sessionId: string;
+  /** Session ID the archive was exported from */
+  sourceSessionId: string;
+  exportedAt: string;
+  authKeys: number;
+  store: string | null;
+}
+
+export interface KeyRotationSessionResult {
+  sessionId: string;
+  /** Auth-state entries rewritten with the current key */
+  authKeys: number;
+  /** Store records rewritten with the current key */
+  storeRecords: number;
+  /** Whether the session was running and has been started again */
+  restarted: boolean;
+  error?: string;
+}
+
+export interface KeyRotationResult {
+  keyId: string;
+  rotated: number;
+  failed: number;
+  sessions: KeyRotationSessionResult[];
+}
+
+export type StoreBackend = 'memory' | 'sqlite';
+
+/** Point-in-time copy of a session store, as the file it is persisted to */
+export interface StoreSnapshot {
+  file: string;
+  data: Buffer;
+}
+
+/** Rotating copy of a session store kept under `session-<id>/snapshots` */
+export interface StoreSnapshotInfo {
+  /** File name, e.g. store.sqlite.20250102T083000123Z */
+  id: string;
+  /** Store file it is a copy of */
+  file: string;
+  createdAt: string;
+  sizeBytes: number;
+}
+
+/** Record counts of a session store, for diagnostics */
+export interface SessionStoreStats {
+  chats: number;
+  contacts: number;
+  groups: number;
+  labels: number;
+  messages: number;
+  /** Chats with the most stored messages, largest first */
+  largestChats: Array<{ chatId: string; messages: number }>;
+  /** Size of the database file (sqlite) or of the serialized store (memory) */
+  sizeBytes: number;
+}
+
+/** Options of a poll with the voters of each, from the votes decrypted so far */
+export interface PollVotesData {
+  pollId: string;
+  name: string;
+  /** Options a voter may select, 1 for single choice polls */
+  selectableCount: number;
+  options: Array<{ name: string; localId: number; votes: number; voters: string[] }>;
+  /** Voters with a selection; a voter who removed their vote is not counted */
+  totalVoters: number;
+}
+
+/** Why a poll vote could not be decrypted */
+export type PollVoteFailure = 'poll_not_found' | 'missing_secret' | 'decryption_failed';
+
+/** A vote on a poll (`vote_update` event) */
+export interface PollVoteData {
+  voter: string;
+  /** Options now selected by the voter; empty when the vote was removed or could not be decrypted */
+  selectedOptions: Array<{ name: string; localId: number }>;
+  /** When the vote was cast (epoch ms) */
+  interractedAtTs: number;
+  parentMsgKey: MessageData['id'];
+  /** The poll, when it is in the store */
+  parentMessage: MessageData | null;
+  /** Tallies of the poll including this vote, when it is in the store */
+  poll: PollVotesData | null;
+  undecryptable: boolean;
+  reason: PollVoteFailure | null;
+}
+
+/** A previous version of an edited message, as returned by getEditHistory */
+export interface MessageEditData {
+  body: string;
+  type: string;
+  /** When this version was sent or set by an edit (unix seconds) */
+  timestamp: number;
+  /** When this version was replaced (unix seconds) */
+  editedAt: number;
+}
+
+/** A version of an edited message, replaced by a later edit */
+export interface StoredMessageEdit {
+  /** Content of the version: the original as received, later versions unwrapped */
+  message: proto.IMessage;
+  /** When the version was replaced (unix seconds) */
+  editedAt: number;
+}
+
+export interface SessionStore {
+  readonly backend: StoreBackend;
+  /** Subscribe to socket events and keep the store up to date */
+  bind(ev: BaileysEventEmitter): void;
+  getMessage(chatJid: string, messageId: string): proto.IWebMessageInfo | undefined;
+  /** Look up a message by ID when the chat is unknown */
+  findMessageById(messageId: string): proto.IWebMessageInfo | undefined;
+  /** Messages of a chat, latest first */
+  getMessages(chatJid: string): proto.IWebMessageInfo[];
+  getLatestMessage(chatJid: string): proto.IWebMessageInfo | undefined;
+  getMessageReceipts(key: WAMessageKey): proto.IUserReceipt[];
+  /** Versions an edited message had before its current content, oldest first */
+  getEditHistory(chatJid: string, messageId: string): StoredMessageEdit[];
+  /** JIDs of all chats that have at least one stored message */
+  listMessageChatJids(): string[];
+  getChats(): Chat[];
+  getChat(jid: string): Chat | undefined;
+  getContacts(): Contact[];
+  getContact(jid: string): Contact | undefined;
+  getGroupMetadata(jid: string): WAGroupMetadata | undefined;
+  setGroupMetadata(jid: string, metadata: WAGroupMetadata): void;
+  listGroupMetadata(): WAGroupMetadata[];
+  getLabels(): Label[];
+  getLabel(labelId: string): Label | undefined;
+  getChatLabelIds(chatJid: string): string[];
+  /** Flush pending state to disk atomically, taking a rotating snapshot when STORE_SNAPSHOT_INTERVAL has passed */
+  persist(): void;
+  /** Write a snapshot now */
+  saveSnapshot(): StoreSnapshotInfo;
+  /** Record counts, with the `limit` chats holding the most messages */
+  getStats(limit: number): SessionStoreStats;
+  /** Message counts, cheap enough to read on every status request */
+  getMessageUsage(): StoreMessageUsage;
+  /** Delete messages outside the retention policy, returning the keys of the removed messages */
+  prune(policy: StoreRetentionPolicy): StorePruneResult;
+  /** Consistent plaintext copy of the whole store, safe to take while the session is running */
+  snapshot(): StoreSnapshot;
+  /** Rewrite stored data with the current encryption key, returns the number of records rewritten */
+  reencrypt(): number;
+  close(): void;
+}
+
+export type AuthStateBackend = 'file' | 'sqlite' | 'redis';
+
+export interface SessionAuthState {
+  state: AuthenticationState;
+  saveCreds: () => Promise<void>;
+}
+
+export interface AuthStateStore {
+  readonly backend: AuthStateBackend;
+  /** Load (or initialise) the creds and signal key store for a session */
+  useAuthState(sessionId: string): Promise<SessionAuthState>;
+  /** IDs of every session that has persisted creds */
+  listSessionIds(): Promise<string[]>;
+  hasSession(sessionId: string): Promise<boolean>;
+  /** Delete creds and all signal keys for a session */
+  removeSession(sessionId: string): Promise<void>;
+  /** Raw stored value of a single entry */
+  readEntry(sessionId: string, key: string): Promise<string | null>;
+  /** Raw key/value entries (BufferJSON-encoded) of a session, used for backups */
+  exportSession(sessionId: string): Promise<Record<string, string>>;
+  /** Replace every entry of a session with the given raw key/value entries */
+  importSession(sessionId: string, entries: Record<string, string>): Promise<void>;
+  close(): Promise<void>;
 }
 
 export interface WebhookPayload {
@@ -21,6 +433,226 @@ export interface WebhookPayload {
   data: unknown;
 }
 
+/** An event on the internal event bus, as handed to every sink */
+export interface BusEvent {
+  sessionId: string;
+  dataType: string;
+  data: unknown;
+  /** Chat the event is about; events of a chat (or of the session, when null) reach sinks in order */
+  chatId: string | null;
+  publishedAt: number;
+}
+
+export interface EventSinkStats {
+  name: string;
+  handled: number;
+  failed: number;
+  averageLatencyMs: number;
+  maxLatencyMs: number;
+}
+
+export interface EventBusStats {
+  /** Events published but not handled by every sink yet */
+  pending: number;
+  maxPending: number;
+  oldestPendingAt: string | null;
+  concurrency: number;
+  /** Chats (or sessions) whose events are being dispatched */
+  activeLanes: number;
+  /** Chats (or sessions) with events waiting for a free dispatcher */
+  queuedLanes: number;
+  published: number;
+  dispatched: number;
+  /** Publishes that had to wait because `maxPending` was reached */
+  throttled: number;
+  /** Publishers waiting for the backlog to drop below `maxPending` */
+  waitingPublishers: number;
+  sinks: EventSinkStats[];
+}
+
+/**
+ * Body of webhook deliveries:
+ * - `wwebjs`: `{ sessionId, dataType, data }` with wwebjs-compatible data (messages include the raw `_data`)
+ * - `v2`: versioned envelope with slim, documented data (see {@link WebhookEventV2})
+ * - `cloudevents`: CloudEvents 1.0 structured mode (`application/cloudevents+json`), v2 data
+ * - `cloudevents-binary`: CloudEvents 1.0 binary mode (`ce-*` headers), v2 data as the body
+ */
+export type WebhookPayloadFormat = 'wwebjs' | 'v2' | 'cloudevents' | 'cloudevents-binary';
+
+/** Message in v2 payloads: MessageData without the raw Baileys object and wwebjs-only fields */
+export interface WebhookMessageV2 {
+  /** Serialized id (`<fromMe>_<chatId>_<messageId>`), accepted wherever the API takes a message id */
+  id: string;
+  messageId: string;
+  chatId: string;
+  from: string;
+  to: string;
+  /** Sender in group chats */
+  author: string | null;
+  fromMe: boolean;
+  type: string;
+  body: string;
+  /** Unix time in seconds */
+  timestamp: number;
+  hasMedia: boolean;
+  hasQuotedMsg: boolean;
+  isForwarded: boolean;
+  forwardingScore: number;
+  isStatus: boolean;
+  mentionedIds: string[];
+  ack: number;
+  /** Deleted for everyone; the original content is kept */
+  isRevoked: boolean;
+  isEdited: boolean;
+}
+
+export interface WebhookEventV2 {
+  version: 2;
+  /** Event id, same as the `x-webhook-id` header */
+  id: string;
+  /** Event type (`dataType` of the wwebjs format) */
+  type: string;
+  sessionId: string;
+  /** When the event was emitted */
+  timestamp: string;
+  data: unknown;
+}
+
+/**
+ * Content filters of a webhook subscription. They only apply to events about a chat or message;
+ * lifecycle events (qr, ready, change_state, ...) are selected by `dataTypes` alone.
+ */
+export interface WebhookSubscriptionFilters {
+  /** Only events of these chats (empty = all chats) */
+  chatAllowlist: string[];
+  /** Never events of these chats */
+  chatDenylist: string[];
+  groupsOnly: boolean;
+  /** Drop events about messages sent by the session itself */
+  excludeFromMe: boolean;
+  /** Only messages of these types (`chat`, `image`, `ptt`, ...; empty = all) */
+  messageTypes: string[];
+}
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  description: string | null;
+  enabled: boolean;
+  /** Session ids, `*` matching any characters (empty = all sessions) */
+  sessions: string[];
+  /** Event types to deliver (empty = all) */
+  dataTypes: string[];
+  filters: WebhookSubscriptionFilters;
+  format: WebhookPayloadFormat;
+  /** HMAC signing secret; null delivers unsigned */
+  secret: string | null;
+  /** Secret still signed with while receivers switch to `secret` */
+  previousSecret: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A subscription as returned by the API: secrets are only revealed when created or rotated */
+export type WebhookSubscriptionView = Omit<WebhookSubscription, 'secret' | 'previousSecret'> & {
+  /** The `default` subscription configured by BASE_WEBHOOK_URL, read-only through the API */
+  builtIn: boolean;
+  signed: boolean;
+  /** Whether a previous secret is still signed with */
+  rotating: boolean;
+};
+
+export interface WebhookSubscriptionUpdate {
+  url?: string;
+  description?: string | null;
+  enabled?: boolean;
+  sessions?: string[];
+  dataTypes?: string[];
+  filters?: Partial<WebhookSubscriptionFilters>;
+  format?: WebhookPayloadFormat;
+  secret?: string | null;
+  previousSecret?: string | null;
+}
+
+/** Queued deliveries of one webhook subscription; events are delivered to it one at a time, in order */
+export interface WebhookEndpointQueueStats {
+  subscriptionId: string;
+  url: string;
+  pending: number;
+  dead: number;
+  /** Whether a request to the endpoint is waiting for an answer */
+  inFlight: boolean;
+  oldestPendingAt: string | null;
+  /** Retry time of the event at the head of the queue, null when it is due */
+  nextAttemptAt: string | null;
+  /** Failed attempts of the event at the head of the queue */
+  attempts: number;
+  lastError: string | null;
+}
+
+export interface WebhookQueueStats {
+  pending: number;
+  inFlight: number;
+  dead: number;
+  endpoints: WebhookEndpointQueueStats[];
+}
+
+export interface WebhookDeadLetter {
+  id: string;
+  subscriptionId: string;
+  url: string;
+  sessionId: string;
+  dataType: string;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string;
+  deadAt: string;
+  payload: WebhookPayload;
+}
+
+/** Outcome of one HTTP request to a webhook endpoint */
+export interface WebhookAttemptResult {
+  success: boolean;
+  /** HTTP status of the answer, null when there was none (timeout, connection error) */
+  statusCode: number | null;
+  latencyMs: number;
+  /** Start of the answer body, truncated */
+  responseBody: string | null;
+  error: string | null;
+}
+
+/** A logged delivery attempt */
+export interface WebhookDeliveryAttempt extends WebhookAttemptResult {
+  id: string;
+  /** Event id (`x-webhook-id`), shared by all attempts of an event */
+  eventId: string;
+  subscriptionId: string;
+  url: string;
+  sessionId: string;
+  dataType: string;
+  attempt: number;
+  /** Whether this was a test event sent through the API */
+  test: boolean;
+  attemptedAt: string;
+}
+
+export interface WebhookDeliveryFilter {
+  subscriptionId?: string;
+  sessionId?: string;
+  eventId?: string;
+  dataType?: string;
+  success?: boolean;
+  since?: number;
+  limit?: number;
+}
+
+/** Selects dead letters: explicit `ids`, every dead letter of `sessionId` and/or `subscriptionId`, or all of them */
+export interface WebhookDeadLetterFilter {
+  ids?: string[];
+  sessionId?: string;
+  subscriptionId?: string;
+}
+
 export interface SendMessageOptions {
   chatId: string;
   contentType: 'string' | 'MessageMedia' | 'MessageMediaFromURL' | 'Location' | 'Poll' | 'Contact' | 'Buttons' | 'List';
@@ -122,6 +754,9 @@ export interface MessageData {
   hasQuotedMsg: boolean;
   hasMedia: boolean;
   hasReaction: boolean;
+  /** Deleted for everyone; the original content is kept */
+  isRevoked: boolean;
+  isEdited: boolean;
   ack: number;
   mentionedIds: string[];
   groupMentions: string[];
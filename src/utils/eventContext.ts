@@ -0,0 +1,67 @@
+/** What an event is about: used for webhook content filters and event ordering */
+export interface EventContext {
+  chatId?: string;
+  fromMe?: boolean;
+  messageType?: string;
+}
+
+/** Event data as published, before its shape is checked */
+export type EventData = Record<string, unknown>;
+
+/**
+ * An object field of event data (or the data itself), empty when it is not an object
+ */
+export function toEventData(value: unknown): EventData {
+  return value && typeof value === 'object' ? (value as EventData) : {};
+}
+
+function toOptionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function getMessageIdContext(value: unknown): EventContext {
+  const id = toEventData(value);
+  return typeof id.remote === 'string' ? { chatId: id.remote, fromMe: !!id.fromMe } : {};
+}
+
+/**
+ * Chat, sender side and message type of an event, from the payload built by the matching
+ * `WebhookService.sendXxx` helper
+ */
+export function getEventContext(dataType: string, data: unknown): EventContext {
+  const event = toEventData(data);
+  const message = toEventData(event.message);
+
+  switch (dataType) {
+    case 'message':
+    case 'message_create':
+    case 'message_revoke_me':
+    case 'media_uploaded':
+      return { ...getMessageIdContext(event.id), messageType: toOptionalString(event.type) };
+    case 'message_ack':
+    case 'message_edit':
+      return { ...getMessageIdContext(message.id), messageType: toOptionalString(message.type) };
+    case 'message_revoke_everyone':
+      // the notification is always `revoked`; filter on the type of the message that was deleted
+      return {
+        ...getMessageIdContext(message.id),
+        messageType: toOptionalString(toEventData(event.revokedMsg).type) ?? toOptionalString(message.type),
+      };
+    case 'message_reaction':
+      return getMessageIdContext(event.id);
+    case 'vote_update':
+      return { ...getMessageIdContext(event.parentMsgKey), messageType: 'poll' };
+    case 'group_join':
+    case 'group_leave':
+    case 'group_update':
+    case 'unread_count':
+    case 'chat_removed':
+      return { chatId: toOptionalString(toEventData(event.id)._serialized) };
+    case 'chat_archived':
+      return { chatId: toOptionalString(toEventData(toEventData(event.chat).id)._serialized) };
+    case 'call':
+      return { chatId: toOptionalString(event.from) };
+    default:
+      return {};
+  }
+}
@@ -0,0 +1,44 @@
+// E.164: country code + subscriber number, at most 15 digits
+const MIN_DIGITS = 8;
+const MAX_DIGITS = 15;
+
+/**
+ * Normalise a phone number in international format to the digits WhatsApp expects
+ * (`+1 (415) 555-1234`, `0049 151 2345678`, `14155551234`, ...)
+ */
+export function normalizePhoneNumber(input: unknown): { phoneNumber?: string; error?: string } {
+  if (typeof input !== 'string' && typeof input !== 'number') {
+    return { error: 'phoneNumber is required' };
+  }
+
+  let value = String(input).trim();
+  if (!value) {
+    return { error: 'phoneNumber is required' };
+  }
+
+  if (!/^[+\d\s().\-/]+$/.test(value)) {
+    return { error: 'phoneNumber may only contain digits, spaces, +, -, ., / and parentheses' };
+  }
+
+  const hasPlus = value.startsWith('+');
+  if (value.indexOf('+', 1) !== -1) {
+    return { error: 'phoneNumber may only contain a leading +' };
+  }
+
+  value = value.replace(/\D/g, '');
+
+  // 00 is the international call prefix in most countries
+  if (!hasPlus && value.startsWith('00')) {
+    value = value.slice(2);
+  }
+
+  if (value.startsWith('0')) {
+    return { error: 'phoneNumber must include the country code (e.g. +49 151 2345678)' };
+  }
+
+  if (value.length < MIN_DIGITS || value.length > MAX_DIGITS) {
+    return { error: `phoneNumber must have between ${MIN_DIGITS} and ${MAX_DIGITS} digits including the country code` };
+  }
+
+  return { phoneNumber: value };
+}
@@ -0,0 +1,101 @@
+import { createHash } from 'crypto';
+import { decryptPollVote, getKeyAuthor, normalizeMessageContent, type proto } from '@whiskeysockets/baileys';
+
+import type { PollVoteFailure } from '../types';
+
+type PollOption = { name: string; localId: number };
+
+function getPollCreation(message: proto.IMessage | null | undefined): proto.Message.IPollCreationMessage | undefined {
+  const content = normalizeMessageContent(message);
+  return content?.pollCreationMessage || content?.pollCreationMessageV2 || content?.pollCreationMessageV3 || undefined;
+}
+
+function toHex(value: Uint8Array | null | undefined): string {
+  return value ? Buffer.from(value).toString('hex') : '';
+}
+
+/**
+ * Name, options and selectable count of a poll creation message, or undefined for other messages.
+ * Votes name options by the SHA-256 of the option name, `hash` here.
+ */
+export function getPoll(
+  message: proto.IWebMessageInfo
+): { name: string; selectableCount: number; options: Array<PollOption & { hash: string }> } | undefined {
+  const creation = getPollCreation(message.message);
+  if (!creation) {
+    return undefined;
+  }
+
+  return {
+    name: creation.name || '',
+    selectableCount: creation.selectableOptionsCount || 1,
+    options: (creation.options || []).map((option, localId) => ({
+      name: option.optionName || '',
+      localId,
+      hash: createHash('sha256').update(option.optionName || '').digest('hex'),
+    })),
+  };
+}
+
+/**
+ * Options of a poll picked by a decrypted vote; hashes matching no option are skipped
+ */
+export function getSelectedOptions(poll: proto.IWebMessageInfo, vote: proto.Message.IPollVoteMessage | null | undefined): PollOption[] {
+  const options = getPoll(poll)?.options || [];
+  const selected = new Set((vote?.selectedOptions || []).map(toHex));
+
+  return options.filter((option) => selected.has(option.hash)).map(({ name, localId }) => ({ name, localId }));
+}
+
+/**
+ * Voters (raw JIDs) of each option of a poll, from the votes stored on the poll message
+ */
+export function tallyPollVotes(poll: proto.IWebMessageInfo, meId: string): Array<PollOption & { voters: string[] }> {
+  const options = (getPoll(poll)?.options || []).map((option) => ({ ...option, voters: [] as string[] }));
+
+  for (const update of poll.pollUpdates || []) {
+    const voter = getKeyAuthor(update.pollUpdateMessageKey, meId);
+    const selected = new Set((update.vote?.selectedOptions || []).map(toHex));
+
+    for (const option of options) {
+      if (selected.has(option.hash)) {
+        option.voters.push(voter);
+      }
+    }
+  }
+
+  return options.map(({ hash, ...option }) => option);
+}
+
+/**
+ * Why the vote carried by `message` cannot be decrypted with the stored poll, or null when it can.
+ * Baileys decrypts votes itself (through the socket's `getMessage`) but only logs the ones it cannot,
+ * so they are checked the same way here to be reported.
+ */
+export function getPollVoteFailure(
+  message: proto.IWebMessageInfo,
+  poll: proto.IWebMessageInfo | undefined,
+  meId: string
+): PollVoteFailure | null {
+  const update = normalizeMessageContent(message.message)?.pollUpdateMessage;
+  if (!poll?.message) {
+    return 'poll_not_found';
+  }
+
+  const pollEncKey = poll.message.messageContextInfo?.messageSecret;
+  if (!pollEncKey || !update?.vote) {
+    return 'missing_secret';
+  }
+
+  try {
+    decryptPollVote(update.vote, {
+      pollEncKey,
+      pollCreatorJid: getKeyAuthor(update.pollCreationMessageKey, meId),
+      pollMsgId: update.pollCreationMessageKey?.id || '',
+      voterJid: getKeyAuthor(message.key, meId),
+    });
+    return null;
+  } catch {
+    return 'decryption_failed';
+  }
+}
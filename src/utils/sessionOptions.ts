@@ -0,0 +1,189 @@
+import config from '../config';
+import type { BrowserPlatform, SessionOptions, SessionOptionsInput, StoreRetentionPolicy } from '../types';
+
+const HISTORY_SYNC_MODES = ['full', 'recent', 'none'] as const;
+const LINK_PREVIEW_QUALITIES = ['high', 'standard'] as const;
+const BROWSER_PLATFORMS: readonly BrowserPlatform[] = ['ubuntu', 'macOS', 'windows', 'baileys', 'appropriate'];
+const RETENTION_LIMITS = ['maxMessagesPerChat', 'maxAgeDays', 'maxMessagesPerSession', 'mediaMaxAgeDays'] as const;
+
+/**
+ * Socket behaviour used when a session has no stored options (the previous hard-coded settings)
+ */
+export const DEFAULT_SESSION_OPTIONS: SessionOptions = {
+  historySync: 'full',
+  markOnlineOnConnect: true,
+  browser: null,
+  linkPreview: 'high',
+  retention: {},
+};
+
+/**
+ * Apply a partial options update on top of stored (or default) options
+ */
+export function mergeSessionOptions(base: SessionOptions | undefined, update: SessionOptionsInput = {}): SessionOptions {
+  const current = { ...DEFAULT_SESSION_OPTIONS, ...base };
+
+  return {
+    historySync: update.historySync ?? current.historySync,
+    markOnlineOnConnect: update.markOnlineOnConnect ?? current.markOnlineOnConnect,
+    browser: update.browser !== undefined ? update.browser : current.browser,
+    linkPreview: update.linkPreview ?? current.linkPreview,
+    retention: update.retention !== undefined ? { ...current.retention, ...update.retention } : current.retention,
+  };
+}
+
+/**
+ * Effective retention policy of a session: its own limits, falling back to the RETENTION_* defaults
+ * for the ones it does not set (an explicit null disables a default)
+ */
+export function resolveRetentionPolicy(retention: StoreRetentionPolicy = {}): Required<StoreRetentionPolicy> {
+  const policy = { ...config.retention };
+  for (const field of RETENTION_LIMITS) {
+    if (retention[field] !== undefined) {
+      policy[field] = retention[field] ?? null;
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Whether a retention policy limits anything at all
+ */
+export function hasRetentionLimits(policy: StoreRetentionPolicy): boolean {
+  return RETENTION_LIMITS.some((field) => !!policy[field]);
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+
+  const normalized = String(value).trim().toLowerCase();
+  if (['1', 'true', 'yes', 'on'].includes(normalized)) {
+    return true;
+  }
+  if (['0', 'false', 'no', 'off'].includes(normalized)) {
+    return false;
+  }
+
+  return undefined;
+}
+
+function parsePositiveInt(value: unknown): number | null | undefined {
+  if (value === null || value === '' || value === 0 || value === '0') {
+    return null;
+  }
+
+  const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Validate session options from a JSON body
+ */
+export function parseSessionOptions(input: unknown): { options?: SessionOptionsInput; error?: string } {
+  if (input === undefined || input === null) {
+    return { options: {} };
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'options must be an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const options: SessionOptionsInput = {};
+
+  if (raw.historySync !== undefined) {
+    if (!HISTORY_SYNC_MODES.includes(raw.historySync as SessionOptions['historySync'])) {
+      return { error: `historySync must be one of: ${HISTORY_SYNC_MODES.join(', ')}` };
+    }
+    options.historySync = raw.historySync as SessionOptions['historySync'];
+  }
+
+  if (raw.markOnlineOnConnect !== undefined) {
+    const value = parseBoolean(raw.markOnlineOnConnect);
+    if (value === undefined) {
+      return { error: 'markOnlineOnConnect must be a boolean' };
+    }
+    options.markOnlineOnConnect = value;
+  }
+
+  if (raw.linkPreview !== undefined) {
+    if (!LINK_PREVIEW_QUALITIES.includes(raw.linkPreview as SessionOptions['linkPreview'])) {
+      return { error: `linkPreview must be one of: ${LINK_PREVIEW_QUALITIES.join(', ')}` };
+    }
+    options.linkPreview = raw.linkPreview as SessionOptions['linkPreview'];
+  }
+
+  if (raw.browser !== undefined) {
+    if (raw.browser === null) {
+      options.browser = null;
+    } else {
+      const browser = raw.browser as Record<string, unknown>;
+      if (typeof browser !== 'object' || typeof browser.name !== 'string' || !browser.name.trim()) {
+        return { error: 'browser must be null or an object with a non-empty name' };
+      }
+
+      const platform = (browser.platform ?? 'ubuntu') as BrowserPlatform;
+      if (!BROWSER_PLATFORMS.includes(platform)) {
+        return { error: `browser.platform must be one of: ${BROWSER_PLATFORMS.join(', ')}` };
+      }
+
+      options.browser = { platform, name: browser.name.trim() };
+    }
+  }
+
+  if (raw.retention !== undefined) {
+    const retention = raw.retention as Record<string, unknown>;
+    if (!retention || typeof retention !== 'object' || Array.isArray(retention)) {
+      return { error: 'retention must be an object' };
+    }
+
+    options.retention = {};
+    for (const field of RETENTION_LIMITS) {
+      if (retention[field] === undefined) {
+        continue;
+      }
+
+      const value = parsePositiveInt(retention[field]);
+      if (value === undefined) {
+        return { error: `retention.${field} must be a positive integer, or null to disable it` };
+      }
+      options.retention[field] = value;
+    }
+  }
+
+  return { options };
+}
+
+/**
+ * Read session options from flat query parameters (GET /session/start/:sessionId)
+ */
+export function parseSessionOptionsQuery(query: Record<string, unknown>): { options?: SessionOptionsInput; error?: string } {
+  const raw: Record<string, unknown> = {
+    historySync: query.historySync,
+    markOnlineOnConnect: query.markOnlineOnConnect,
+    linkPreview: query.linkPreview,
+  };
+
+  if (query.browserName !== undefined || query.browserPlatform !== undefined) {
+    raw.browser = { name: query.browserName, platform: query.browserPlatform };
+  }
+
+  if (
+    query.retentionMaxMessagesPerChat !== undefined ||
+    query.retentionMaxAgeDays !== undefined ||
+    query.retentionMaxMessagesPerSession !== undefined ||
+    query.retentionMediaMaxAgeDays !== undefined
+  ) {
+    raw.retention = {
+      maxMessagesPerChat: query.retentionMaxMessagesPerChat,
+      maxAgeDays: query.retentionMaxAgeDays,
+      maxMessagesPerSession: query.retentionMaxMessagesPerSession,
+      mediaMaxAgeDays: query.retentionMediaMaxAgeDays,
+    };
+  }
+
+  return parseSessionOptions(raw);
+}
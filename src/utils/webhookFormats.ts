@@ -0,0 +1,229 @@
+import { toEventData } from './eventContext';
+import { toWwebjsJid } from './jidHelper';
+import type {
+  MessageData,
+  PollVoteData,
+  WebhookEventV2,
+  WebhookMessageV2,
+  WebhookPayload,
+  WebhookPayloadFormat,
+} from '../types';
+
+export const WEBHOOK_PAYLOAD_FORMATS: readonly WebhookPayloadFormat[] = ['wwebjs', 'v2', 'cloudevents', 'cloudevents-binary'];
+
+// CloudEvents `type` is `<prefix><dataType>`, `source` is `/sessions/<sessionId>`
+const CLOUDEVENTS_TYPE_PREFIX = 'baileys.';
+
+/** A delivery body with the headers describing it */
+export interface RenderedWebhook {
+  body: string;
+  headers: Record<string, string>;
+}
+
+function toMessageV2(message: MessageData | null | undefined): WebhookMessageV2 | null {
+  if (!message?.id) {
+    return null;
+  }
+
+  return {
+    id: message.id._serialized,
+    messageId: message.id.id,
+    chatId: message.id.remote,
+    from: message.from,
+    to: message.to,
+    author: message.author ?? null,
+    fromMe: message.fromMe,
+    type: message.type,
+    body: message.body,
+    timestamp: message.timestamp,
+    hasMedia: message.hasMedia,
+    hasQuotedMsg: message.hasQuotedMsg,
+    isForwarded: message.isForwarded,
+    forwardingScore: message.forwardingScore,
+    isStatus: message.isStatus,
+    mentionedIds: message.mentionedIds,
+    ack: message.ack,
+    isRevoked: !!message.isRevoked,
+    isEdited: !!message.isEdited,
+  };
+}
+
+/**
+ * Reference to a message from a wwebjs message id object
+ */
+function toMessageRef(value: unknown): { id: string; messageId: string; chatId: string; fromMe: boolean } | null {
+  const id = toEventData(value);
+  if (typeof id._serialized !== 'string' || !id._serialized) {
+    return null;
+  }
+
+  const { _serialized, id: messageId, remote, fromMe } = id as MessageData['id'];
+  return { id: _serialized, messageId, chatId: remote, fromMe: !!fromMe };
+}
+
+function toChatId(id: unknown): string | null {
+  if (typeof id === 'string') {
+    return toWwebjsJid(id);
+  }
+
+  const serialized = toEventData(id)._serialized;
+  return typeof serialized === 'string' ? serialized : null;
+}
+
+/**
+ * Drop raw Baileys objects (`_data`) from event data without a dedicated v2 shape
+ */
+function stripRaw(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stripRaw);
+  }
+
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).filter(([key]) => key !== '_data').map(([key, item]) => [key, stripRaw(item)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Data of an event in the v2 schema, from the wwebjs-compatible data built by `WebhookService`.
+ * Every shape is documented in the OpenAPI document (`WebhookV2Data*` schemas).
+ */
+export function toV2Data(dataType: string, data: unknown): unknown {
+  const event = toEventData(data);
+
+  switch (dataType) {
+    case 'message':
+    case 'message_create':
+    case 'message_revoke_me':
+    case 'media_uploaded':
+      return toMessageV2(data as MessageData | null);
+    case 'message_ack':
+      return { message: toMessageRef(toEventData(event.message).id), ack: event.ack };
+    case 'message_revoke_everyone':
+      return {
+        message: toMessageV2(event.message as MessageData | undefined),
+        revokedMessage: toMessageV2(event.revokedMsg as MessageData | undefined),
+      };
+    case 'message_edit':
+      return {
+        message: toMessageV2(event.message as MessageData | undefined),
+        newBody: event.newBody,
+        prevBody: event.prevBody ?? null,
+      };
+    case 'message_reaction': {
+      const reaction = toEventData(event.reaction);
+      const senderKey = toEventData(reaction.key);
+      const sender = senderKey.participant || senderKey.remoteJid;
+      return {
+        message: toMessageRef(event.id),
+        emoji: reaction.text || null,
+        senderId: typeof sender === 'string' ? toWwebjsJid(sender) : null,
+        fromMe: !!senderKey.fromMe,
+      };
+    }
+    case 'vote_update': {
+      const vote = event as Partial<PollVoteData>;
+      return {
+        message: toMessageRef(vote.parentMsgKey),
+        voterId: vote.voter,
+        selectedOptions: vote.selectedOptions || [],
+        votedAt: vote.interractedAtTs,
+        poll: vote.poll ?? null,
+        undecryptable: !!vote.undecryptable,
+        reason: vote.reason ?? null,
+      };
+    }
+    case 'group_join':
+    case 'group_leave':
+      return { groupId: toChatId(event.id), participant: event.participant, action: event.action };
+    case 'group_update': {
+      const { id, ...changes } = event;
+      return { groupId: toChatId(id), changes: stripRaw(changes) };
+    }
+    case 'unread_count':
+      return { chatId: toChatId(event.id), unreadCount: event.unreadCount };
+    case 'chat_removed':
+      return { chatId: toChatId(event.id) };
+    case 'chat_archived':
+      return { chatId: toChatId(toEventData(event.chat).id), archived: !!event.archived };
+    default:
+      return stripRaw(data);
+  }
+}
+
+/**
+ * Percent-encode what the CloudEvents HTTP binding does not allow in header values (space, `"`, `%`
+ * and anything outside printable ASCII)
+ */
+function encodeHeaderValue(value: string): string {
+  return value.replace(/[^\x21\x23\x24\x26-\x7E]/gu, (char) => encodeURIComponent(char));
+}
+
+/**
+ * Chat an event is about, if any (CloudEvents `subject`)
+ */
+function getSubject(data: unknown): string | null {
+  const event = toEventData(data);
+  const chatId = event.chatId ?? event.groupId ?? toEventData(event.message).chatId;
+  return typeof chatId === 'string' ? chatId : null;
+}
+
+/**
+ * Body and content headers of an event in a subscription's payload format. `id` is the event id
+ * and `time` when the event was emitted (epoch ms).
+ */
+export function renderWebhookPayload(
+  format: WebhookPayloadFormat,
+  event: { id: string; time: number; payload: WebhookPayload }
+): RenderedWebhook {
+  const { id, payload } = event;
+  const time = new Date(event.time).toISOString();
+
+  if (format === 'wwebjs') {
+    return { body: JSON.stringify(payload), headers: { 'Content-Type': 'application/json' } };
+  }
+
+  const data = toV2Data(payload.dataType, payload.data);
+
+  if (format === 'v2') {
+    const envelope: WebhookEventV2 = {
+      version: 2,
+      id,
+      type: payload.dataType,
+      sessionId: payload.sessionId,
+      timestamp: time,
+      data,
+    };
+    return { body: JSON.stringify(envelope), headers: { 'Content-Type': 'application/json' } };
+  }
+
+  const subject = getSubject(data);
+  const attributes: Record<string, string> = {
+    specversion: '1.0',
+    id,
+    source: `/sessions/${encodeURIComponent(payload.sessionId)}`,
+    type: `${CLOUDEVENTS_TYPE_PREFIX}${payload.dataType}`,
+    time,
+    ...(subject ? { subject } : {}),
+    // extension attribute, so receivers do not have to parse `source`
+    sessionid: payload.sessionId,
+  };
+
+  if (format === 'cloudevents-binary') {
+    return {
+      body: JSON.stringify(data ?? null),
+      headers: {
+        'Content-Type': 'application/json',
+        ...Object.fromEntries(Object.entries(attributes).map(([name, value]) => [`ce-${name}`, encodeHeaderValue(value)])),
+      },
+    };
+  }
+
+  return {
+    body: JSON.stringify({ ...attributes, datacontenttype: 'application/json', data }),
+    headers: { 'Content-Type': 'application/cloudevents+json' },
+  };
+}
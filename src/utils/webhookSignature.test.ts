@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test';
+
+import {
+  computeWebhookSignature,
+  signWebhook,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './webhookSignature';
+
+const BODY = JSON.stringify({ dataType: 'message', data: { body: 'hello' } });
+const NOW = 1_700_000_000;
+
+describe('verifyWebhookSignature', () => {
+  test('accepts a delivery signed with the secret', () => {
+    const headers = signWebhook(['current'], 'evt-1', BODY, NOW);
+
+    expect(verifyWebhookSignature(BODY, headers, ['current'], { now: NOW })).toBe(true);
+    expect(verifyWebhookSignature(Buffer.from(BODY), headers, ['current'], { now: NOW })).toBe(true);
+  });
+
+  test('receivers holding either secret verify during a rotation', () => {
+    const headers = signWebhook(['new', 'old'], 'evt-1', BODY, NOW);
+
+    expect(headers[WEBHOOK_SIGNATURE_HEADER].split(',')).toHaveLength(2);
+    expect(verifyWebhookSignature(BODY, headers, ['old'], { now: NOW })).toBe(true);
+    expect(verifyWebhookSignature(BODY, headers, ['new'], { now: NOW })).toBe(true);
+    expect(verifyWebhookSignature(BODY, headers, ['other', 'new'], { now: NOW })).toBe(true);
+  });
+
+  test('rejects a wrong secret, a changed body and a changed event id', () => {
+    const headers = signWebhook(['current'], 'evt-1', BODY, NOW);
+
+    expect(verifyWebhookSignature(BODY, headers, ['wrong'], { now: NOW })).toBe(false);
+    expect(verifyWebhookSignature(`${BODY} `, headers, ['current'], { now: NOW })).toBe(false);
+    expect(verifyWebhookSignature(BODY, { ...headers, 'x-webhook-id': 'evt-2' }, ['current'], { now: NOW })).toBe(false);
+    expect(verifyWebhookSignature(BODY, headers, [], { now: NOW })).toBe(false);
+  });
+
+  test('rejects timestamps outside the tolerance', () => {
+    const headers = signWebhook(['current'], 'evt-1', BODY, NOW);
+
+    expect(verifyWebhookSignature(BODY, headers, ['current'], { now: NOW + 300 })).toBe(true);
+    expect(verifyWebhookSignature(BODY, headers, ['current'], { now: NOW + 301 })).toBe(false);
+    expect(verifyWebhookSignature(BODY, headers, ['current'], { now: NOW - 301 })).toBe(false);
+    expect(verifyWebhookSignature(BODY, headers, ['current'], { now: NOW + 3600, toleranceSeconds: 3600 })).toBe(true);
+
+    // moving the timestamp into the window breaks the signature
+    const replayed = { ...headers, [WEBHOOK_TIMESTAMP_HEADER]: String(NOW + 600) };
+    expect(verifyWebhookSignature(BODY, replayed, ['current'], { now: NOW + 600 })).toBe(false);
+  });
+
+  test('rejects missing headers and a non-numeric timestamp', () => {
+    const headers = signWebhook(['current'], 'evt-1', BODY, NOW);
+
+    for (const name of Object.keys(headers)) {
+      const { [name]: _removed, ...rest } = headers;
+      expect(verifyWebhookSignature(BODY, rest, ['current'], { now: NOW })).toBe(false);
+    }
+    expect(
+      verifyWebhookSignature(BODY, { ...headers, [WEBHOOK_TIMESTAMP_HEADER]: 'soon' }, ['current'], { now: NOW })
+    ).toBe(false);
+  });
+
+  test('ignores other versions and malformed entries without throwing', () => {
+    const signature = computeWebhookSignature('current', NOW, 'evt-1', BODY);
+    const headers = signWebhook([], 'evt-1', BODY, NOW);
+    const verify = (value: string) =>
+      verifyWebhookSignature(BODY, { ...headers, [WEBHOOK_SIGNATURE_HEADER]: value }, ['current'], { now: NOW });
+
+    expect(verify(`v0=${signature}`)).toBe(false);
+    expect(verify(`v1=${signature.slice(0, 32)}`)).toBe(false);
+    expect(verify('v1=not-hex, v1=, =, garbage')).toBe(false);
+    expect(verify(`v0=deadbeef, v1=${signature.slice(2)}, v1=${signature}`)).toBe(true);
+  });
+
+  test('reads array header values as sent by Node for repeated headers', () => {
+    const headers = signWebhook(['current'], 'evt-1', BODY, NOW);
+    const repeated = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, [value, 'ignored']]));
+
+    expect(verifyWebhookSignature(BODY, repeated, ['current'], { now: NOW })).toBe(true);
+  });
+});
@@ -0,0 +1,92 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const WEBHOOK_ID_HEADER = 'x-webhook-id';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+
+const SIGNATURE_VERSION = 'v1';
+// Receivers reject deliveries signed longer ago than this (replayed requests)
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * HMAC-SHA256 (hex) of `<timestamp>.<eventId>.<raw body>` with one secret
+ */
+export function computeWebhookSignature(secret: string, timestamp: number, eventId: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${eventId}.${body}`).digest('hex');
+}
+
+/**
+ * Headers identifying and signing one delivery attempt. Every active secret adds a `v1=<hex>` entry to
+ * the signature header, so receivers still holding the previous secret keep verifying during a rotation.
+ */
+export function signWebhook(
+  secrets: readonly string[],
+  eventId: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    [WEBHOOK_ID_HEADER]: eventId,
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+  };
+
+  if (secrets.length > 0) {
+    headers[WEBHOOK_SIGNATURE_HEADER] = secrets
+      .map((secret) => `${SIGNATURE_VERSION}=${computeWebhookSignature(secret, timestamp, eventId, body)}`)
+      .join(',');
+  }
+
+  return headers;
+}
+
+/**
+ * Verify a received webhook: `body` must be the raw request body (before JSON parsing), `headers` the
+ * request headers and `secrets` the secret(s) the receiver accepts. Valid when any signature in the
+ * header matches any secret and the timestamp is within `toleranceSeconds` of now.
+ *
+ * ```ts
+ * app.post('/webhook', express.text({ type: 'application/json' }), (req, res) => {
+ *   if (!verifyWebhookSignature(req.body, req.headers, [process.env.WEBHOOK_SECRET!])) {
+ *     return res.sendStatus(401);
+ *   }
+ *   const event = JSON.parse(req.body);
+ *   ...
+ * });
+ * ```
+ */
+export function verifyWebhookSignature(
+  body: string | Buffer,
+  headers: Record<string, string | string[] | undefined>,
+  secrets: readonly string[],
+  options: { toleranceSeconds?: number; now?: number } = {}
+): boolean {
+  const header = (name: string): string | undefined => {
+    const value = headers[name] ?? headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const eventId = header(WEBHOOK_ID_HEADER);
+  const timestamp = Number(header(WEBHOOK_TIMESTAMP_HEADER));
+  const signatureHeader = header(WEBHOOK_SIGNATURE_HEADER);
+  if (!eventId || !Number.isInteger(timestamp) || !signatureHeader) {
+    return false;
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (Math.abs(now - timestamp) > (options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS)) {
+    return false;
+  }
+
+  const received = signatureHeader
+    .split(',')
+    .map((entry) => entry.trim().split('='))
+    .filter(([version, value]) => version === SIGNATURE_VERSION && value)
+    .map(([, value]) => Buffer.from(value, 'hex'));
+
+  const raw = typeof body === 'string' ? body : body.toString('utf8');
+
+  return secrets.some((secret) => {
+    const expected = Buffer.from(computeWebhookSignature(secret, timestamp, eventId, raw), 'hex');
+    return received.some((signature) => signature.length === expected.length && timingSafeEqual(signature, expected));
+  });
+}